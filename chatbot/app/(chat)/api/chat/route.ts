@@ -3,10 +3,11 @@ import {
 	fetchYouTubeTranscript,
 	fetchYouTubeVideos,
 	indexYouTubeChannel,
-	SemanticSearchService,
+	indexYouTubeVideos,
+	manageChannelCollection,
 	searchYouTubeContent,
+	syncYouTubeChannel,
 	validateYouTubeLink,
-	YouTubeChannelIndexer,
 } from "@workspace/youtube-indexer";
 import {
 	convertToModelMessages,
@@ -30,7 +31,7 @@ import type { VisibilityType } from "@/components/visibility-selector";
 import { entitlementsByUserType } from "@/lib/ai/entitlements";
 import type { ChatModel } from "@/lib/ai/models";
 import { type RequestHints, systemPrompt } from "@/lib/ai/prompts";
-import { myProvider } from "@/lib/ai/providers";
+import { embeddingProvider, myProvider, reranker } from "@/lib/ai/providers";
 import { checkDatabaseStatus } from "@/lib/ai/tools/check-database-status";
 import { createDocument } from "@/lib/ai/tools/create-document";
 import { getWeather } from "@/lib/ai/tools/get-weather";
@@ -41,7 +42,6 @@ import { updateDocument } from "@/lib/ai/tools/update-document";
 import { isProductionEnvironment } from "@/lib/constants";
 import {
 	createStreamId,
-	db,
 	deleteChatById,
 	getChatById,
 	getMessageCountByUserId,
@@ -49,6 +49,7 @@ import {
 	saveChat,
 	saveMessages,
 	updateChatLastContextById,
+	youtubeStore,
 } from "@/lib/db/queries";
 import { ChatSDKError } from "@/lib/errors";
 import type { ChatMessage } from "@/lib/types";
@@ -61,6 +62,12 @@ export const maxDuration = 60;
 
 let globalStreamContext: ResumableStreamContext | null = null;
 
+const youtubeToolContext = {
+	store: youtubeStore,
+	embeddings: embeddingProvider,
+	reranker,
+};
+
 const getTokenlensCatalog = cache(
 	async (): Promise<ModelCatalog | undefined> => {
 		try {
@@ -98,10 +105,6 @@ export function getStreamContext() {
 }
 
 export async function POST(request: Request) {
-	// Initialize YouTube indexer database
-	SemanticSearchService.setDatabase(db);
-	YouTubeChannelIndexer.setDatabase(db);
-
 	let requestBody: PostRequestBody;
 
 	try {
@@ -219,7 +222,10 @@ export async function POST(request: Request) {
 									"fetchYouTubeVideos",
 									"fetchYouTubeTranscript",
 									"indexYouTubeChannel",
+									"indexYouTubeVideos",
+									"syncYouTubeChannel",
 									"searchYouTubeContent",
+									"manageChannelCollection",
 									"checkDatabaseStatus",
 									"regenerateEmbeddings",
 									"testSearch",
@@ -236,11 +242,15 @@ export async function POST(request: Request) {
 						validateYouTubeLink,
 						fetchYouTubeVideos,
 						fetchYouTubeTranscript,
-						indexYouTubeChannel,
-						searchYouTubeContent,
-						checkDatabaseStatus,
-						regenerateEmbeddings,
-						testSearch,
+						indexYouTubeChannel: indexYouTubeChannel(youtubeToolContext),
+						indexYouTubeVideos: indexYouTubeVideos(youtubeToolContext),
+						syncYouTubeChannel: syncYouTubeChannel(youtubeToolContext),
+						searchYouTubeContent: searchYouTubeContent(youtubeToolContext),
+						manageChannelCollection:
+							manageChannelCollection(youtubeToolContext),
+						checkDatabaseStatus: checkDatabaseStatus(youtubeToolContext),
+						regenerateEmbeddings: regenerateEmbeddings(youtubeToolContext),
+						testSearch: testSearch(youtubeToolContext),
 					},
 					experimental_telemetry: {
 						isEnabled: isProductionEnvironment,
@@ -0,0 +1,42 @@
+import { getChannelIndexingProgress } from "@workspace/youtube-indexer";
+import type { NextRequest } from "next/server";
+import { auth } from "@/app/(auth)/auth";
+import { youtubeStore } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { indexingParamsSchema } from "./schema";
+
+// Progress of a channel indexing job; clients poll it until the job finishes
+export async function GET(request: NextRequest) {
+	const parsed = indexingParamsSchema.safeParse(
+		Object.fromEntries(request.nextUrl.searchParams),
+	);
+
+	if (!parsed.success) {
+		return new ChatSDKError(
+			"bad_request:api",
+			parsed.error.issues
+				.map(({ path, message }) => `${path.join(".")}: ${message}`)
+				.join("; "),
+		).toResponse();
+	}
+
+	const session = await auth();
+
+	if (!session?.user) {
+		return new ChatSDKError("unauthorized:auth").toResponse();
+	}
+
+	const progress = await getChannelIndexingProgress(
+		youtubeStore,
+		parsed.data.jobId,
+	);
+
+	if (!progress) {
+		return new ChatSDKError(
+			"not_found:youtube",
+			"Indexing job not found",
+		).toResponse();
+	}
+
+	return Response.json(progress);
+}
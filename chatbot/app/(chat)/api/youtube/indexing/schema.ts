@@ -0,0 +1,7 @@
+import { z } from "zod";
+
+export const indexingParamsSchema = z.object({
+	jobId: z.string().uuid(),
+});
+
+export type IndexingParams = z.infer<typeof indexingParamsSchema>;
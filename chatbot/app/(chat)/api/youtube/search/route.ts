@@ -0,0 +1,117 @@
+import {
+	SearchCursorError,
+	SearchRankingCache,
+	type SearchResult,
+	SemanticSearchService,
+} from "@workspace/youtube-indexer";
+import type { NextRequest } from "next/server";
+import { auth } from "@/app/(auth)/auth";
+import { embeddingProvider, reranker } from "@/lib/ai/providers";
+import { youtubeStore } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { searchParamsSchema } from "./schema";
+
+// Rankings of recent first pages, so following a cursor does not search again
+const rankingCache = new SearchRankingCache<SearchResult>();
+
+// Pages through indexed YouTube content without going through the model.
+// Pass the returned nextCursor, with the same parameters, for the next page.
+// Paging stops after the top SEARCH_PAGE_DEPTH (100) results.
+export async function GET(request: NextRequest) {
+	const parsed = searchParamsSchema.safeParse(
+		Object.fromEntries(request.nextUrl.searchParams),
+	);
+
+	if (!parsed.success) {
+		return new ChatSDKError(
+			"bad_request:api",
+			parsed.error.issues
+				.map(({ path, message }) => `${path.join(".")}: ${message}`)
+				.join("; "),
+		).toResponse();
+	}
+
+	const session = await auth();
+
+	if (!session?.user) {
+		return new ChatSDKError("unauthorized:auth").toResponse();
+	}
+
+	const {
+		q: query,
+		cursor,
+		publishedAfter,
+		publishedBefore,
+		minDuration,
+		maxDuration,
+		minViews,
+		videoIds,
+		entityType,
+		...options
+	} = parsed.data;
+
+	const searchService = new SemanticSearchService(
+		youtubeStore,
+		embeddingProvider,
+		{ reranker, rankingCache },
+	);
+
+	try {
+		const page = await searchService.searchPage(query, {
+			...options,
+			cursor,
+			filters: {
+				publishedAfter,
+				publishedBefore,
+				minDuration,
+				maxDuration,
+				minViews,
+				videoIds,
+				entityType,
+			},
+		});
+
+		return Response.json({
+			query,
+			results: page.results.map((result, index) =>
+				toSearchHit(result, page.offset + index + 1),
+			),
+			offset: page.offset,
+			nextCursor: page.nextCursor,
+		});
+	} catch (error) {
+		if (error instanceof SearchCursorError) {
+			return new ChatSDKError("bad_request:api", error.message).toResponse();
+		}
+		throw error;
+	}
+}
+
+// Chunk embeddings and transcripts stay on the server
+function toSearchHit(result: SearchResult, rank: number) {
+	const { chunk, video, channel } = result;
+
+	return {
+		rank,
+		chunkId: chunk.id,
+		chunkIds: result.chunks.map(({ id }) => id),
+		content: result.content,
+		startTime: result.startTime,
+		endTime: result.endTime,
+		url: `${video.videoUrl}&t=${result.startTime}s`,
+		relevanceScore: result.relevanceScore,
+		matchedKeywords: result.matchedKeywords,
+		retrieval: result.retrieval,
+		rerank: result.rerank,
+		video: {
+			videoId: video.videoId,
+			title: video.title,
+			videoUrl: video.videoUrl,
+			thumbnailUrl: video.thumbnailUrl,
+			publishedAt: video.publishedAt,
+			duration: video.duration,
+			viewCount: video.viewCount,
+		},
+		channel,
+	};
+}
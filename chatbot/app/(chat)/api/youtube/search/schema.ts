@@ -0,0 +1,41 @@
+import { keywordEntityTypes } from "@workspace/youtube-indexer";
+import { z } from "zod";
+
+// Lists are passed comma separated, e.g. channelIds=mkbhd,linustechtips
+const listSchema = z
+	.string()
+	.transform((value) =>
+		value
+			.split(",")
+			.map((item) => item.trim())
+			.filter(Boolean),
+	)
+	.pipe(z.array(z.string()).max(50));
+
+const countSchema = z.coerce.number().int().min(0);
+
+export const searchParamsSchema = z.object({
+	q: z.string().trim().min(1).max(500),
+	cursor: z.string().max(200).optional(),
+	limit: z.coerce.number().int().min(1).max(50).default(10),
+	channelId: z.string().optional(),
+	channelIds: listSchema.optional(),
+	collection: z.string().max(100).optional(),
+	balanceChannels: z
+		.enum(["true", "false"])
+		.transform((value) => value === "true")
+		.optional(),
+	publishedAfter: z.coerce.date().optional(),
+	publishedBefore: z.coerce.date().optional(),
+	minDuration: countSchema.optional(), // seconds
+	maxDuration: countSchema.optional(), // seconds
+	minViews: countSchema.optional(),
+	videoIds: listSchema.optional(),
+	entityType: z.enum(keywordEntityTypes).optional(),
+	rerank: z
+		.enum(["true", "false"])
+		.transform((value) => value === "true")
+		.optional(),
+});
+
+export type SearchParams = z.infer<typeof searchParamsSchema>;
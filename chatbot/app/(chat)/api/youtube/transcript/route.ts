@@ -0,0 +1,85 @@
+import {
+	removeChunkOverlaps,
+	type VideoKeyword,
+} from "@workspace/youtube-indexer";
+import type { NextRequest } from "next/server";
+import { auth } from "@/app/(auth)/auth";
+import { youtubeStore } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import type { VideoTranscript } from "@/lib/youtube";
+import { transcriptParamsSchema } from "./schema";
+
+// A stored video's transcript, one entry per chunk in playback order
+export async function GET(request: NextRequest) {
+	const parsed = transcriptParamsSchema.safeParse(
+		Object.fromEntries(request.nextUrl.searchParams),
+	);
+
+	if (!parsed.success) {
+		return new ChatSDKError(
+			"bad_request:api",
+			parsed.error.issues
+				.map(({ path, message }) => `${path.join(".")}: ${message}`)
+				.join("; "),
+		).toResponse();
+	}
+
+	const session = await auth();
+
+	if (!session?.user) {
+		return new ChatSDKError("unauthorized:auth").toResponse();
+	}
+
+	const video = await youtubeStore.videos.findByVideoId(parsed.data.videoId);
+
+	if (!video) {
+		return new ChatSDKError("not_found:youtube").toResponse();
+	}
+
+	const [channel, chunks, keywords] = await Promise.all([
+		youtubeStore.channels.findById(video.channelId),
+		youtubeStore.chunks.findByVideo(video.id),
+		youtubeStore.keywords.findByVideo(video.id),
+	]);
+	chunks.sort((a, b) => a.chunkIndex - b.chunkIndex);
+	// Chunks overlap; each entry shows only the text its chunk adds
+	const texts = removeChunkOverlaps(chunks.map(({ content }) => content));
+	const keywordsByChunk = new Map<string | null, VideoKeyword[]>();
+	for (const keyword of keywords) {
+		keywordsByChunk.set(keyword.chunkId, [
+			...(keywordsByChunk.get(keyword.chunkId) ?? []),
+			keyword,
+		]);
+	}
+
+	const transcript: VideoTranscript = {
+		video: {
+			videoId: video.videoId,
+			title: video.title,
+			videoUrl: video.videoUrl,
+			thumbnailUrl: video.thumbnailUrl,
+			duration: video.duration,
+			channelName: channel?.channelName ?? null,
+		},
+		// Rows without a chunk describe the whole video
+		keywords: (keywordsByChunk.get(null) ?? []).map(
+			({ keyword, entityType, frequency }) => ({
+				word: keyword,
+				entity: entityType,
+				count: frequency,
+			}),
+		),
+		chunks: chunks.map((chunk, index) => ({
+			id: chunk.id,
+			chunkIndex: chunk.chunkIndex,
+			startTime: chunk.startTime,
+			endTime: chunk.endTime,
+			text: texts[index],
+			keywords: (keywordsByChunk.get(chunk.id) ?? []).map(
+				({ keyword }) => keyword,
+			),
+		})),
+	};
+
+	return Response.json(transcript);
+}
@@ -0,0 +1,7 @@
+import { z } from "zod";
+
+export const transcriptParamsSchema = z.object({
+	videoId: z.string().trim().min(1).max(50),
+});
+
+export type TranscriptParams = z.infer<typeof transcriptParamsSchema>;
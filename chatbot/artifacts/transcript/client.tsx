@@ -0,0 +1,27 @@
+import { ExternalLinkIcon } from "lucide-react";
+import { Artifact } from "@/components/create-artifact";
+import { YouTubeTranscriptViewer } from "@/components/youtube-transcript-viewer";
+import { parseTranscriptViewerContent, youtubeWatchUrl } from "@/lib/youtube";
+
+export const transcriptArtifact = new Artifact({
+	kind: "transcript",
+	description: "Reads and searches the stored transcript of an indexed video",
+	stored: false,
+	// Opened from YouTube results in the chat, never streamed by a tool
+	onStreamPart: () => undefined,
+	content: YouTubeTranscriptViewer,
+	actions: [
+		{
+			icon: <ExternalLinkIcon size={18} />,
+			description: "Watch on YouTube",
+			onClick: ({ content }) => {
+				const viewer = parseTranscriptViewerContent(content);
+				if (viewer) {
+					window.open(youtubeWatchUrl(viewer.videoId), "_blank", "noreferrer");
+				}
+			},
+			isDisabled: ({ content }) => !parseTranscriptViewerContent(content),
+		},
+	],
+	toolbar: [],
+});
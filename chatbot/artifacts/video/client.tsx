@@ -0,0 +1,50 @@
+import { ExternalLinkIcon } from "lucide-react";
+import { toast } from "sonner";
+import { Artifact } from "@/components/create-artifact";
+import { CopyIcon } from "@/components/icons";
+import { YouTubePlayer } from "@/components/youtube-player";
+import { parsePlayerContent, youtubeWatchUrl } from "@/lib/youtube";
+
+function currentClipUrl(content: string) {
+	const player = parsePlayerContent(content);
+	if (!player) {
+		return null;
+	}
+	const { videoId, startTime } = player.clips[player.index];
+	return youtubeWatchUrl(videoId, startTime);
+}
+
+export const videoArtifact = new Artifact({
+	kind: "video",
+	description: "Plays YouTube search clips beside the chat",
+	stored: false,
+	// Opened from clip links in the chat, never streamed by a tool
+	onStreamPart: () => undefined,
+	content: YouTubePlayer,
+	actions: [
+		{
+			icon: <ExternalLinkIcon size={18} />,
+			description: "Watch on YouTube",
+			onClick: ({ content }) => {
+				const url = currentClipUrl(content);
+				if (url) {
+					window.open(url, "_blank", "noreferrer");
+				}
+			},
+			isDisabled: ({ content }) => !currentClipUrl(content),
+		},
+		{
+			icon: <CopyIcon size={18} />,
+			description: "Copy link to this clip",
+			onClick: ({ content }) => {
+				const url = currentClipUrl(content);
+				if (url) {
+					navigator.clipboard.writeText(url);
+					toast.success("Copied link to clipboard!");
+				}
+			},
+			isDisabled: ({ content }) => !currentClipUrl(content),
+		},
+	],
+	toolbar: [],
+});
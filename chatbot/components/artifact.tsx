@@ -16,6 +16,8 @@ import { codeArtifact } from "@/artifacts/code/client";
 import { imageArtifact } from "@/artifacts/image/client";
 import { sheetArtifact } from "@/artifacts/sheet/client";
 import { textArtifact } from "@/artifacts/text/client";
+import { transcriptArtifact } from "@/artifacts/transcript/client";
+import { videoArtifact } from "@/artifacts/video/client";
 import { useArtifact } from "@/hooks/use-artifact";
 import type { Document, Vote } from "@/lib/db/schema";
 import type { Attachment, ChatMessage } from "@/lib/types";
@@ -34,9 +36,18 @@ export const artifactDefinitions = [
 	codeArtifact,
 	imageArtifact,
 	sheetArtifact,
+	transcriptArtifact,
+	videoArtifact,
 ];
 export type ArtifactKind = (typeof artifactDefinitions)[number]["kind"];
 
+// Kinds saved as documents, as opposed to panels opened from the client
+export function isStoredKind(kind: ArtifactKind): kind is Document["kind"] {
+	return artifactDefinitions.some(
+		(definition) => definition.kind === kind && definition.stored,
+	);
+}
+
 export type UIArtifact = {
 	title: string;
 	documentId: string;
@@ -87,12 +98,22 @@ function PureArtifact({
 }) {
 	const { artifact, setArtifact, metadata, setMetadata } = useArtifact();
 
+	const artifactDefinition = artifactDefinitions.find(
+		(definition) => definition.kind === artifact.kind,
+	);
+
+	if (!artifactDefinition) {
+		throw new Error("Artifact definition not found!");
+	}
+
 	const {
 		data: documents,
 		isLoading: isDocumentsFetching,
 		mutate: mutateDocuments,
 	} = useSWR<Document[]>(
-		artifact.documentId !== "init" && artifact.status !== "streaming"
+		artifact.documentId !== "init" &&
+			artifact.status !== "streaming" &&
+			artifactDefinition.stored
 			? `/api/document?id=${artifact.documentId}`
 			: null,
 		fetcher,
@@ -243,14 +264,6 @@ function PureArtifact({
 	const { width: windowWidth, height: windowHeight } = useWindowSize();
 	const isMobile = windowWidth ? windowWidth < 768 : false;
 
-	const artifactDefinition = artifactDefinitions.find(
-		(definition) => definition.kind === artifact.kind,
-	);
-
-	if (!artifactDefinition) {
-		throw new Error("Artifact definition not found!");
-	}
-
 	useEffect(() => {
 		if (artifact.documentId !== "init" && artifactDefinition.initialize) {
 			artifactDefinition.initialize({
@@ -325,6 +338,7 @@ function PureArtifact({
 									isReadonly={isReadonly}
 									messages={messages}
 									regenerate={regenerate}
+									sendMessage={sendMessage}
 									setMessages={setMessages}
 									status={status}
 									votes={votes}
@@ -425,7 +439,7 @@ function PureArtifact({
 								<div className="flex flex-col">
 									<div className="font-medium">{artifact.title}</div>
 
-									{isContentDirty ? (
+									{!artifactDefinition.stored ? null : isContentDirty ? (
 										<div className="text-muted-foreground text-sm">
 											Saving changes...
 										</div>
@@ -471,6 +485,7 @@ function PureArtifact({
 								metadata={metadata}
 								mode={mode}
 								onSaveContent={saveContent}
+								setInput={setInput}
 								setMetadata={setMetadata}
 								status={artifact.status}
 								suggestions={[]}
@@ -170,6 +170,7 @@ export function Chat({
 					messages={messages}
 					regenerate={regenerate}
 					selectedModelId={initialChatModel}
+					sendMessage={sendMessage}
 					setMessages={setMessages}
 					status={status}
 					votes={votes}
@@ -47,6 +47,8 @@ type ArtifactContent<M = any> = {
 	isLoading: boolean;
 	metadata: M;
 	setMetadata: Dispatch<SetStateAction<M>>;
+	// Edits the message being composed beside the artifact
+	setInput: Dispatch<SetStateAction<string>>;
 };
 
 type InitializeParameters<M = any> = {
@@ -60,6 +62,8 @@ type ArtifactConfig<T extends string, M = any> = {
 	content: ComponentType<ArtifactContent<M>>;
 	actions: ArtifactAction<M>[];
 	toolbar: ArtifactToolbarItem[];
+	// Kinds opened straight from the client have no document to load or save
+	stored?: boolean;
 	initialize?: (parameters: InitializeParameters<M>) => void;
 	onStreamPart: (args: {
 		setMetadata: Dispatch<SetStateAction<M>>;
@@ -74,6 +78,7 @@ export class Artifact<T extends string, M = any> {
 	readonly content: ComponentType<ArtifactContent<M>>;
 	readonly actions: ArtifactAction<M>[];
 	readonly toolbar: ArtifactToolbarItem[];
+	readonly stored: boolean;
 	readonly initialize?: (parameters: InitializeParameters) => void;
 	readonly onStreamPart: (args: {
 		setMetadata: Dispatch<SetStateAction<M>>;
@@ -87,6 +92,7 @@ export class Artifact<T extends string, M = any> {
 		this.content = config.content;
 		this.actions = config.actions || [];
 		this.toolbar = config.toolbar || [];
+		this.stored = config.stored ?? true;
 		this.initialize = config.initialize || (async () => ({}));
 		this.onStreamPart = config.onStreamPart;
 	}
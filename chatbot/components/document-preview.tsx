@@ -13,7 +13,7 @@ import useSWR from "swr";
 import { useArtifact } from "@/hooks/use-artifact";
 import type { Document } from "@/lib/db/schema";
 import { cn, fetcher } from "@/lib/utils";
-import type { ArtifactKind, UIArtifact } from "./artifact";
+import { type ArtifactKind, isStoredKind, type UIArtifact } from "./artifact";
 import { CodeEditor } from "./code-editor";
 import { DocumentToolCall, DocumentToolResult } from "./document";
 import { InlineDocumentSkeleton } from "./document-skeleton";
@@ -86,7 +86,7 @@ export function DocumentPreview({
 
 	const document: Document | null = previewDocument
 		? previewDocument
-		: artifact.status === "streaming"
+		: artifact.status === "streaming" && isStoredKind(artifact.kind)
 			? {
 					title: artifact.title,
 					kind: artifact.kind,
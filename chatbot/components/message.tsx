@@ -2,7 +2,8 @@
 import type { UseChatHelpers } from "@ai-sdk/react";
 import equal from "fast-deep-equal";
 import { motion } from "framer-motion";
-import { memo, useState } from "react";
+import { memo, useMemo, useState } from "react";
+import { linkMessageCitations } from "@/lib/citations";
 import type { Vote } from "@/lib/db/schema";
 import type { ChatMessage } from "@/lib/types";
 import { cn, sanitizeText } from "@/lib/utils";
@@ -24,6 +25,14 @@ import { MessageEditor } from "./message-editor";
 import { MessageReasoning } from "./message-reasoning";
 import { PreviewAttachment } from "./preview-attachment";
 import { Weather } from "./weather";
+import { CitationLink, CitationProvider } from "./youtube-citation";
+import { YouTubeIndexingPlan } from "./youtube-indexing-plan";
+import { YouTubeIndexingProgress } from "./youtube-indexing-progress";
+import { YouTubeSearchResults } from "./youtube-search-results";
+import { YouTubeTranscriptResult } from "./youtube-transcript-result";
+import { YouTubeVideoCards } from "./youtube-video-cards";
+
+const citationComponents = { a: CitationLink };
 
 const PurePreviewMessage = ({
 	chatId,
@@ -31,6 +40,7 @@ const PurePreviewMessage = ({
 	vote,
 	isLoading,
 	setMessages,
+	sendMessage,
 	regenerate,
 	isReadonly,
 	requiresScrollPadding,
@@ -40,6 +50,7 @@ const PurePreviewMessage = ({
 	vote: Vote | undefined;
 	isLoading: boolean;
 	setMessages: UseChatHelpers<ChatMessage>["setMessages"];
+	sendMessage: UseChatHelpers<ChatMessage>["sendMessage"];
 	regenerate: UseChatHelpers<ChatMessage>["regenerate"];
 	isReadonly: boolean;
 	requiresScrollPadding: boolean;
@@ -50,6 +61,11 @@ const PurePreviewMessage = ({
 		(part) => part.type === "file",
 	);
 
+	const { texts: citedTexts, citations } = useMemo(
+		() => linkMessageCitations(message),
+		[message],
+	);
+
 	useDataStream();
 
 	return (
@@ -138,7 +154,15 @@ const PurePreviewMessage = ({
 													: undefined
 											}
 										>
-											<Response>{sanitizeText(part.text)}</Response>
+											<CitationProvider value={citations}>
+												<Response components={citationComponents}>
+													{sanitizeText(
+														message.role === "assistant"
+															? (citedTexts[index] ?? part.text)
+															: part.text,
+													)}
+												</Response>
+											</CitationProvider>
 										</MessageContent>
 									</div>
 								);
@@ -267,6 +291,130 @@ const PurePreviewMessage = ({
 							);
 						}
 
+						if (type === "tool-searchYouTubeContent") {
+							const { toolCallId, state } = part;
+
+							return (
+								<Tool defaultOpen={true} key={toolCallId}>
+									<ToolHeader state={state} type="tool-searchYouTubeContent" />
+									<ToolContent>
+										{state === "input-available" && (
+											<ToolInput input={part.input} />
+										)}
+										{state === "output-available" && (
+											<ToolOutput
+												errorText={undefined}
+												output={<YouTubeSearchResults output={part.output} />}
+											/>
+										)}
+									</ToolContent>
+								</Tool>
+							);
+						}
+
+						if (type === "tool-fetchYouTubeVideos") {
+							const { toolCallId, state } = part;
+
+							return (
+								<Tool defaultOpen={true} key={toolCallId}>
+									<ToolHeader state={state} type="tool-fetchYouTubeVideos" />
+									<ToolContent>
+										{state === "input-available" && (
+											<ToolInput input={part.input} />
+										)}
+										{state === "output-available" && (
+											<ToolOutput
+												errorText={undefined}
+												output={<YouTubeVideoCards output={part.output} />}
+											/>
+										)}
+									</ToolContent>
+								</Tool>
+							);
+						}
+
+						if (type === "tool-fetchYouTubeTranscript") {
+							const { toolCallId, state } = part;
+
+							return (
+								<Tool defaultOpen={true} key={toolCallId}>
+									<ToolHeader
+										state={state}
+										type="tool-fetchYouTubeTranscript"
+									/>
+									<ToolContent>
+										{state === "input-available" && (
+											<ToolInput input={part.input} />
+										)}
+										{state === "output-available" && (
+											<ToolOutput
+												errorText={undefined}
+												output={
+													<YouTubeTranscriptResult output={part.output} />
+												}
+											/>
+										)}
+									</ToolContent>
+								</Tool>
+							);
+						}
+
+						if (type === "tool-indexYouTubeChannel") {
+							const { toolCallId, state } = part;
+
+							return (
+								<Tool defaultOpen={true} key={toolCallId}>
+									<ToolHeader state={state} type="tool-indexYouTubeChannel" />
+									<ToolContent>
+										{state === "input-available" && (
+											<ToolInput input={part.input} />
+										)}
+										{state === "output-available" && (
+											<ToolOutput
+												errorText={undefined}
+												output={
+													part.output.jobId ? (
+														<YouTubeIndexingProgress
+															jobId={part.output.jobId}
+														/>
+													) : (
+														<YouTubeIndexingPlan
+															isReadonly={isReadonly}
+															output={part.output}
+															sendMessage={sendMessage}
+														/>
+													)
+												}
+											/>
+										)}
+									</ToolContent>
+								</Tool>
+							);
+						}
+
+						// The confirmation step is answered in text; show progress once queued
+						if (type === "tool-indexYouTubeVideos") {
+							const { toolCallId, state } = part;
+
+							if (!(state === "output-available" && part.output.jobId)) {
+								return null;
+							}
+
+							return (
+								<Tool defaultOpen={true} key={toolCallId}>
+									<ToolHeader state={state} type="tool-indexYouTubeVideos" />
+									<ToolContent>
+										<ToolOutput
+											errorText={undefined}
+											output={
+												<YouTubeIndexingProgress jobId={part.output.jobId} />
+											}
+										/>
+									</ToolContent>
+								</Tool>
+							);
+						}
+
 						return null;
 					})}
 
@@ -16,6 +16,7 @@ type MessagesProps = {
 	votes: Vote[] | undefined;
 	messages: ChatMessage[];
 	setMessages: UseChatHelpers<ChatMessage>["setMessages"];
+	sendMessage: UseChatHelpers<ChatMessage>["sendMessage"];
 	regenerate: UseChatHelpers<ChatMessage>["regenerate"];
 	isReadonly: boolean;
 	isArtifactVisible: boolean;
@@ -28,6 +29,7 @@ function PureMessages({
 	votes,
 	messages,
 	setMessages,
+	sendMessage,
 	regenerate,
 	isReadonly,
 	selectedModelId,
@@ -81,6 +83,7 @@ function PureMessages({
 							requiresScrollPadding={
 								hasSentMessage && index === messages.length - 1
 							}
+							sendMessage={sendMessage}
 							setMessages={setMessages}
 							vote={
 								votes
@@ -0,0 +1,122 @@
+"use client";
+
+import {
+	type ComponentProps,
+	createContext,
+	type MouseEvent,
+	useContext,
+} from "react";
+import { useYouTubePlayer } from "@/hooks/use-youtube-player";
+import { type CitationSource, findCitation } from "@/lib/citations";
+import { cn } from "@/lib/utils";
+import { formatTimestamp } from "@/lib/youtube";
+import {
+	InlineCitation,
+	InlineCitationCard,
+	InlineCitationCardBody,
+	InlineCitationQuote,
+	InlineCitationSource,
+} from "./elements/inline-citation";
+import { badgeVariants } from "./ui/badge";
+import { HoverCardTrigger } from "./ui/hover-card";
+
+const MAX_QUOTE_CHARS = 280;
+
+const CitationContext = createContext<CitationSource[]>([]);
+
+export const CitationProvider = CitationContext.Provider;
+
+/**
+ * Markdown link renderer for answers. Links produced by `linkMessageCitations`
+ * become numbered citations with the cited clip on hover; any other link
+ * renders like a plain markdown link.
+ */
+export function CitationLink({
+	href,
+	children,
+	className,
+	node: _node,
+	...props
+}: ComponentProps<"a"> & { node?: unknown }) {
+	const citations = useContext(CitationContext);
+	const citation = findCitation(citations, href);
+	const playClip = useYouTubePlayer();
+
+	if (!citation) {
+		return (
+			<a
+				className={cn(
+					"wrap-anywhere font-medium text-primary underline",
+					className,
+				)}
+				data-streamdown="link"
+				href={href}
+				rel="noreferrer"
+				target="_blank"
+				{...props}
+			>
+				{children}
+			</a>
+		);
+	}
+
+	// Playing a citation steps through the answer's sources in order
+	const play = (event: MouseEvent<HTMLAnchorElement>) =>
+		playClip(
+			event,
+			citations.map((source) => ({
+				videoId: source.videoId,
+				title: source.title,
+				channel: source.channel,
+				startTime: source.startTime,
+				endTime: source.endTime,
+				chunkIds: source.chunkIds,
+			})),
+			citation.number - 1,
+		);
+
+	const quote =
+		citation.content.length > MAX_QUOTE_CHARS
+			? `${citation.content.slice(0, MAX_QUOTE_CHARS)}…`
+			: citation.content;
+
+	return (
+		<InlineCitation>
+			<InlineCitationCard>
+				<HoverCardTrigger asChild>
+					<a
+						aria-label={`Source ${citation.number}: ${citation.title} at ${formatTimestamp(citation.startTime)}`}
+						className={cn(
+							badgeVariants({ variant: "secondary" }),
+							"ml-0.5 px-1.5 py-0 align-super text-[10px] no-underline",
+						)}
+						data-testid="citation"
+						href={citation.url}
+						rel="noreferrer"
+						target="_blank"
+					>
+						{citation.number}
+					</a>
+				</HoverCardTrigger>
+				<InlineCitationCardBody>
+					<div className="space-y-2 p-4">
+						<InlineCitationSource
+							description={citation.channel}
+							title={citation.title}
+						/>
+						<InlineCitationQuote>{quote}</InlineCitationQuote>
+						<a
+							className="block truncate text-primary text-xs underline"
+							href={citation.url}
+							onClick={play}
+							rel="noreferrer"
+							target="_blank"
+						>
+							Watch from {formatTimestamp(citation.startTime)} · {citation.url}
+						</a>
+					</div>
+				</InlineCitationCardBody>
+			</InlineCitationCard>
+		</InlineCitation>
+	);
+}
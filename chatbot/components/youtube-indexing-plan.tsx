@@ -0,0 +1,107 @@
+"use client";
+
+import type { UseChatHelpers } from "@ai-sdk/react";
+import { useState } from "react";
+import type { ChatMessage, ChatTools } from "@/lib/types";
+import { Response } from "./elements/response";
+import { Button } from "./ui/button";
+
+type IndexChannelOutput = ChatTools["indexYouTubeChannel"]["output"];
+
+/**
+ * The indexing plan the channel tool returns before it starts any work.
+ * Proceed and Cancel answer it as the user would in the chat, so the model
+ * calls the tool again with the decision.
+ */
+export function YouTubeIndexingPlan({
+	output,
+	isReadonly,
+	sendMessage,
+}: {
+	output: IndexChannelOutput;
+	isReadonly: boolean;
+	sendMessage: UseChatHelpers<ChatMessage>["sendMessage"];
+}) {
+	const [decision, setDecision] = useState<"proceed" | "cancel" | null>(null);
+
+	if (!output.requiresConfirmation) {
+		return <Response>{output.message}</Response>;
+	}
+	const {
+		channelName,
+		channelUrl,
+		totalVideos = 0,
+		videosToIndex = 0,
+		estimatedTime,
+	} = output;
+
+	const decide = (choice: "proceed" | "cancel") => {
+		setDecision(choice);
+		sendMessage({
+			role: "user",
+			parts: [
+				{
+					type: "text",
+					text:
+						choice === "proceed"
+							? `Yes, proceed with indexing ${videosToIndex} videos from ${channelName}.`
+							: `No, cancel indexing ${channelName}.`,
+				},
+			],
+		});
+	};
+
+	return (
+		<div
+			className="flex flex-col gap-3 p-2"
+			data-testid="youtube-indexing-plan"
+		>
+			<div>
+				<div className="font-medium text-sm">{channelName}</div>
+				<a
+					className="text-muted-foreground hover:underline"
+					href={channelUrl}
+					rel="noreferrer"
+					target="_blank"
+				>
+					{channelUrl}
+				</a>
+			</div>
+
+			<dl className="grid grid-cols-3 gap-2">
+				{[
+					["Available", totalVideos.toLocaleString()],
+					["To index", videosToIndex.toLocaleString()],
+					["Estimated time", estimatedTime],
+				].map(([label, value]) => (
+					<div className="rounded-md border bg-background p-2" key={label}>
+						<dt className="text-muted-foreground">{label}</dt>
+						<dd className="font-medium text-sm">{value}</dd>
+					</div>
+				))}
+			</dl>
+
+			{!isReadonly && (
+				<div className="flex gap-2">
+					<Button
+						data-testid="indexing-proceed"
+						disabled={decision !== null}
+						onClick={() => decide("proceed")}
+						size="sm"
+					>
+						{decision === "proceed" ? "Proceeding…" : "Proceed"}
+					</Button>
+					<Button
+						data-testid="indexing-cancel"
+						disabled={decision !== null}
+						onClick={() => decide("cancel")}
+						size="sm"
+						variant="outline"
+					>
+						{decision === "cancel" ? "Cancelled" : "Cancel"}
+					</Button>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import type {
+	ChannelIndexingProgress,
+	VideoIndexingProgress,
+} from "@workspace/youtube-indexer";
+import { useEffect, useRef } from "react";
+import { toast } from "sonner";
+import useSWR from "swr";
+import { cn, fetcher } from "@/lib/utils";
+import { CheckCircleFillIcon, LoaderIcon, WarningIcon } from "./icons";
+import { Progress } from "./ui/progress";
+
+const POLL_INTERVAL_MS = 3000;
+
+const STATUS_LABELS: Record<ChannelIndexingProgress["status"], string> = {
+	listing: "Listing the channel's videos…",
+	indexing: "Indexing videos…",
+	completed: "Indexing complete",
+	failed: "Indexing failed",
+};
+
+const VIDEO_STATUS_LABELS: Record<VideoIndexingProgress["status"], string> = {
+	queued: "Queued",
+	running: "Indexing",
+	retrying: "Retrying",
+	indexed: "Indexed",
+	skipped: "Skipped",
+	failed: "Failed",
+};
+
+function isFinished(progress: ChannelIndexingProgress | undefined) {
+	return progress?.status === "completed" || progress?.status === "failed";
+}
+
+function VideoStatusIcon({
+	status,
+}: {
+	status: VideoIndexingProgress["status"];
+}) {
+	if (status === "indexed") {
+		return (
+			<span className="text-green-600 dark:text-green-500">
+				<CheckCircleFillIcon size={14} />
+			</span>
+		);
+	}
+	if (status === "running") {
+		return (
+			<span className="animate-spin text-muted-foreground">
+				<LoaderIcon size={14} />
+			</span>
+		);
+	}
+	if (status === "queued") {
+		return <span className="size-3.5 rounded-full border-2 border-muted" />;
+	}
+	return (
+		<span
+			className={cn(status === "failed" ? "text-red-500" : "text-yellow-600")}
+		>
+			<WarningIcon size={14} />
+		</span>
+	);
+}
+
+function summarize({
+	processedVideos,
+	indexedVideos,
+}: ChannelIndexingProgress) {
+	const notIndexed = processedVideos - indexedVideos;
+	return notIndexed > 0
+		? `${indexedVideos} of ${processedVideos} videos indexed, ${notIndexed} could not be indexed.`
+		: `${indexedVideos} videos indexed.`;
+}
+
+/**
+ * Live progress of a queued channel, video or playlist indexing job, polled
+ * until the job finishes. Watching a job finish also raises a toast, so the user notices
+ * even when the card has scrolled out of view.
+ */
+export function YouTubeIndexingProgress({ jobId }: { jobId: string }) {
+	const { data: progress, error } = useSWR<ChannelIndexingProgress>(
+		`/api/youtube/indexing?jobId=${jobId}`,
+		fetcher,
+		{
+			refreshInterval: (latest) => (isFinished(latest) ? 0 : POLL_INTERVAL_MS),
+		},
+	);
+
+	// Only a job seen running here announces its end, not one loaded finished
+	const wasRunning = useRef(false);
+	useEffect(() => {
+		if (!progress) {
+			return;
+		}
+		if (!isFinished(progress)) {
+			wasRunning.current = true;
+			return;
+		}
+		if (wasRunning.current) {
+			wasRunning.current = false;
+			if (progress.status === "completed") {
+				toast.success(
+					`Finished indexing ${progress.channelName}. ${summarize(progress)}`,
+				);
+			} else {
+				toast.error(`Indexing ${progress.channelName} failed.`);
+			}
+		}
+	}, [progress]);
+
+	if (error) {
+		return (
+			<div className="p-2 text-muted-foreground">
+				Could not load indexing progress: {error.message}
+			</div>
+		);
+	}
+
+	if (!progress) {
+		return (
+			<div className="flex flex-col gap-2 p-2">
+				<div className="h-4 w-40 animate-pulse rounded-md bg-muted-foreground/20" />
+				<Progress className="h-2" value={0} />
+			</div>
+		);
+	}
+
+	return (
+		<div
+			className="flex flex-col gap-3 p-2"
+			data-testid="youtube-indexing-progress"
+		>
+			<div className="flex items-baseline justify-between gap-2">
+				<div className="min-w-0">
+					<div className="truncate font-medium text-sm">
+						{progress.channelName}
+					</div>
+					<div className="text-muted-foreground">
+						{STATUS_LABELS[progress.status]}
+						{progress.status === "listing" && progress.error
+							? ` Retrying after: ${progress.error}`
+							: ""}
+					</div>
+				</div>
+				{progress.totalVideos > 0 && (
+					<div className="shrink-0 text-muted-foreground">
+						{progress.processedVideos} of {progress.totalVideos} videos
+					</div>
+				)}
+			</div>
+
+			<Progress
+				aria-label={`Indexing ${progress.channelName}`}
+				className="h-2"
+				value={progress.progress}
+			/>
+
+			{progress.videos.length > 0 && (
+				<ul className="flex flex-col gap-1">
+					{progress.videos.map((video) => (
+						<li className="flex items-start gap-2" key={video.videoId}>
+							<span className="mt-0.5 flex size-3.5 shrink-0 items-center justify-center">
+								<VideoStatusIcon status={video.status} />
+							</span>
+							<div className="min-w-0 flex-1">
+								<div className="truncate">{video.title}</div>
+								{video.error && (
+									<div className="truncate text-muted-foreground text-xs">
+										{video.error}
+									</div>
+								)}
+							</div>
+							<span className="shrink-0 text-muted-foreground text-xs">
+								{VIDEO_STATUS_LABELS[video.status]}
+							</span>
+						</li>
+					))}
+				</ul>
+			)}
+			{progress.videos.length < progress.totalVideos && (
+				<div className="text-muted-foreground text-xs">
+					Showing the {progress.videos.length} most recently updated videos.
+				</div>
+			)}
+
+			{progress.status === "completed" && (
+				<div className="rounded-md border bg-background p-2 text-sm">
+					{progress.channelName} is ready to search. {summarize(progress)}
+				</div>
+			)}
+			{progress.status === "failed" && (
+				<div
+					className="rounded-md border border-red-500/50 bg-background p-2 text-red-500 text-sm"
+					role="alert"
+				>
+					{progress.error ?? "The channel's videos could not be listed."}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,41 @@
+import { Badge } from "./ui/badge";
+
+export type KeywordChip = {
+	word: string;
+	entity?: string;
+	count?: number;
+};
+
+export function KeywordChips({
+	keywords,
+	limit = 12,
+}: {
+	keywords: KeywordChip[];
+	limit?: number;
+}) {
+	if (keywords.length === 0) {
+		return null;
+	}
+
+	return (
+		<div className="flex flex-wrap gap-1" data-testid="keyword-chips">
+			{keywords.slice(0, limit).map(({ word, entity, count }) => (
+				<Badge
+					className="font-normal"
+					key={`${entity ?? ""}:${word}`}
+					title={[entity, count ? `${count}×` : undefined]
+						.filter(Boolean)
+						.join(" · ")}
+					variant="secondary"
+				>
+					{word}
+				</Badge>
+			))}
+			{keywords.length > limit && (
+				<Badge className="font-normal" variant="outline">
+					+{keywords.length - limit}
+				</Badge>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,292 @@
+"use client";
+
+import { ChevronLeftIcon, ChevronRightIcon } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import useSWR from "swr";
+import { useArtifact } from "@/hooks/use-artifact";
+import { cn, fetcher } from "@/lib/utils";
+import {
+	formatTimestamp,
+	type PlayerClip,
+	parsePlayerContent,
+	type VideoTranscript,
+} from "@/lib/youtube";
+import { Button } from "./ui/button";
+
+// The parts of the YouTube IFrame Player API the panel uses
+type YouTubeIframePlayer = {
+	seekTo: (seconds: number, allowSeekAhead: boolean) => void;
+	playVideo: () => void;
+	getCurrentTime: () => number;
+	destroy: () => void;
+};
+
+type YouTubeIframeApi = {
+	Player: new (
+		element: HTMLElement,
+		options: {
+			videoId: string;
+			width: string;
+			height: string;
+			playerVars?: Record<string, number>;
+			events?: { onReady?: () => void };
+		},
+	) => YouTubeIframePlayer;
+};
+
+declare global {
+	interface Window {
+		YT?: YouTubeIframeApi;
+		onYouTubeIframeAPIReady?: () => void;
+	}
+}
+
+const IFRAME_API_URL = "https://www.youtube.com/iframe_api";
+const TIME_POLL_MS = 500;
+
+let iframeApi: Promise<YouTubeIframeApi> | undefined;
+
+// Loads the API script once; it calls a global hook when ready
+function loadIframeApi() {
+	iframeApi ??= new Promise((resolve, reject) => {
+		if (window.YT?.Player) {
+			resolve(window.YT);
+			return;
+		}
+		const previous = window.onYouTubeIframeAPIReady;
+		window.onYouTubeIframeAPIReady = () => {
+			previous?.();
+			if (window.YT) {
+				resolve(window.YT);
+			}
+		};
+		const script = document.createElement("script");
+		script.src = IFRAME_API_URL;
+		script.onerror = () => {
+			iframeApi = undefined;
+			reject(new Error("Could not load the YouTube player"));
+		};
+		document.head.appendChild(script);
+	});
+	return iframeApi;
+}
+
+// The chunk being spoken: chunks overlap, so the last one that has started
+function findPlayingChunk(
+	chunks: VideoTranscript["chunks"],
+	currentTime: number,
+) {
+	let playing: VideoTranscript["chunks"][number] | undefined;
+	for (const chunk of chunks) {
+		if (chunk.startTime > currentTime) {
+			break;
+		}
+		if (currentTime < chunk.endTime) {
+			playing = chunk;
+		}
+	}
+	return playing;
+}
+
+function ClipPlayer({ clips, index }: { clips: PlayerClip[]; index: number }) {
+	const clip = clips[index];
+	const { setArtifact } = useArtifact();
+	const hostRef = useRef<HTMLDivElement>(null);
+	const chunkRefs = useRef(new Map<string, HTMLButtonElement>());
+	const [player, setPlayer] = useState<YouTubeIframePlayer | null>(null);
+	const [playerError, setPlayerError] = useState<string | null>(null);
+	const [currentTime, setCurrentTime] = useState(clip.startTime);
+
+	const { data: transcript, error: transcriptError } = useSWR<VideoTranscript>(
+		`/api/youtube/transcript?videoId=${encodeURIComponent(clip.videoId)}`,
+		fetcher,
+	);
+
+	// One embedded player per video; clips of the same video only seek
+	useEffect(() => {
+		const host = hostRef.current;
+		if (!host) {
+			return;
+		}
+		let created: YouTubeIframePlayer | undefined;
+		let cancelled = false;
+
+		loadIframeApi()
+			.then((api) => {
+				if (cancelled) {
+					return;
+				}
+				// The API swaps the element for its iframe, so React must not own it
+				const element = document.createElement("div");
+				host.appendChild(element);
+				created = new api.Player(element, {
+					videoId: clip.videoId,
+					width: "100%",
+					height: "100%",
+					playerVars: { playsinline: 1, rel: 0 },
+					events: {
+						onReady: () => {
+							if (!cancelled) {
+								setPlayer(created ?? null);
+							}
+						},
+					},
+				});
+			})
+			.catch((error: Error) => setPlayerError(error.message));
+
+		return () => {
+			cancelled = true;
+			setPlayer(null);
+			created?.destroy();
+			host.replaceChildren();
+		};
+	}, [clip.videoId]);
+
+	useEffect(() => {
+		if (!player) {
+			return;
+		}
+		player.seekTo(clip.startTime, true);
+		player.playVideo();
+		setCurrentTime(clip.startTime);
+	}, [player, clip.startTime]);
+
+	useEffect(() => {
+		if (!player) {
+			return;
+		}
+		const interval = setInterval(
+			() => setCurrentTime(player.getCurrentTime()),
+			TIME_POLL_MS,
+		);
+		return () => clearInterval(interval);
+	}, [player]);
+
+	const chunks = transcript?.chunks ?? [];
+	const playingChunk = findPlayingChunk(chunks, currentTime);
+	const focusedChunkId = playingChunk?.id ?? clip.chunkIds[0];
+
+	useEffect(() => {
+		if (focusedChunkId) {
+			chunkRefs.current
+				.get(focusedChunkId)
+				?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+		}
+	}, [focusedChunkId]);
+
+	const showClip = (nextIndex: number) => {
+		setArtifact((currentArtifact) => ({
+			...currentArtifact,
+			title: clips[nextIndex].title,
+			content: JSON.stringify({ clips, index: nextIndex }),
+		}));
+	};
+
+	return (
+		<div className="flex h-full flex-col" data-testid="youtube-player">
+			<div className="aspect-video w-full shrink-0 bg-black">
+				{playerError ? (
+					<div className="flex size-full items-center justify-center text-sm text-white">
+						{playerError}
+					</div>
+				) : (
+					<div className="size-full" ref={hostRef} />
+				)}
+			</div>
+
+			<div className="flex items-center gap-2 border-b p-2">
+				<Button
+					aria-label="Previous clip"
+					disabled={index === 0}
+					onClick={() => showClip(index - 1)}
+					size="icon"
+					variant="ghost"
+				>
+					<ChevronLeftIcon />
+				</Button>
+				<div className="min-w-0 flex-1 text-center">
+					<div className="truncate font-medium text-sm">{clip.title}</div>
+					<div className="text-muted-foreground text-xs">
+						{[
+							clip.channel,
+							`${formatTimestamp(clip.startTime)}–${formatTimestamp(clip.endTime)}`,
+							`clip ${index + 1} of ${clips.length}`,
+						]
+							.filter(Boolean)
+							.join(" · ")}
+					</div>
+				</div>
+				<Button
+					aria-label="Next clip"
+					disabled={index === clips.length - 1}
+					onClick={() => showClip(index + 1)}
+					size="icon"
+					variant="ghost"
+				>
+					<ChevronRightIcon />
+				</Button>
+			</div>
+
+			<div className="flex-1 overflow-y-auto p-2">
+				{transcriptError ? (
+					<div className="p-2 text-muted-foreground text-sm">
+						{transcriptError.message}
+					</div>
+				) : transcript ? (
+					chunks.map((chunk) => (
+						<button
+							className={cn(
+								"flex w-full gap-3 rounded-md border-l-2 border-transparent p-2 text-left text-sm hover:bg-muted",
+								{
+									"border-primary bg-primary/10": clip.chunkIds.includes(
+										chunk.id,
+									),
+									"font-medium": chunk.id === playingChunk?.id,
+								},
+							)}
+							key={chunk.id}
+							onClick={() => player?.seekTo(chunk.startTime, true)}
+							ref={(element) => {
+								if (element) {
+									chunkRefs.current.set(chunk.id, element);
+								} else {
+									chunkRefs.current.delete(chunk.id);
+								}
+							}}
+							type="button"
+						>
+							<span className="shrink-0 font-mono text-muted-foreground">
+								{formatTimestamp(chunk.startTime)}
+							</span>
+							<span>{chunk.text}</span>
+						</button>
+					))
+				) : (
+					<div className="space-y-2 p-2">
+						{[0, 1, 2].map((line) => (
+							<div
+								className="h-4 animate-pulse rounded-md bg-muted-foreground/20"
+								key={line}
+							/>
+						))}
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
+
+export function YouTubePlayer({ content }: { content: string }) {
+	const player = parsePlayerContent(content);
+
+	if (!player) {
+		return (
+			<div className="p-4 text-muted-foreground text-sm">
+				There is no clip to play.
+			</div>
+		);
+	}
+
+	return <ClipPlayer clips={player.clips} index={player.index} />;
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { ScrollTextIcon } from "lucide-react";
+import Image from "next/image";
+import { useTranscriptViewer } from "@/hooks/use-transcript-viewer";
+import { useYouTubePlayer } from "@/hooks/use-youtube-player";
+import type { ChatTools } from "@/lib/types";
+import {
+	formatTimestamp,
+	type PlayerClip,
+	youtubeThumbnailUrl,
+	youtubeWatchUrl,
+} from "@/lib/youtube";
+import { Response } from "./elements/response";
+import { Button } from "./ui/button";
+import { KeywordChips } from "./youtube-keyword-chips";
+
+type SearchOutput = ChatTools["searchYouTubeContent"]["output"];
+type SearchResult = SearchOutput["results"][number];
+
+export function YouTubeSearchResults({ output }: { output: SearchOutput }) {
+	const playClip = useYouTubePlayer();
+	const openTranscript = useTranscriptViewer();
+
+	if (!output.query) {
+		return <Response>{output.message}</Response>;
+	}
+
+	// The player steps through the clips in ranked order
+	const playerClips: PlayerClip[] = output.results.map((result) => ({
+		videoId: result.video.videoId,
+		title: result.video.title,
+		channel: result.channel,
+		startTime: result.startTime,
+		endTime: result.endTime,
+		chunkIds: result.chunkIds,
+	}));
+
+	// Clips arrive best first; each video is listed where its best clip ranks
+	const byVideo = new Map<string, SearchResult[]>();
+	for (const result of output.results) {
+		byVideo.set(result.video.videoId, [
+			...(byVideo.get(result.video.videoId) ?? []),
+			result,
+		]);
+	}
+
+	return (
+		<div className="flex flex-col gap-3 p-2" data-testid="youtube-results">
+			<div className="text-muted-foreground">
+				{output.totalResults} clips from {byVideo.size} videos for "
+				{output.query}"{output.filters ? ` · ${output.filters}` : ""}
+			</div>
+
+			{[...byVideo.values()].map((clips) => {
+				const { video, channel } = clips[0];
+				return (
+					<div
+						className="flex flex-col gap-3 rounded-lg border bg-background p-3 sm:flex-row"
+						key={video.videoId}
+					>
+						<a
+							className="shrink-0"
+							href={youtubeWatchUrl(video.videoId, clips[0].startTime)}
+							onClick={(event) =>
+								playClip(event, playerClips, output.results.indexOf(clips[0]))
+							}
+							rel="noreferrer"
+							target="_blank"
+						>
+							<Image
+								alt={video.title}
+								className="aspect-video w-full rounded-md object-cover sm:w-40"
+								height={90}
+								src={video.thumbnailUrl ?? youtubeThumbnailUrl(video.videoId)}
+								width={160}
+							/>
+						</a>
+
+						<div className="flex min-w-0 flex-1 flex-col gap-2">
+							<div className="flex items-start gap-2">
+								<div className="min-w-0 flex-1">
+									<div className="truncate font-medium text-sm">
+										{video.title}
+									</div>
+									<div className="text-muted-foreground">
+										{[
+											channel,
+											video.publishedAt,
+											video.duration,
+											video.viewCount ? `${video.viewCount} views` : undefined,
+										]
+											.filter(Boolean)
+											.join(" · ")}
+									</div>
+								</div>
+								<Button
+									className="shrink-0"
+									onClick={(event) =>
+										openTranscript(event, video.title, {
+											videoId: video.videoId,
+											chunkId: clips[0].chunkIds[0],
+										})
+									}
+									size="sm"
+									variant="ghost"
+								>
+									<ScrollTextIcon />
+									Transcript
+								</Button>
+							</div>
+
+							{clips.map((clip) => (
+								<div
+									className="flex flex-col gap-1"
+									key={`${clip.rank}-${clip.startTime}`}
+								>
+									<div className="flex items-center gap-2">
+										<a
+											className="shrink-0 rounded bg-muted px-1.5 py-0.5 font-mono text-blue-600 hover:underline dark:text-blue-400"
+											href={youtubeWatchUrl(video.videoId, clip.startTime)}
+											onClick={(event) =>
+												playClip(
+													event,
+													playerClips,
+													output.results.indexOf(clip),
+												)
+											}
+											rel="noreferrer"
+											target="_blank"
+										>
+											{formatTimestamp(clip.startTime)}–
+											{formatTimestamp(clip.endTime)}
+										</a>
+										<div
+											aria-hidden="true"
+											className="h-1.5 flex-1 overflow-hidden rounded-full bg-muted"
+										>
+											<div
+												className="h-full rounded-full bg-primary"
+												style={{ width: `${clip.relevanceScore}%` }}
+											/>
+										</div>
+										<span className="w-9 shrink-0 text-right text-muted-foreground">
+											{clip.relevanceScore}%
+										</span>
+									</div>
+									<p className="line-clamp-3 text-muted-foreground">
+										{clip.content}
+									</p>
+									<KeywordChips
+										keywords={clip.matchedKeywords.map((word) => ({ word }))}
+										limit={5}
+									/>
+								</div>
+							))}
+						</div>
+					</div>
+				);
+			})}
+		</div>
+	);
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { ScrollTextIcon } from "lucide-react";
+import Image from "next/image";
+import { useTranscriptViewer } from "@/hooks/use-transcript-viewer";
+import type { ChatTools } from "@/lib/types";
+import { youtubeThumbnailUrl, youtubeWatchUrl } from "@/lib/youtube";
+import { Response } from "./elements/response";
+import { Button } from "./ui/button";
+import { KeywordChips } from "./youtube-keyword-chips";
+
+type TranscriptOutput = ChatTools["fetchYouTubeTranscript"]["output"];
+
+const ENTITY_LABELS: Record<string, string> = {
+	PER: "People",
+	ORG: "Organisations",
+	LOC: "Places",
+	MISC: "Other names",
+	TOPIC: "Topics",
+};
+
+export function YouTubeTranscriptResult({
+	output,
+}: {
+	output: TranscriptOutput;
+}) {
+	const openTranscript = useTranscriptViewer();
+
+	if (!output.groupedKeywords) {
+		return <Response>{output.message}</Response>;
+	}
+
+	const title = output.videoTitle;
+	const author = output.videoAuthor;
+
+	return (
+		<div className="flex flex-col gap-3 p-2" data-testid="youtube-transcript">
+			<a
+				className="flex items-center gap-3"
+				href={youtubeWatchUrl(output.videoId)}
+				rel="noreferrer"
+				target="_blank"
+			>
+				<Image
+					alt={title ?? output.videoId}
+					className="aspect-video w-28 shrink-0 rounded-md object-cover"
+					height={63}
+					src={youtubeThumbnailUrl(output.videoId)}
+					width={112}
+				/>
+				<div className="min-w-0">
+					<div className="truncate font-medium text-sm">
+						{title ?? output.videoId}
+					</div>
+					<div className="text-muted-foreground">
+						{[author, `${output.transcriptLength.toLocaleString()} characters`]
+							.filter(Boolean)
+							.join(" · ")}
+					</div>
+				</div>
+			</a>
+
+			<Button
+				className="w-fit"
+				onClick={(event) =>
+					openTranscript(event, title ?? output.videoId, {
+						videoId: output.videoId,
+					})
+				}
+				size="sm"
+				variant="outline"
+			>
+				<ScrollTextIcon />
+				Read transcript
+			</Button>
+
+			{Object.entries(output.groupedKeywords).map(([entity, keywords]) => (
+				<div className="flex flex-col gap-1" key={entity}>
+					<div className="font-medium text-muted-foreground">
+						{ENTITY_LABELS[entity] ?? entity}
+					</div>
+					<KeywordChips keywords={keywords} />
+				</div>
+			))}
+		</div>
+	);
+}
@@ -0,0 +1,346 @@
+"use client";
+
+import { escapeRegex } from "@workspace/youtube-indexer/regex";
+import { ChevronDownIcon, ChevronUpIcon, QuoteIcon } from "lucide-react";
+import {
+	type Dispatch,
+	type ReactNode,
+	type SetStateAction,
+	useEffect,
+	useRef,
+	useState,
+} from "react";
+import { toast } from "sonner";
+import useSWR from "swr";
+import { useYouTubePlayer } from "@/hooks/use-youtube-player";
+import { cn, fetcher } from "@/lib/utils";
+import {
+	formatTimestamp,
+	parseTranscriptViewerContent,
+	type TranscriptViewerContent,
+	type VideoTranscript,
+	youtubeWatchUrl,
+} from "@/lib/youtube";
+import { CopyIcon } from "./icons";
+import { badgeVariants } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+
+type Segment = VideoTranscript["chunks"][number];
+
+const MAX_KEYWORD_CHIPS = 15;
+
+/**
+ * Splits text around the search query and the segment's keywords so both
+ * can be highlighted. Matches are case-insensitive; longer terms win.
+ */
+function highlightText(text: string, query: string, keywords: string[]) {
+	const terms = [...new Set([query, ...keywords].map((term) => term.trim()))]
+		.filter(Boolean)
+		.sort((a, b) => b.length - a.length);
+	if (terms.length === 0) {
+		return text;
+	}
+
+	const pattern = new RegExp(`(${terms.map(escapeRegex).join("|")})`, "gi");
+	const nodes: ReactNode[] = [];
+	let offset = 0;
+	for (const [index, part] of text.split(pattern).entries()) {
+		// split keeps the captured matches at odd indexes
+		if (index % 2 === 0) {
+			nodes.push(part);
+		} else if (part.toLowerCase() === query.trim().toLowerCase()) {
+			nodes.push(
+				<mark
+					className="rounded-sm bg-yellow-200 dark:bg-yellow-700"
+					key={offset}
+				>
+					{part}
+				</mark>,
+			);
+		} else {
+			nodes.push(
+				<span
+					className="underline decoration-primary/60 decoration-dotted underline-offset-2"
+					key={offset}
+				>
+					{part}
+				</span>,
+			);
+		}
+		offset += part.length;
+	}
+	return nodes;
+}
+
+function TranscriptViewer({
+	videoId,
+	chunkId,
+	setInput,
+}: TranscriptViewerContent & {
+	setInput: Dispatch<SetStateAction<string>>;
+}) {
+	const playClip = useYouTubePlayer();
+	const segmentRefs = useRef(new Map<string, HTMLDivElement>());
+	const [query, setQuery] = useState("");
+	const [matchIndex, setMatchIndex] = useState(0);
+
+	const { data: transcript, error } = useSWR<VideoTranscript>(
+		`/api/youtube/transcript?videoId=${encodeURIComponent(videoId)}`,
+		fetcher,
+	);
+
+	const normalizedQuery = query.trim().toLowerCase();
+	const matches = normalizedQuery
+		? (transcript?.chunks ?? []).filter(({ text }) =>
+				text.toLowerCase().includes(normalizedQuery),
+			)
+		: [];
+	const activeMatchId = matches[matchIndex]?.id;
+
+	useEffect(() => {
+		if (transcript && chunkId) {
+			segmentRefs.current.get(chunkId)?.scrollIntoView({ block: "center" });
+		}
+	}, [transcript, chunkId]);
+
+	useEffect(() => {
+		if (activeMatchId) {
+			segmentRefs.current
+				.get(activeMatchId)
+				?.scrollIntoView({ block: "center", behavior: "smooth" });
+		}
+	}, [activeMatchId]);
+
+	if (error) {
+		return (
+			<div className="p-4 text-muted-foreground text-sm">{error.message}</div>
+		);
+	}
+
+	if (!transcript) {
+		return (
+			<div className="space-y-2 p-4">
+				{[0, 1, 2, 3].map((line) => (
+					<div
+						className="h-4 animate-pulse rounded-md bg-muted-foreground/20"
+						key={line}
+					/>
+				))}
+			</div>
+		);
+	}
+
+	const { video } = transcript;
+
+	const search = (text: string) => {
+		setQuery(text);
+		setMatchIndex(0);
+	};
+
+	const stepMatch = (step: number) => {
+		if (matches.length > 0) {
+			setMatchIndex(
+				(current) => (current + step + matches.length) % matches.length,
+			);
+		}
+	};
+
+	// "— Title, 1:15 (link)", so a copied or quoted segment keeps its source
+	const sourceLine = (segment: Segment) =>
+		`— ${video.title}, ${formatTimestamp(segment.startTime)} (${youtubeWatchUrl(video.videoId, segment.startTime)})`;
+
+	const copySegment = (segment: Segment) => {
+		navigator.clipboard.writeText(`${segment.text}\n${sourceLine(segment)}`);
+		toast.success("Copied to clipboard!");
+	};
+
+	const quoteSegment = (segment: Segment) => {
+		const quote = `> ${segment.text}\n>\n> ${sourceLine(segment)}\n\n`;
+		setInput((current) =>
+			current.trim() ? `${current.trimEnd()}\n\n${quote}` : quote,
+		);
+		toast.success("Quoted in your message");
+	};
+
+	return (
+		<div
+			className="flex h-full flex-col"
+			data-testid="youtube-transcript-viewer"
+		>
+			<div className="flex shrink-0 flex-col gap-2 border-b p-3">
+				<div className="text-muted-foreground text-sm">
+					{[
+						video.channelName,
+						video.duration ? formatTimestamp(video.duration) : undefined,
+						`${transcript.chunks.length} segments`,
+					]
+						.filter(Boolean)
+						.join(" · ")}
+				</div>
+
+				<div className="flex items-center gap-1">
+					<Input
+						aria-label="Search transcript"
+						onChange={(event) => search(event.target.value)}
+						onKeyDown={(event) => {
+							if (event.key === "Enter") {
+								event.preventDefault();
+								stepMatch(event.shiftKey ? -1 : 1);
+							}
+						}}
+						placeholder="Search transcript"
+						value={query}
+					/>
+					<span className="w-20 shrink-0 text-center text-muted-foreground text-xs">
+						{normalizedQuery
+							? `${matches.length > 0 ? matchIndex + 1 : 0} of ${matches.length}`
+							: ""}
+					</span>
+					<Button
+						aria-label="Previous match"
+						disabled={matches.length === 0}
+						onClick={() => stepMatch(-1)}
+						size="icon"
+						variant="ghost"
+					>
+						<ChevronUpIcon />
+					</Button>
+					<Button
+						aria-label="Next match"
+						disabled={matches.length === 0}
+						onClick={() => stepMatch(1)}
+						size="icon"
+						variant="ghost"
+					>
+						<ChevronDownIcon />
+					</Button>
+				</div>
+
+				{transcript.keywords.length > 0 && (
+					<div className="flex flex-wrap gap-1">
+						{transcript.keywords.slice(0, MAX_KEYWORD_CHIPS).map((keyword) => (
+							<button
+								className={cn(
+									badgeVariants({
+										variant:
+											keyword.word.toLowerCase() === normalizedQuery
+												? "default"
+												: "secondary",
+									}),
+									"font-normal",
+								)}
+								key={`${keyword.entity ?? ""}:${keyword.word}`}
+								onClick={() => search(keyword.word)}
+								title={[keyword.entity, `${keyword.count}×`]
+									.filter(Boolean)
+									.join(" · ")}
+								type="button"
+							>
+								{keyword.word}
+							</button>
+						))}
+					</div>
+				)}
+			</div>
+
+			<div className="flex-1 overflow-y-auto p-2">
+				{transcript.chunks.map((segment) => (
+					<div
+						className={cn(
+							"group flex gap-3 rounded-md border-l-2 border-transparent p-2 text-sm",
+							{
+								"border-primary bg-primary/10": segment.id === chunkId,
+								"ring-2 ring-yellow-400": segment.id === activeMatchId,
+							},
+						)}
+						data-testid="transcript-segment"
+						key={segment.id}
+						ref={(element) => {
+							if (element) {
+								segmentRefs.current.set(segment.id, element);
+							} else {
+								segmentRefs.current.delete(segment.id);
+							}
+						}}
+					>
+						<a
+							className="shrink-0 font-mono text-blue-600 hover:underline dark:text-blue-400"
+							href={youtubeWatchUrl(video.videoId, segment.startTime)}
+							onClick={(event) =>
+								playClip(
+									event,
+									[
+										{
+											videoId: video.videoId,
+											title: video.title,
+											channel: video.channelName ?? undefined,
+											startTime: segment.startTime,
+											endTime: segment.endTime,
+											chunkIds: [segment.id],
+										},
+									],
+									0,
+								)
+							}
+							rel="noreferrer"
+							target="_blank"
+						>
+							{formatTimestamp(segment.startTime)}
+						</a>
+						<p className="flex-1">
+							{highlightText(segment.text, query, segment.keywords)}
+						</p>
+						<div className="flex shrink-0 flex-col gap-1 opacity-0 transition-opacity focus-within:opacity-100 group-hover:opacity-100">
+							<Button
+								aria-label="Copy segment"
+								className="size-7"
+								onClick={() => copySegment(segment)}
+								size="icon"
+								variant="ghost"
+							>
+								<CopyIcon size={14} />
+							</Button>
+							<Button
+								aria-label="Quote segment in chat"
+								className="size-7"
+								onClick={() => quoteSegment(segment)}
+								size="icon"
+								variant="ghost"
+							>
+								<QuoteIcon size={14} />
+							</Button>
+						</div>
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
+
+export function YouTubeTranscriptViewer({
+	content,
+	setInput,
+}: {
+	content: string;
+	setInput: Dispatch<SetStateAction<string>>;
+}) {
+	const viewer = parseTranscriptViewerContent(content);
+
+	if (!viewer) {
+		return (
+			<div className="p-4 text-muted-foreground text-sm">
+				There is no transcript to show.
+			</div>
+		);
+	}
+
+	return (
+		<TranscriptViewer
+			chunkId={viewer.chunkId}
+			key={viewer.videoId}
+			setInput={setInput}
+			videoId={viewer.videoId}
+		/>
+	);
+}
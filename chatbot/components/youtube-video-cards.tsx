@@ -0,0 +1,58 @@
+"use client";
+
+import { format } from "date-fns";
+import Image from "next/image";
+import type { ChatTools } from "@/lib/types";
+import { Response } from "./elements/response";
+
+type VideosOutput = ChatTools["fetchYouTubeVideos"]["output"];
+
+export function YouTubeVideoCards({ output }: { output: VideosOutput }) {
+	if (!("videos" in output && output.videos.length > 0)) {
+		return <Response>{output.message}</Response>;
+	}
+
+	return (
+		<div
+			className="grid grid-cols-1 gap-3 p-2 sm:grid-cols-2"
+			data-testid="youtube-videos"
+		>
+			{output.videos.map((video) => {
+				const publishedAt = new Date(video.publishedAt);
+				return (
+					<a
+						className="flex flex-col gap-2 rounded-lg border bg-background p-2 transition-colors hover:bg-muted"
+						href={video.url}
+						key={video.url}
+						rel="noreferrer"
+						target="_blank"
+					>
+						{video.thumbnail && (
+							<Image
+								alt={video.title}
+								className="aspect-video w-full rounded-md object-cover"
+								height={180}
+								src={video.thumbnail}
+								width={320}
+							/>
+						)}
+						<div className="line-clamp-2 font-medium text-sm">
+							{video.title}
+						</div>
+						<div className="text-muted-foreground">
+							{[
+								video.channelTitle,
+								Number.isNaN(publishedAt.getTime())
+									? undefined
+									: format(publishedAt, "MMM d, yyyy"),
+								`${video.viewCount.toLocaleString()} views`,
+							]
+								.filter(Boolean)
+								.join(" · ")}
+						</div>
+					</a>
+				);
+			})}
+		</div>
+	);
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { type MouseEvent, useCallback } from "react";
+import type { TranscriptViewerContent } from "@/lib/youtube";
+import { useArtifact } from "./use-artifact";
+
+export const TRANSCRIPT_DOCUMENT_ID = "youtube-transcript";
+
+/**
+ * Returns a click handler that opens a stored transcript in the artifact
+ * panel. It does nothing while a document is being generated there.
+ */
+export function useTranscriptViewer() {
+	const { artifact, setArtifact } = useArtifact();
+
+	return useCallback(
+		(
+			event: MouseEvent<HTMLElement>,
+			title: string,
+			content: TranscriptViewerContent,
+		) => {
+			if (artifact.status === "streaming") {
+				return;
+			}
+
+			const boundingBox = event.currentTarget.getBoundingClientRect();
+
+			setArtifact({
+				documentId: TRANSCRIPT_DOCUMENT_ID,
+				kind: "transcript",
+				title,
+				content: JSON.stringify(content),
+				status: "idle",
+				isVisible: true,
+				boundingBox: {
+					left: boundingBox.x,
+					top: boundingBox.y,
+					width: boundingBox.width,
+					height: boundingBox.height,
+				},
+			});
+		},
+		[artifact.status, setArtifact],
+	);
+}
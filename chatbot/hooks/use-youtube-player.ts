@@ -0,0 +1,51 @@
+"use client";
+
+import { type MouseEvent, useCallback } from "react";
+import type { PlayerClip } from "@/lib/youtube";
+import { useArtifact } from "./use-artifact";
+
+// The player panel is one artifact, reused by every clip link in the chat
+export const PLAYER_DOCUMENT_ID = "youtube-player";
+
+/**
+ * Returns a click handler for clip links that plays the clip in the artifact
+ * panel instead of leaving for YouTube. Clicks with a modifier key still open
+ * the link, as does any click while a document is being generated.
+ */
+export function useYouTubePlayer() {
+	const { artifact, setArtifact } = useArtifact();
+
+	return useCallback(
+		(event: MouseEvent<HTMLElement>, clips: PlayerClip[], index: number) => {
+			if (
+				event.button !== 0 ||
+				event.metaKey ||
+				event.ctrlKey ||
+				event.shiftKey ||
+				event.altKey ||
+				artifact.status === "streaming"
+			) {
+				return;
+			}
+			event.preventDefault();
+
+			const boundingBox = event.currentTarget.getBoundingClientRect();
+
+			setArtifact({
+				documentId: PLAYER_DOCUMENT_ID,
+				kind: "video",
+				title: clips[index].title,
+				content: JSON.stringify({ clips, index }),
+				status: "idle",
+				isVisible: true,
+				boundingBox: {
+					left: boundingBox.x,
+					top: boundingBox.y,
+					width: boundingBox.width,
+					height: boundingBox.height,
+				},
+			});
+		},
+		[artifact.status, setArtifact],
+	);
+}
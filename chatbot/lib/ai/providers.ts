@@ -1,4 +1,9 @@
 import { openai } from "@ai-sdk/openai";
+import {
+	createEmbeddingProvider,
+	createReranker,
+	HashingEmbeddingProvider,
+} from "@workspace/youtube-indexer";
 import { customProvider } from "ai";
 import { isTestEnvironment } from "../constants";
 
@@ -26,3 +31,15 @@ export const myProvider = isTestEnvironment
 				"artifact-model": openai("gpt-4o"),
 			},
 		});
+
+// Transcript embeddings: deterministic in tests, otherwise chosen by
+// EMBEDDING_PROVIDER / EMBEDDING_MODEL (OpenAI when a key is set, else local)
+export const embeddingProvider = isTestEnvironment
+	? new HashingEmbeddingProvider()
+	: createEmbeddingProvider();
+
+// Search reranking is off unless RERANKER is "cross-encoder" or "llm"; the
+// llm reranker grades passages with the title model
+export const reranker = isTestEnvironment
+	? null
+	: createReranker({ languageModel: myProvider.languageModel("title-model") });
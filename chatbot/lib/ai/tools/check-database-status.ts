@@ -1,112 +1,168 @@
-import {
-	channelIndexStatus,
-	transcriptChunk,
-	youtubeChannel,
-	youtubeVideo,
+import type {
+	EmbeddingProvider,
+	YouTubeStore,
 } from "@workspace/youtube-indexer";
 import { tool } from "ai";
 import { sql } from "drizzle-orm";
 import { z } from "zod";
 import { db } from "@/lib/db/queries";
-
-export const checkDatabaseStatus = tool({
-	description:
-		"Check the status of the YouTube indexing database, including embedding coverage and indexing progress.",
-	inputSchema: z.object({
-		// No input parameters needed
-	}),
-	execute: async () => {
-		try {
-			console.log("🔍 [DB-STATUS] Checking database status...");
-
-			// Check total counts
-			const [totalChannels] = await db
-				.select({ count: sql<number>`count(*)` })
-				.from(youtubeChannel);
-
-			const [totalVideos] = await db
-				.select({ count: sql<number>`count(*)` })
-				.from(youtubeVideo);
-
-			const [totalChunks] = await db
-				.select({ count: sql<number>`count(*)` })
-				.from(transcriptChunk);
-
-			// Check chunks with embeddings
-			const [chunksWithEmbeddings] = await db
-				.select({ count: sql<number>`count(*)` })
-				.from(transcriptChunk)
-				.where(sql`${transcriptChunk.embedding} IS NOT NULL`);
-
-			// Check chunks without embeddings
-			const [chunksWithoutEmbeddings] = await db
-				.select({ count: sql<number>`count(*)` })
-				.from(transcriptChunk)
-				.where(sql`${transcriptChunk.embedding} IS NULL`);
-
-			// Check indexing status
-			const indexStatuses = await db
-				.select()
-				.from(channelIndexStatus)
-				.orderBy(sql`${channelIndexStatus.createdAt} DESC`)
-				.limit(5);
-
-			const embeddingPercentage = totalChunks.count
-				? Math.round((chunksWithEmbeddings.count / totalChunks.count) * 100)
-				: 0;
-
-			const diagnostic = {
-				database: {
-					totalChannels: totalChannels.count,
-					totalVideos: totalVideos.count,
-					totalChunks: totalChunks.count,
-					chunksWithEmbeddings: chunksWithEmbeddings.count,
-					chunksWithoutEmbeddings: chunksWithoutEmbeddings.count,
-					embeddingPercentage,
-				},
-				indexingStatus: indexStatuses.map((status) => ({
-					channelId: status.channelId,
-					status: status.status,
-					progress: status.progress,
-					totalVideos: status.totalVideos,
-					processedVideos: status.processedVideos,
-					totalChunks: status.totalChunks,
-					processedChunks: status.processedChunks,
-					errorMessage: status.errorMessage,
-					startedAt: status.startedAt,
-					completedAt: status.completedAt,
-				})),
-				environment: {
-					openaiApiKey: process.env.OPENAI_API_KEY ? "✅ Set" : "❌ Missing",
-					youtubeApiKey: process.env.YOUTUBE_API_KEY ? "✅ Set" : "❌ Missing",
-					postgresUrl: process.env.POSTGRES_URL ? "✅ Set" : "❌ Missing",
-				},
-				recommendations: [] as string[],
-			};
-
-			// Add recommendations based on findings
-			if (embeddingPercentage < 50) {
-				diagnostic.recommendations.push(
-					"⚠️ Low embedding coverage - consider re-indexing with proper API keys",
-				);
-			}
-			if (chunksWithoutEmbeddings.count > 0) {
-				diagnostic.recommendations.push(
-					"🔄 Some chunks missing embeddings - run embedding regeneration",
-				);
-			}
-			if (!process.env.OPENAI_API_KEY) {
-				diagnostic.recommendations.push(
-					"🔑 Set OPENAI_API_KEY environment variable",
-				);
-			}
-
-			console.log("📊 [DB-STATUS] Database Status:", diagnostic.database);
-			console.log("🔧 [DB-STATUS] Environment:", diagnostic.environment);
-
-			return {
-				success: true,
-				message: `## 📊 Database Status Report
+import {
+	channelIndexStatus,
+	transcriptChunk,
+	youtubeChannel,
+	youtubeVideo,
+} from "@/lib/db/schema";
+
+type CheckDatabaseStatusProps = {
+	store: YouTubeStore;
+	embeddings: EmbeddingProvider;
+};
+
+export const checkDatabaseStatus = ({
+	store,
+	embeddings,
+}: CheckDatabaseStatusProps) =>
+	tool({
+		description:
+			"Check the status of the YouTube indexing database, including embedding coverage and indexing progress.",
+		inputSchema: z.object({
+			// No input parameters needed
+		}),
+		execute: async () => {
+			try {
+				console.log("🔍 [DB-STATUS] Checking database status...");
+
+				// Check total counts
+				const [totalChannels] = await db
+					.select({ count: sql<number>`count(*)` })
+					.from(youtubeChannel);
+
+				const [totalVideos] = await db
+					.select({ count: sql<number>`count(*)` })
+					.from(youtubeVideo);
+
+				const [totalChunks] = await db
+					.select({ count: sql<number>`count(*)` })
+					.from(transcriptChunk);
+
+				// Check chunks with embeddings
+				const [chunksWithEmbeddings] = await db
+					.select({ count: sql<number>`count(*)` })
+					.from(transcriptChunk)
+					.where(sql`${transcriptChunk.embedding} IS NOT NULL`);
+
+				// Check chunks without embeddings
+				const [chunksWithoutEmbeddings] = await db
+					.select({ count: sql<number>`count(*)` })
+					.from(transcriptChunk)
+					.where(sql`${transcriptChunk.embedding} IS NULL`);
+
+				// Check which models produced the stored embeddings
+				const embeddingModels = (await store.chunks.countByEmbeddingModel())
+					.filter(({ model }) => model !== null)
+					.map(({ model, count }) => ({ model: model ?? "", count }));
+				const otherModelChunks = embeddingModels
+					.filter(({ model }) => model !== embeddings.model)
+					.reduce((total, { count }) => total + count, 0);
+
+				// Check indexing status
+				const indexStatuses = await db
+					.select()
+					.from(channelIndexStatus)
+					.orderBy(sql`${channelIndexStatus.createdAt} DESC`)
+					.limit(5);
+
+				// Check the background job queue
+				const jobCounts = await store.jobs.countByStatus();
+				const countJobs = (status: string) =>
+					jobCounts.find((row) => row.status === status)?.count ?? 0;
+				const recentJobs = await store.jobs.findRecent(5);
+
+				const embeddingPercentage = totalChunks.count
+					? Math.round((chunksWithEmbeddings.count / totalChunks.count) * 100)
+					: 0;
+
+				const diagnostic = {
+					database: {
+						totalChannels: totalChannels.count,
+						totalVideos: totalVideos.count,
+						totalChunks: totalChunks.count,
+						chunksWithEmbeddings: chunksWithEmbeddings.count,
+						chunksWithoutEmbeddings: chunksWithoutEmbeddings.count,
+						embeddingPercentage,
+						activeEmbeddingModel: embeddings.model,
+						embeddingModels,
+					},
+					indexingStatus: indexStatuses.map((status) => ({
+						channelId: status.channelId,
+						status: status.status,
+						progress: status.progress,
+						totalVideos: status.totalVideos,
+						processedVideos: status.processedVideos,
+						totalChunks: status.totalChunks,
+						processedChunks: status.processedChunks,
+						errorMessage: status.errorMessage,
+						startedAt: status.startedAt,
+						completedAt: status.completedAt,
+					})),
+					jobs: {
+						queued: countJobs("queued"),
+						running: countJobs("running"),
+						completed: countJobs("completed"),
+						failed: countJobs("failed"),
+						recent: recentJobs.map((job) => ({
+							id: job.id,
+							type: job.type,
+							status: job.status,
+							attempts: job.attempts,
+							lastError: job.lastError,
+							result: job.result,
+							createdAt: job.createdAt,
+						})),
+					},
+					environment: {
+						openaiApiKey: process.env.OPENAI_API_KEY ? "✅ Set" : "❌ Missing",
+						youtubeApiKey: process.env.YOUTUBE_API_KEY
+							? "✅ Set"
+							: "❌ Missing",
+						postgresUrl: process.env.POSTGRES_URL ? "✅ Set" : "❌ Missing",
+					},
+					recommendations: [] as string[],
+				};
+
+				// Add recommendations based on findings
+				if (embeddingPercentage < 50) {
+					diagnostic.recommendations.push(
+						"⚠️ Low embedding coverage - consider re-indexing with proper API keys",
+					);
+				}
+				if (chunksWithoutEmbeddings.count > 0) {
+					diagnostic.recommendations.push(
+						"🔄 Some chunks missing embeddings - run embedding regeneration",
+					);
+				}
+				if (otherModelChunks > 0) {
+					diagnostic.recommendations.push(
+						`🧬 ${otherModelChunks} chunks were embedded by a different model than ${embeddings.model} and are skipped by search - run embedding regeneration`,
+					);
+				}
+				if (diagnostic.jobs.queued > 0 && diagnostic.jobs.running === 0) {
+					diagnostic.recommendations.push(
+						"👷 Jobs are queued but none are running - make sure the indexing worker is running (`bun run worker`)",
+					);
+				}
+				if (!process.env.OPENAI_API_KEY) {
+					diagnostic.recommendations.push(
+						"🔑 Set OPENAI_API_KEY environment variable",
+					);
+				}
+
+				console.log("📊 [DB-STATUS] Database Status:", diagnostic.database);
+				console.log("🔧 [DB-STATUS] Environment:", diagnostic.environment);
+
+				return {
+					success: true,
+					message: `## 📊 Database Status Report
 
 **Database Overview:**
 - **Channels:** ${diagnostic.database.totalChannels}
@@ -115,6 +171,14 @@ export const checkDatabaseStatus = tool({
 - **Chunks with Embeddings:** ${diagnostic.database.chunksWithEmbeddings}
 - **Chunks without Embeddings:** ${diagnostic.database.chunksWithoutEmbeddings}
 - **Embedding Coverage:** ${diagnostic.database.embeddingPercentage}%
+- **Active Embedding Model:** ${embeddings.model} (${embeddings.dimensions} dimensions)
+- **Stored Embedding Models:** ${
+						embeddingModels.length > 0
+							? embeddingModels
+									.map(({ model, count }) => `${model} (${count})`)
+									.join(", ")
+							: "None"
+					}
 
 **Environment:**
 - **OpenAI API Key:** ${diagnostic.environment.openaiApiKey}
@@ -133,26 +197,45 @@ ${
 		: "No indexing activity found"
 }
 
+**Background Jobs:**
+- **Queued:** ${diagnostic.jobs.queued} | **Running:** ${diagnostic.jobs.running} | **Completed:** ${diagnostic.jobs.completed} | **Failed:** ${diagnostic.jobs.failed}
+${diagnostic.jobs.recent
+	.map(
+		(job) =>
+			`- \`${job.type}\` ${job.status} (attempt ${job.attempts})${job.lastError ? ` - ${job.lastError}` : ""}${job.type === "sync_channel" ? describeSyncResult(job.result) : ""}`,
+	)
+	.join("\n")}
+
 **Recommendations:**
 ${
 	diagnostic.recommendations.length > 0
 		? diagnostic.recommendations.map((rec) => `- ${rec}`).join("\n")
 		: "✅ Everything looks good!"
 }`,
-				diagnostic,
-				timestamp: new Date().toISOString(),
-			};
-		} catch (error) {
-			console.error("❌ [DB-STATUS] Error:", error);
-			return {
-				success: false,
-				message: `❌ **Database Status Check Failed**
+					diagnostic,
+					timestamp: new Date().toISOString(),
+				};
+			} catch (error) {
+				console.error("❌ [DB-STATUS] Error:", error);
+				return {
+					success: false,
+					message: `❌ **Database Status Check Failed**
 
 Error: ${error instanceof Error ? error.message : "Unknown error"}
 
 Please check your database connection and try again.`,
-				error: error instanceof Error ? error.message : "Unknown error",
-			};
-		}
-	},
-});
+					error: error instanceof Error ? error.message : "Unknown error",
+				};
+			}
+		},
+	});
+
+function describeSyncResult(result: Record<string, unknown> | null): string {
+	if (!result) {
+		return "";
+	}
+	const newVideos = Array.isArray(result.newVideos)
+		? result.newVideos.length
+		: 0;
+	return ` - ${newVideos} new videos, ${result.updatedCount ?? 0} with refreshed counts`;
+}
@@ -1,90 +1,117 @@
-import { SemanticSearchService } from "@workspace/youtube-indexer";
+import {
+	type EmbeddingProvider,
+	type Reranker,
+	type SearchResult,
+	SemanticSearchService,
+	type YouTubeStore,
+} from "@workspace/youtube-indexer";
 import { tool } from "ai";
 import { z } from "zod";
 
-export const testSearch = tool({
-	description:
-		"Test the search functionality with detailed debugging information to diagnose search issues.",
-	inputSchema: z.object({
-		query: z.string().describe("Search query to test"),
-		channelId: z
-			.string()
-			.optional()
-			.describe("Optional channel ID to limit search"),
-		similarityThreshold: z
-			.number()
-			.min(0)
-			.max(1)
-			.optional()
-			.default(0.5)
-			.describe("Similarity threshold for vector search"),
-	}),
-	execute: async ({ query, channelId, similarityThreshold = 0.5 }) => {
-		try {
-			const openaiApiKey = process.env.OPENAI_API_KEY;
-			if (!openaiApiKey) {
-				return {
-					success: false,
-					message:
-						"❌ **Search Test Failed**\n\nOpenAI API key not configured.",
-				};
-			}
+type TestSearchProps = {
+	store: YouTubeStore;
+	embeddings: EmbeddingProvider;
+	reranker?: Reranker | null;
+};
 
-			console.log(`🧪 [SEARCH-TEST] Testing search for: "${query}"`);
-			console.log(
-				`🧪 [SEARCH-TEST] Similarity threshold: ${similarityThreshold}`,
-			);
+export const testSearch = ({ store, embeddings, reranker }: TestSearchProps) =>
+	tool({
+		description:
+			"Test the search functionality with detailed debugging information to diagnose search issues.",
+		inputSchema: z.object({
+			query: z.string().describe("Search query to test"),
+			channelId: z
+				.string()
+				.optional()
+				.describe("Optional channel ID to limit search"),
+			similarityThreshold: z
+				.number()
+				.min(0)
+				.max(1)
+				.optional()
+				.default(0.5)
+				.describe("Similarity threshold for vector search"),
+			efSearch: z
+				.number()
+				.int()
+				.min(1)
+				.max(1000)
+				.optional()
+				.describe(
+					"Optional HNSW ef_search; raise it when a channel filter misses results",
+				),
+		}),
+		execute: async ({
+			query,
+			channelId,
+			similarityThreshold = 0.5,
+			efSearch,
+		}) => {
+			try {
+				console.log(`🧪 [SEARCH-TEST] Testing search for: "${query}"`);
+				console.log(`🧪 [SEARCH-TEST] Embedding model: ${embeddings.model}`);
+				console.log(
+					`🧪 [SEARCH-TEST] Similarity threshold: ${similarityThreshold}`,
+				);
 
-			const searchService = new SemanticSearchService(openaiApiKey);
+				const searchService = new SemanticSearchService(store, embeddings, {
+					reranker,
+				});
 
-			// Test with different thresholds to see what's happening
-			const thresholds = [0.5, 0.6, 0.7, 0.8, 0.9];
-			const results: any[] = [];
+				// Test with different thresholds to see what's happening
+				const thresholds = [0.5, 0.6, 0.7, 0.8, 0.9];
+				const results: any[] = [];
 
-			for (const threshold of thresholds) {
-				try {
-					const searchResults = await searchService.search(query, {
-						channelId,
-						limit: 5,
-						similarityThreshold: threshold,
-						includeKeywords: true,
-					});
+				for (const threshold of thresholds) {
+					try {
+						const searchResults = await searchService.search(query, {
+							channelId,
+							limit: 5,
+							similarityThreshold: threshold,
+							includeKeywords: true,
+							efSearch,
+						});
 
-					results.push({
-						threshold,
-						count: searchResults.length,
-						results: searchResults.map((r) => ({
-							videoTitle: r.video.title,
-							relevanceScore: r.relevanceScore,
-							startTime: r.startTime,
-							endTime: r.endTime,
-							contentPreview: `${r.chunk.content.substring(0, 100)}...`,
-							matchedKeywords: r.matchedKeywords,
-						})),
-					});
+						results.push({
+							threshold,
+							count: searchResults.length,
+							results: searchResults.map((r) => ({
+								videoTitle: r.video.title,
+								relevanceScore: r.relevanceScore,
+								startTime: r.startTime,
+								endTime: r.endTime,
+								contentPreview: `${r.content.substring(0, 100)}...`,
+								matchedKeywords: r.matchedKeywords,
+								retrieval: r.retrieval,
+								rerank: r.rerank,
+							})),
+						});
 
-					console.log(
-						`🧪 [SEARCH-TEST] Threshold ${threshold}: ${searchResults.length} results`,
-					);
-				} catch (error) {
-					console.error(
-						`❌ [SEARCH-TEST] Threshold ${threshold} failed:`,
-						error,
-					);
-					results.push({
-						threshold,
-						count: 0,
-						error: error instanceof Error ? error.message : "Unknown error",
-					});
+						console.log(
+							`🧪 [SEARCH-TEST] Threshold ${threshold}: ${searchResults.length} results`,
+						);
+					} catch (error) {
+						console.error(
+							`❌ [SEARCH-TEST] Threshold ${threshold} failed:`,
+							error,
+						);
+						results.push({
+							threshold,
+							count: 0,
+							error: error instanceof Error ? error.message : "Unknown error",
+						});
+					}
 				}
-			}
 
-			// Generate a detailed report
-			const report = `## 🧪 Search Test Results
+				// Generate a detailed report
+				const report = `## 🧪 Search Test Results
 
 **Query:** "${query}"
 **Channel ID:** ${channelId || "All channels"}
+**Embedding Model:** ${embeddings.model}
 **Original Threshold:** ${similarityThreshold}
+**HNSW ef_search:** ${efSearch ?? "Default"}
+**Reranker:** ${reranker?.model ?? "None"}
 
 ### Results by Threshold:
 
@@ -101,6 +128,7 @@ ${
 						`${i + 1}. **${result.videoTitle}** (Score: ${result.relevanceScore.toFixed(3)})
    - Time: ${Math.floor(result.startTime / 60)}:${(result.startTime % 60).toString().padStart(2, "0")} - ${Math.floor(result.endTime / 60)}:${(result.endTime % 60).toString().padStart(2, "0")}
    - Keywords: ${result.matchedKeywords.join(", ")}
+   - Matched by: ${describeRetrieval(result.retrieval)}${result.rerank ? `\n   - Reranked: #${result.rerank.retrievalRank} → #${i + 1} (retrieval ${result.rerank.retrievalScore.toFixed(3)}, ${result.rerank.model} ${result.rerank.score.toFixed(3)})` : ""}
    - Preview: "${result.contentPreview}"`,
 				)
 				.join("\n\n")
@@ -116,23 +144,34 @@ ${
 		: "❌ Search is not returning any results. Check database content and embedding generation."
 }`;
 
-			return {
-				success: true,
-				message: report,
-				testResults: results,
-				query,
-				channelId,
-				similarityThreshold,
-			};
-		} catch (error) {
-			console.error("❌ [SEARCH-TEST] Error:", error);
-			return {
-				success: false,
-				message: `❌ **Search Test Failed**
+				return {
+					success: true,
+					message: report,
+					testResults: results,
+					query,
+					channelId,
+					similarityThreshold,
+					efSearch,
+				};
+			} catch (error) {
+				console.error("❌ [SEARCH-TEST] Error:", error);
+				return {
+					success: false,
+					message: `❌ **Search Test Failed**
+
+	Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+					error: error instanceof Error ? error.message : "Unknown error",
+				};
+			}
+		},
+	});
 
-Error: ${error instanceof Error ? error.message : "Unknown error"}`,
-				error: error instanceof Error ? error.message : "Unknown error",
-			};
-		}
-	},
-});
+function describeRetrieval(retrieval: SearchResult["retrieval"]): string {
+	const sources = [
+		retrieval.vectorRank !== null
+			? `vector #${retrieval.vectorRank} (similarity ${retrieval.similarity?.toFixed(3)})`
+			: null,
+		retrieval.textRank !== null ? `full-text #${retrieval.textRank}` : null,
+	].filter(Boolean);
+	return sources.length > 0 ? sources.join(", ") : "entity keywords";
+}
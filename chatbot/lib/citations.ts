@@ -0,0 +1,105 @@
+import type { ChatMessage } from "./types";
+import { youtubeWatchUrl } from "./youtube";
+
+// Markers the model writes after a claim: [cite:CHUNK_ID] or [cite:ID1,ID2]
+const CITATION_MARKER_REGEX = /\[cite:\s*([^\]]*)\]/g;
+// A marker still being streamed at the end of the text
+const PARTIAL_MARKER_REGEX = /\[(?:c(?:i(?:t(?:e(?::[^\]]*)?)?)?)?)?$/;
+const CITATION_FRAGMENT_REGEX = /#citation-(\d+)$/;
+
+export type CitationSource = {
+	number: number;
+	chunkIds: string[]; // every chunk of the cited clip
+	videoId: string;
+	title: string;
+	channel: string;
+	content: string;
+	startTime: number;
+	endTime: number;
+	url: string;
+};
+
+export type MessageCitations = {
+	// Text of each text part with its markers turned into links, by part index
+	texts: Record<number, string>;
+	citations: CitationSource[];
+};
+
+/**
+ * Turns the citation markers in an assistant message into numbered markdown
+ * links. Chunks are looked up in the message's own search results, and
+ * numbered in the order they are first cited. Markers naming a chunk the
+ * search did not return are dropped rather than shown as broken citations.
+ */
+export function linkMessageCitations(message: ChatMessage): MessageCitations {
+	const sources = new Map<string, Omit<CitationSource, "number" | "url">>();
+	for (const part of message.parts) {
+		if (
+			part.type !== "tool-searchYouTubeContent" ||
+			part.state !== "output-available"
+		) {
+			continue;
+		}
+		for (const result of part.output.results) {
+			for (const chunkId of result.chunkIds) {
+				sources.set(chunkId, {
+					chunkIds: result.chunkIds,
+					videoId: result.video.videoId,
+					title: result.video.title,
+					channel: result.channel,
+					content: result.content,
+					startTime: result.startTime,
+					endTime: result.endTime,
+				});
+			}
+		}
+	}
+
+	const citations: CitationSource[] = [];
+	const texts: Record<number, string> = {};
+	for (const [index, part] of message.parts.entries()) {
+		if (part.type !== "text") {
+			continue;
+		}
+		texts[index] = part.text
+			.replace(PARTIAL_MARKER_REGEX, "")
+			.replace(CITATION_MARKER_REGEX, (_marker, ids: string) => {
+				const cited = new Set<CitationSource>();
+				for (const chunkId of ids.split(",").map((id) => id.trim())) {
+					const source = sources.get(chunkId);
+					if (!source) {
+						continue;
+					}
+					// Chunks merged into one clip share its citation
+					let citation = citations.find(
+						(existing) =>
+							existing.videoId === source.videoId &&
+							existing.startTime === source.startTime,
+					);
+					if (!citation) {
+						citation = {
+							...source,
+							number: citations.length + 1,
+							url: youtubeWatchUrl(source.videoId, source.startTime),
+						};
+						citations.push(citation);
+					}
+					cited.add(citation);
+				}
+				return [...cited]
+					.map(({ number, url }) => `[${number}](${url}#citation-${number})`)
+					.join("");
+			});
+	}
+
+	return { texts, citations };
+}
+
+// The citation a rendered link points at, if it is one
+export function findCitation(
+	citations: CitationSource[],
+	href: string | undefined,
+): CitationSource | undefined {
+	const match = href?.match(CITATION_FRAGMENT_REGEX);
+	return match ? citations[Number(match[1]) - 1] : undefined;
+}
@@ -0,0 +1,99 @@
+-- Reconcile the YouTube tables with the canonical schema in
+-- youtube-indexer/src/types/youtube-schema.ts. Databases created by
+-- 0010_medical_paibok hold text embeddings and varchar counters, databases
+-- created by 0008 already match; every statement is safe for both.
+CREATE EXTENSION IF NOT EXISTS vector;
+--> statement-breakpoint
+ALTER TABLE "YouTubeChannel" ALTER COLUMN "channelId" SET DATA TYPE varchar(100);--> statement-breakpoint
+ALTER TABLE "YouTubeChannel" ALTER COLUMN "channelName" SET DATA TYPE varchar(200);--> statement-breakpoint
+ALTER TABLE "YouTubeChannel" ALTER COLUMN "channelUrl" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "YouTubeChannel" ALTER COLUMN "subscriberCount" SET DATA TYPE integer USING NULLIF("subscriberCount"::text, '')::integer;--> statement-breakpoint
+ALTER TABLE "YouTubeChannel" ALTER COLUMN "videoCount" SET DATA TYPE integer USING NULLIF("videoCount"::text, '')::integer;--> statement-breakpoint
+ALTER TABLE "YouTubeChannel" ALTER COLUMN "thumbnailUrl" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "YouTubeChannel" ADD COLUMN IF NOT EXISTS "isIndexed" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "YouTubeChannel" ADD COLUMN IF NOT EXISTS "lastIndexedAt" timestamp;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "YouTubeChannel" ADD CONSTRAINT "YouTubeChannel_channelId_unique" UNIQUE("channelId");
+EXCEPTION
+ WHEN duplicate_object OR duplicate_table THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'YouTubeVideo' AND column_name = 'uploadDate') THEN
+  ALTER TABLE "YouTubeVideo" RENAME COLUMN "uploadDate" TO "publishedAt";
+ END IF;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "YouTubeVideo" ALTER COLUMN "videoId" SET DATA TYPE varchar(20);--> statement-breakpoint
+ALTER TABLE "YouTubeVideo" ALTER COLUMN "duration" SET DATA TYPE integer USING NULLIF("duration"::text, '')::integer;--> statement-breakpoint
+ALTER TABLE "YouTubeVideo" ALTER COLUMN "viewCount" SET DATA TYPE integer USING NULLIF("viewCount"::text, '')::integer;--> statement-breakpoint
+ALTER TABLE "YouTubeVideo" ALTER COLUMN "likeCount" SET DATA TYPE integer USING NULLIF("likeCount"::text, '')::integer;--> statement-breakpoint
+ALTER TABLE "YouTubeVideo" ALTER COLUMN "thumbnailUrl" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "YouTubeVideo" ALTER COLUMN "videoUrl" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "YouTubeVideo" ADD COLUMN IF NOT EXISTS "transcriptLength" integer;--> statement-breakpoint
+ALTER TABLE "YouTubeVideo" ADD COLUMN IF NOT EXISTS "isTranscriptAvailable" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "YouTubeVideo" ADD CONSTRAINT "YouTubeVideo_videoId_unique" UNIQUE("videoId");
+EXCEPTION
+ WHEN duplicate_object OR duplicate_table THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "TranscriptChunk" ADD COLUMN IF NOT EXISTS "chunkIndex" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "TranscriptChunk" ALTER COLUMN "chunkIndex" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "TranscriptChunk" ADD COLUMN IF NOT EXISTS "tokenCount" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "TranscriptChunk" ALTER COLUMN "tokenCount" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "TranscriptChunk" ALTER COLUMN "startTime" SET DATA TYPE integer USING COALESCE(floor(NULLIF("startTime"::text, '')::numeric), 0)::integer;--> statement-breakpoint
+ALTER TABLE "TranscriptChunk" ALTER COLUMN "endTime" SET DATA TYPE integer USING COALESCE(ceil(NULLIF("endTime"::text, '')::numeric), 0)::integer;--> statement-breakpoint
+ALTER TABLE "TranscriptChunk" ALTER COLUMN "embedding" SET DATA TYPE vector(1536) USING NULLIF("embedding"::text, '')::vector(1536);--> statement-breakpoint
+DO $$ BEGIN
+ IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'VideoKeyword' AND column_name = 'entity') THEN
+  ALTER TABLE "VideoKeyword" RENAME COLUMN "entity" TO "entityType";
+ END IF;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "VideoKeyword" ALTER COLUMN "keyword" SET DATA TYPE varchar(200);--> statement-breakpoint
+ALTER TABLE "VideoKeyword" ALTER COLUMN "entityType" SET DATA TYPE varchar(50);--> statement-breakpoint
+ALTER TABLE "VideoKeyword" ALTER COLUMN "entityType" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "VideoKeyword" ADD COLUMN IF NOT EXISTS "chunkId" uuid;--> statement-breakpoint
+ALTER TABLE "VideoKeyword" ADD COLUMN IF NOT EXISTS "confidence" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "VideoKeyword" ADD COLUMN IF NOT EXISTS "frequency" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "VideoKeyword" ADD COLUMN IF NOT EXISTS "relevance" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "VideoKeyword" ADD COLUMN IF NOT EXISTS "embedding" vector(1536);--> statement-breakpoint
+DO $$ BEGIN
+ IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'VideoKeyword' AND column_name = 'score') THEN
+  UPDATE "VideoKeyword" SET
+   "confidence" = round(least(COALESCE(NULLIF("score", '')::numeric, 0), 1) * 100)::integer,
+   "relevance" = round(least(COALESCE(NULLIF("score", '')::numeric, 0), 1) * 100)::integer;
+  ALTER TABLE "VideoKeyword" DROP COLUMN "score";
+ END IF;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "VideoKeyword" ALTER COLUMN "confidence" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "VideoKeyword" ALTER COLUMN "relevance" DROP DEFAULT;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "VideoKeyword" ADD CONSTRAINT "VideoKeyword_chunkId_TranscriptChunk_id_fk" FOREIGN KEY ("chunkId") REFERENCES "public"."TranscriptChunk"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "ChannelIndexStatus" ALTER COLUMN "status" SET DATA TYPE varchar;--> statement-breakpoint
+ALTER TABLE "ChannelIndexStatus" ALTER COLUMN "progress" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "ChannelIndexStatus" ALTER COLUMN "progress" SET DATA TYPE integer USING COALESCE(NULLIF("progress"::text, ''), '0')::integer;--> statement-breakpoint
+ALTER TABLE "ChannelIndexStatus" ALTER COLUMN "progress" SET DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "ChannelIndexStatus" ALTER COLUMN "totalVideos" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "ChannelIndexStatus" ALTER COLUMN "totalVideos" SET DATA TYPE integer USING COALESCE(NULLIF("totalVideos"::text, ''), '0')::integer;--> statement-breakpoint
+ALTER TABLE "ChannelIndexStatus" ALTER COLUMN "totalVideos" SET DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "ChannelIndexStatus" ALTER COLUMN "processedVideos" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "ChannelIndexStatus" ALTER COLUMN "processedVideos" SET DATA TYPE integer USING COALESCE(NULLIF("processedVideos"::text, ''), '0')::integer;--> statement-breakpoint
+ALTER TABLE "ChannelIndexStatus" ALTER COLUMN "processedVideos" SET DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "ChannelIndexStatus" ALTER COLUMN "totalChunks" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "ChannelIndexStatus" ALTER COLUMN "totalChunks" SET DATA TYPE integer USING COALESCE(NULLIF("totalChunks"::text, ''), '0')::integer;--> statement-breakpoint
+ALTER TABLE "ChannelIndexStatus" ALTER COLUMN "totalChunks" SET DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "ChannelIndexStatus" ALTER COLUMN "processedChunks" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "ChannelIndexStatus" ALTER COLUMN "processedChunks" SET DATA TYPE integer USING COALESCE(NULLIF("processedChunks"::text, ''), '0')::integer;--> statement-breakpoint
+ALTER TABLE "ChannelIndexStatus" ALTER COLUMN "processedChunks" SET DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "SearchQuery" ALTER COLUMN "queryEmbedding" SET DATA TYPE vector(1536) USING NULLIF("queryEmbedding"::text, '')::vector(1536);--> statement-breakpoint
+ALTER TABLE "SearchQuery" ALTER COLUMN "resultsCount" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "SearchQuery" ALTER COLUMN "resultsCount" SET DATA TYPE integer USING COALESCE(NULLIF("resultsCount"::text, ''), '0')::integer;--> statement-breakpoint
+ALTER TABLE "SearchQuery" ALTER COLUMN "resultsCount" SET DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "SearchQuery" ALTER COLUMN "executionTime" SET DATA TYPE integer USING NULLIF("executionTime"::text, '')::integer;
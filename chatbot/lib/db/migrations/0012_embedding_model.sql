@@ -0,0 +1,5 @@
+ALTER TABLE "SearchQuery" ADD COLUMN "embeddingModel" varchar(100);--> statement-breakpoint
+ALTER TABLE "TranscriptChunk" ADD COLUMN "embeddingModel" varchar(100);--> statement-breakpoint
+-- Every embedding written before providers were pluggable came from OpenAI ada-002
+UPDATE "TranscriptChunk" SET "embeddingModel" = 'text-embedding-ada-002' WHERE "embedding" IS NOT NULL;--> statement-breakpoint
+UPDATE "SearchQuery" SET "embeddingModel" = 'text-embedding-ada-002' WHERE "queryEmbedding" IS NOT NULL;
\ No newline at end of file
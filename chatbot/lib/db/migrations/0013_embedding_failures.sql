@@ -0,0 +1,2 @@
+ALTER TABLE "TranscriptChunk" ADD COLUMN "embeddingError" text;--> statement-breakpoint
+ALTER TABLE "TranscriptChunk" ADD COLUMN "embeddingAttempts" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
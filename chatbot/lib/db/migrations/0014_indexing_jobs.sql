@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS "IndexingJob" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" varchar NOT NULL,
+	"payload" jsonb NOT NULL,
+	"dedupeKey" varchar(200),
+	"status" varchar DEFAULT 'queued' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"maxAttempts" integer DEFAULT 3 NOT NULL,
+	"runAt" timestamp DEFAULT now() NOT NULL,
+	"lockedBy" varchar(100),
+	"heartbeatAt" timestamp,
+	"lastError" text,
+	"result" jsonb,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	"completedAt" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IndexingJob_status_runAt_idx" ON "IndexingJob" USING btree ("status","runAt");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IndexingJob_dedupeKey_idx" ON "IndexingJob" USING btree ("dedupeKey");
\ No newline at end of file
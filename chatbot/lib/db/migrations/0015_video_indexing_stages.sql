@@ -0,0 +1,4 @@
+ALTER TABLE "YouTubeVideo" ADD COLUMN "transcriptSegments" jsonb;--> statement-breakpoint
+ALTER TABLE "YouTubeVideo" ADD COLUMN "indexingStage" varchar;--> statement-breakpoint
+-- Videos indexed before stages were tracked have all their chunks; missing embeddings are left to regeneration
+UPDATE "YouTubeVideo" SET "indexingStage" = 'embedded' WHERE EXISTS (SELECT 1 FROM "TranscriptChunk" WHERE "TranscriptChunk"."videoId" = "YouTubeVideo"."id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "YouTubeChannel" ADD COLUMN "syncIntervalMinutes" integer;--> statement-breakpoint
+ALTER TABLE "YouTubeChannel" ADD COLUMN "lastSyncedAt" timestamp;
\ No newline at end of file
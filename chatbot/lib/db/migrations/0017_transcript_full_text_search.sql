@@ -0,0 +1 @@
+CREATE INDEX IF NOT EXISTS "TranscriptChunk_content_search_idx" ON "TranscriptChunk" USING gin (to_tsvector('english', "content"));
@@ -0,0 +1,16 @@
+CREATE INDEX IF NOT EXISTS "idx_transcript_chunk_video_id" ON "TranscriptChunk" USING btree ("videoId");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_transcript_chunk_chunk_index" ON "TranscriptChunk" USING btree ("chunkIndex");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_transcript_chunk_embedding_hnsw" ON "TranscriptChunk" USING hnsw ("embedding" vector_cosine_ops);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_video_keyword_video_id" ON "VideoKeyword" USING btree ("videoId");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_video_keyword_chunk_id" ON "VideoKeyword" USING btree ("chunkId");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_video_keyword_keyword" ON "VideoKeyword" USING btree ("keyword");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_video_keyword_entity_type" ON "VideoKeyword" USING btree ("entityType");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_video_keyword_embedding_hnsw" ON "VideoKeyword" USING hnsw ("embedding" vector_cosine_ops);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_youtube_channel_is_indexed" ON "YouTubeChannel" USING btree ("isIndexed");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_youtube_video_channel_id" ON "YouTubeVideo" USING btree ("channelId");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_youtube_video_published_at" ON "YouTubeVideo" USING btree ("publishedAt");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_youtube_video_transcript_available" ON "YouTubeVideo" USING btree ("isTranscriptAvailable");--> statement-breakpoint
+-- The hand-written setup created IVFFlat indexes before any rows existed, so
+-- their lists were trained on nothing; the HNSW indexes above replace them
+DROP INDEX IF EXISTS "idx_transcript_chunk_embedding_cosine";--> statement-breakpoint
+DROP INDEX IF EXISTS "idx_video_keyword_embedding_cosine";
@@ -0,0 +1,29 @@
+CREATE TABLE IF NOT EXISTS "ChannelCollection" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ChannelCollection_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "ChannelCollectionMember" (
+	"collectionId" uuid NOT NULL,
+	"channelId" uuid NOT NULL,
+	"addedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ChannelCollectionMember_collectionId_channelId_pk" PRIMARY KEY("collectionId","channelId")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ChannelCollectionMember" ADD CONSTRAINT "ChannelCollectionMember_collectionId_ChannelCollection_id_fk" FOREIGN KEY ("collectionId") REFERENCES "public"."ChannelCollection"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ChannelCollectionMember" ADD CONSTRAINT "ChannelCollectionMember_channelId_YouTubeChannel_id_fk" FOREIGN KEY ("channelId") REFERENCES "public"."YouTubeChannel"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ChannelCollectionMember_channelId_idx" ON "ChannelCollectionMember" USING btree ("channelId");
\ No newline at end of file
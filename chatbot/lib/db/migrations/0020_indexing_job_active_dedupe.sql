@@ -0,0 +1,4 @@
+-- Enqueues used to check for an active job before inserting, so concurrent
+-- enqueues could both insert; keep one active job per key, running first
+UPDATE "IndexingJob" SET "status" = 'failed', "lastError" = 'Duplicate of an active job with the same dedupe key', "lockedBy" = NULL, "updatedAt" = now() WHERE "id" IN (SELECT "id" FROM (SELECT "id", row_number() OVER (PARTITION BY "dedupeKey" ORDER BY "status" = 'running' DESC, "createdAt") AS "rank" FROM "IndexingJob" WHERE "dedupeKey" IS NOT NULL AND "status" in ('queued', 'running')) AS "active" WHERE "rank" > 1);--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "IndexingJob_active_dedupeKey_idx" ON "IndexingJob" USING btree ("dedupeKey") WHERE "IndexingJob"."status" in ('queued', 'running');
@@ -0,0 +1 @@
+CREATE INDEX IF NOT EXISTS "IndexingJob_runId_idx" ON "IndexingJob" USING btree (("payload"->>'runId'));
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "ChannelIndexStatus" ADD COLUMN "jobId" uuid;
\ No newline at end of file
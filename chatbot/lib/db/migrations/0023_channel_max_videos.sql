@@ -0,0 +1 @@
+ALTER TABLE "YouTubeChannel" ADD COLUMN "maxVideos" integer;
\ No newline at end of file
@@ -1,5 +1,6 @@
 import "server-only";
 
+import { DrizzleYouTubeStore } from "@workspace/youtube-indexer";
 import {
 	and,
 	asc,
@@ -14,7 +15,6 @@ import {
 } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
-import type { ArtifactKind } from "@/components/artifact";
 import type { VisibilityType } from "@/components/visibility-selector";
 import { ChatSDKError } from "../errors";
 import type { AppUsage } from "../usage";
@@ -23,6 +23,7 @@ import {
 	type Chat,
 	chat,
 	type DBMessage,
+	type Document,
 	document,
 	message,
 	type Suggestion,
@@ -41,6 +42,7 @@ import { generateHashedPassword } from "./utils";
 // biome-ignore lint: Forbidden non-null assertion.
 const client = postgres(process.env.POSTGRES_URL!);
 export const db = drizzle(client);
+export const youtubeStore = new DrizzleYouTubeStore(db);
 
 export async function getUser(email: string): Promise<User[]> {
 	try {
@@ -308,7 +310,7 @@ export async function saveDocument({
 }: {
 	id: string;
 	title: string;
-	kind: ArtifactKind;
+	kind: Document["kind"];
 	content: string;
 	userId: string;
 }) {
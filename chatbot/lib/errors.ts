@@ -16,6 +16,7 @@ export type Surface =
 	| "vote"
 	| "document"
 	| "suggestions"
+	| "youtube"
 	| "activate_gateway";
 
 export type ErrorCode = `${ErrorType}:${Surface}`;
@@ -32,6 +33,7 @@ export const visibilityBySurface: Record<Surface, ErrorVisibility> = {
 	vote: "response",
 	document: "response",
 	suggestions: "response",
+	youtube: "response",
 	activate_gateway: "response",
 };
 
@@ -112,6 +114,9 @@ export function getMessageByErrorCode(errorCode: ErrorCode): string {
 		case "bad_request:document":
 			return "The request to create or update the document was invalid. Please check your input and try again.";
 
+		case "not_found:youtube":
+			return "The requested YouTube video or indexing job was not found. Videos can only be opened once they are indexed.";
+
 		default:
 			return "Something went wrong. Please try again later.";
 	}
@@ -1,3 +1,10 @@
+import type {
+	fetchYouTubeTranscript,
+	fetchYouTubeVideos,
+	indexYouTubeChannel,
+	indexYouTubeVideos,
+	searchYouTubeContent,
+} from "@workspace/youtube-indexer";
 import type { InferUITool, UIMessage } from "ai";
 import { z } from "zod";
 import type { ArtifactKind } from "@/components/artifact";
@@ -22,12 +29,28 @@ type updateDocumentTool = InferUITool<ReturnType<typeof updateDocument>>;
 type requestSuggestionsTool = InferUITool<
 	ReturnType<typeof requestSuggestions>
 >;
+type searchYouTubeContentTool = InferUITool<
+	ReturnType<typeof searchYouTubeContent>
+>;
+type indexYouTubeChannelTool = InferUITool<
+	ReturnType<typeof indexYouTubeChannel>
+>;
+type indexYouTubeVideosTool = InferUITool<
+	ReturnType<typeof indexYouTubeVideos>
+>;
+type fetchYouTubeTranscriptTool = InferUITool<typeof fetchYouTubeTranscript>;
+type fetchYouTubeVideosTool = InferUITool<typeof fetchYouTubeVideos>;
 
 export type ChatTools = {
 	getWeather: weatherTool;
 	createDocument: createDocumentTool;
 	updateDocument: updateDocumentTool;
 	requestSuggestions: requestSuggestionsTool;
+	searchYouTubeContent: searchYouTubeContentTool;
+	indexYouTubeChannel: indexYouTubeChannelTool;
+	indexYouTubeVideos: indexYouTubeVideosTool;
+	fetchYouTubeTranscript: fetchYouTubeTranscriptTool;
+	fetchYouTubeVideos: fetchYouTubeVideosTool;
 };
 
 export type CustomUIDataTypes = {
@@ -0,0 +1,89 @@
+// Client-safe helpers for YouTube links; the indexer package is server-only
+
+export function youtubeWatchUrl(videoId: string, startSeconds?: number) {
+	const url = `https://www.youtube.com/watch?v=${videoId}`;
+	return startSeconds === undefined
+		? url
+		: `${url}&t=${Math.floor(startSeconds)}s`;
+}
+
+export function youtubeThumbnailUrl(videoId: string) {
+	return `https://i.ytimg.com/vi/${videoId}/mqdefault.jpg`;
+}
+
+// 75 -> "1:15", 3725 -> "1:02:05"
+export function formatTimestamp(seconds: number) {
+	const total = Math.max(0, Math.floor(seconds));
+	const hours = Math.floor(total / 3600);
+	const minutes = Math.floor((total % 3600) / 60);
+	const secs = (total % 60).toString().padStart(2, "0");
+	return hours > 0
+		? `${hours}:${minutes.toString().padStart(2, "0")}:${secs}`
+		: `${minutes}:${secs}`;
+}
+
+// A moment in a video the player can jump to, usually a search result
+export type PlayerClip = {
+	videoId: string;
+	title: string;
+	channel?: string;
+	startTime: number;
+	endTime: number;
+	chunkIds: string[];
+};
+
+// Content of a video artifact: the clips to step through and the one shown
+export type PlayerContent = {
+	clips: PlayerClip[];
+	index: number;
+};
+
+export function parsePlayerContent(content: string): PlayerContent | null {
+	try {
+		const parsed = JSON.parse(content) as PlayerContent;
+		return Array.isArray(parsed.clips) && parsed.clips[parsed.index]
+			? parsed
+			: null;
+	} catch {
+		return null;
+	}
+}
+
+// Response of /api/youtube/transcript
+export type VideoTranscript = {
+	video: {
+		videoId: string;
+		title: string;
+		videoUrl: string;
+		thumbnailUrl: string | null;
+		duration: number | null;
+		channelName: string | null;
+	};
+	// Video-level keywords, most relevant first
+	keywords: { word: string; entity: string | null; count: number }[];
+	chunks: {
+		id: string;
+		chunkIndex: number;
+		startTime: number;
+		endTime: number;
+		text: string; // without the overlap repeated from the chunk before
+		keywords: string[];
+	}[];
+};
+
+// Content of a transcript artifact: the video and a segment to scroll to
+export type TranscriptViewerContent = {
+	videoId: string;
+	chunkId?: string;
+};
+
+export function parseTranscriptViewerContent(
+	content: string,
+): TranscriptViewerContent | null {
+	try {
+		const parsed = JSON.parse(content) as TranscriptViewerContent;
+		return typeof parsed.videoId === "string" ? parsed : null;
+	} catch {
+		return null;
+	}
+}
@@ -0,0 +1,42 @@
+import {
+	checkSchemaDrift,
+	formatSchemaDriftIssue,
+} from "@workspace/youtube-indexer";
+import { config } from "dotenv";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+
+config({
+	path: ".env.local",
+});
+
+const checkDrift = async () => {
+	if (!process.env.POSTGRES_URL) {
+		throw new Error("POSTGRES_URL is not defined");
+	}
+
+	const connection = postgres(process.env.POSTGRES_URL, { max: 1 });
+	const db = drizzle(connection);
+
+	console.log("⏳ Comparing deployed YouTube tables with the typed schema...");
+
+	const report = await checkSchemaDrift(db);
+	await connection.end();
+
+	if (!report.ok) {
+		console.error(`❌ Schema drift detected (${report.issues.length} issues):`);
+		for (const issue of report.issues) {
+			console.error(`  - ${formatSchemaDriftIssue(issue)}`);
+		}
+		process.exit(1);
+	}
+
+	console.log("✅ Deployed YouTube tables match the typed schema");
+	process.exit(0);
+};
+
+checkDrift().catch((err) => {
+	console.error("❌ Schema drift check failed");
+	console.error(err);
+	process.exit(1);
+});
@@ -0,0 +1,66 @@
+import {
+	createEmbeddingProvider,
+	createIndexingJobHandlers,
+	DrizzleYouTubeStore,
+	enqueueDueChannelSyncs,
+	IndexingWorker,
+} from "@workspace/youtube-indexer";
+import { config } from "dotenv";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+
+config({
+	path: ".env.local",
+});
+
+// How often channels with a sync schedule are checked
+const SYNC_CHECK_INTERVAL_MS = 60_000;
+
+const runWorker = async () => {
+	if (!process.env.POSTGRES_URL) {
+		throw new Error("POSTGRES_URL is not defined");
+	}
+
+	const connection = postgres(process.env.POSTGRES_URL);
+	const store = new DrizzleYouTubeStore(drizzle(connection));
+	const embeddings = createEmbeddingProvider();
+
+	const worker = new IndexingWorker(
+		store,
+		createIndexingJobHandlers(store, embeddings),
+	);
+
+	const enqueueDueSyncs = () =>
+		enqueueDueChannelSyncs(store)
+			.then((jobs) => {
+				if (jobs.length > 0) {
+					console.log(`🔄 Queued ${jobs.length} scheduled channel syncs`);
+				}
+			})
+			.catch((err) => {
+				console.error("❌ Failed to queue scheduled channel syncs");
+				console.error(err);
+			});
+	const syncTimer = setInterval(enqueueDueSyncs, SYNC_CHECK_INTERVAL_MS);
+
+	// Let the current job finish; a hard kill is recovered once its heartbeat goes stale
+	const shutdown = async () => {
+		console.log("⏳ Stopping indexing worker...");
+		clearInterval(syncTimer);
+		await worker.stop();
+		await connection.end();
+		process.exit(0);
+	};
+	process.once("SIGINT", shutdown);
+	process.once("SIGTERM", shutdown);
+
+	console.log(`⏳ Indexing worker polling with ${embeddings.model} embeddings`);
+	worker.start();
+	await enqueueDueSyncs();
+};
+
+runWorker().catch((err) => {
+	console.error("❌ Indexing worker failed to start");
+	console.error(err);
+	process.exit(1);
+});
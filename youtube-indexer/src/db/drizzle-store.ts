@@ -0,0 +1,927 @@
+import {
+  and,
+  cosineDistance,
+  count,
+  countDistinct,
+  desc,
+  eq,
+  exists,
+  gte,
+  ilike,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  ne,
+  notInArray,
+  or,
+  type SQL,
+  sql,
+} from "drizzle-orm";
+import { unionAll } from "drizzle-orm/pg-core";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { padEmbedding } from "../embeddings/embedding-provider";
+import {
+  channelCollection,
+  channelCollectionMember,
+  channelIndexStatus,
+  entityTypeLabels,
+  indexingJob,
+  searchQuery,
+  transcriptChunk,
+  videoKeyword,
+  youtubeChannel,
+  youtubeVideo,
+} from "../types/youtube-schema";
+import {
+  type ChannelRepository,
+  type ChunkFilters,
+  type ChunkRepository,
+  type CollectionRepository,
+  type CollectionWithChannels,
+  type IndexStatusRepository,
+  type JobRepository,
+  type KeywordRepository,
+  type SearchQueryRepository,
+  SUPERSEDED_RUN_ERROR,
+  type VideoRepository,
+  type YouTubeStore,
+} from "./store";
+
+export type YouTubeDatabase = PostgresJsDatabase<Record<string, unknown>>;
+
+/**
+ * Postgres-backed store; pass the host application's Drizzle instance
+ */
+export class DrizzleYouTubeStore implements YouTubeStore {
+  readonly channels: ChannelRepository;
+  readonly collections: CollectionRepository;
+  readonly videos: VideoRepository;
+  readonly chunks: ChunkRepository;
+  readonly keywords: KeywordRepository;
+  readonly indexStatus: IndexStatusRepository;
+  readonly searchQueries: SearchQueryRepository;
+  readonly jobs: JobRepository;
+
+  constructor(db: YouTubeDatabase) {
+    this.channels = createChannelRepository(db);
+    this.collections = createCollectionRepository(db);
+    this.videos = createVideoRepository(db);
+    this.chunks = createChunkRepository(db);
+    this.keywords = createKeywordRepository(db);
+    this.indexStatus = createIndexStatusRepository(db);
+    this.searchQueries = createSearchQueryRepository(db);
+    this.jobs = createJobRepository(db);
+  }
+}
+
+function createChannelRepository(db: YouTubeDatabase): ChannelRepository {
+  return {
+    async findById(id) {
+      const [channel] = await db
+        .select()
+        .from(youtubeChannel)
+        .where(eq(youtubeChannel.id, id))
+        .limit(1);
+      return channel ?? null;
+    },
+
+    async findByChannelId(channelId) {
+      const [channel] = await db
+        .select()
+        .from(youtubeChannel)
+        .where(eq(youtubeChannel.channelId, channelId))
+        .limit(1);
+      return channel ?? null;
+    },
+
+    async upsert({ channelId, channelName, channelUrl, maxVideos }) {
+      const [channel] = await db
+        .insert(youtubeChannel)
+        .values({
+          channelId,
+          channelName,
+          channelUrl,
+          isIndexed: false,
+          maxVideos,
+        })
+        .onConflictDoUpdate({
+          target: youtubeChannel.channelId,
+          // Drizzle leaves undefined columns out, keeping the stored cap
+          set: { channelName, channelUrl, maxVideos, updatedAt: new Date() },
+        })
+        .returning();
+      return channel;
+    },
+
+    async markIndexed(id) {
+      await db
+        .update(youtubeChannel)
+        .set({
+          isIndexed: true,
+          lastIndexedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(youtubeChannel.id, id));
+    },
+
+    async markSynced(id) {
+      await db
+        .update(youtubeChannel)
+        .set({ lastSyncedAt: new Date(), updatedAt: new Date() })
+        .where(eq(youtubeChannel.id, id));
+    },
+
+    async setSyncInterval(id, minutes) {
+      await db
+        .update(youtubeChannel)
+        .set({ syncIntervalMinutes: minutes, updatedAt: new Date() })
+        .where(eq(youtubeChannel.id, id));
+    },
+
+    async findDueForSync(now) {
+      // Channels never synced count from their initial indexing
+      const lastSync = sql`coalesce(${youtubeChannel.lastSyncedAt}, ${youtubeChannel.lastIndexedAt})`;
+      return await db
+        .select()
+        .from(youtubeChannel)
+        .where(
+          and(
+            eq(youtubeChannel.isIndexed, true),
+            isNotNull(youtubeChannel.syncIntervalMinutes),
+            or(
+              sql`${lastSync} IS NULL`,
+              sql`${lastSync} + ${youtubeChannel.syncIntervalMinutes} * interval '1 minute' <= ${now}`
+            )
+          )
+        );
+    },
+  };
+}
+
+function createCollectionRepository(db: YouTubeDatabase): CollectionRepository {
+  const findByName = async (name: string) => {
+    const [collection] = await db
+      .select()
+      .from(channelCollection)
+      .where(sql`lower(${channelCollection.name}) = lower(${name.trim()})`)
+      .limit(1);
+    return collection ?? null;
+  };
+
+  return {
+    findByName,
+
+    async upsert(name, description) {
+      const existing = await findByName(name);
+      if (existing) {
+        if (description === undefined) {
+          return existing;
+        }
+        const [updated] = await db
+          .update(channelCollection)
+          .set({ description, updatedAt: new Date() })
+          .where(eq(channelCollection.id, existing.id))
+          .returning();
+        return updated;
+      }
+
+      const [created] = await db
+        .insert(channelCollection)
+        .values({ name: name.trim(), description })
+        .returning();
+      return created;
+    },
+
+    async delete(id) {
+      // Memberships are removed by the cascading foreign key
+      await db.delete(channelCollection).where(eq(channelCollection.id, id));
+    },
+
+    async addChannels(collectionId, channelDbIds) {
+      if (channelDbIds.length === 0) {
+        return;
+      }
+      await db
+        .insert(channelCollectionMember)
+        .values(channelDbIds.map((channelId) => ({ collectionId, channelId })))
+        .onConflictDoNothing();
+    },
+
+    async removeChannels(collectionId, channelDbIds) {
+      if (channelDbIds.length === 0) {
+        return;
+      }
+      await db
+        .delete(channelCollectionMember)
+        .where(
+          and(
+            eq(channelCollectionMember.collectionId, collectionId),
+            inArray(channelCollectionMember.channelId, channelDbIds)
+          )
+        );
+    },
+
+    async findChannels(collectionId) {
+      const rows = await db
+        .select({ channel: youtubeChannel })
+        .from(channelCollectionMember)
+        .innerJoin(
+          youtubeChannel,
+          eq(channelCollectionMember.channelId, youtubeChannel.id)
+        )
+        .where(eq(channelCollectionMember.collectionId, collectionId))
+        .orderBy(youtubeChannel.channelName);
+      return rows.map(({ channel }) => channel);
+    },
+
+    async list() {
+      const rows = await db
+        .select({ collection: channelCollection, channel: youtubeChannel })
+        .from(channelCollection)
+        .leftJoin(
+          channelCollectionMember,
+          eq(channelCollectionMember.collectionId, channelCollection.id)
+        )
+        .leftJoin(
+          youtubeChannel,
+          eq(channelCollectionMember.channelId, youtubeChannel.id)
+        )
+        .orderBy(channelCollection.name, youtubeChannel.channelName);
+
+      const collections = new Map<string, CollectionWithChannels>();
+      for (const { collection, channel } of rows) {
+        let entry = collections.get(collection.id);
+        if (!entry) {
+          entry = { collection, channels: [] };
+          collections.set(collection.id, entry);
+        }
+        if (channel) {
+          entry.channels.push(channel);
+        }
+      }
+      return [...collections.values()];
+    },
+  };
+}
+
+function createVideoRepository(db: YouTubeDatabase): VideoRepository {
+  return {
+    async findById(id) {
+      const [video] = await db
+        .select()
+        .from(youtubeVideo)
+        .where(eq(youtubeVideo.id, id))
+        .limit(1);
+      return video ?? null;
+    },
+
+    async findByVideoId(videoId) {
+      const [video] = await db
+        .select()
+        .from(youtubeVideo)
+        .where(eq(youtubeVideo.videoId, videoId))
+        .limit(1);
+      return video ?? null;
+    },
+
+    async findByChannel(channelDbId) {
+      return await db
+        .select()
+        .from(youtubeVideo)
+        .where(eq(youtubeVideo.channelId, channelDbId));
+    },
+
+    async findWithChannels(ids) {
+      if (ids.length === 0) {
+        return [];
+      }
+
+      return await db
+        .select({ video: youtubeVideo, channel: youtubeChannel })
+        .from(youtubeVideo)
+        .innerJoin(
+          youtubeChannel,
+          eq(youtubeVideo.channelId, youtubeChannel.id)
+        )
+        .where(inArray(youtubeVideo.id, ids));
+    },
+
+    async countByChannel(channelDbId) {
+      const [result] = await db
+        .select({ count: count() })
+        .from(youtubeVideo)
+        .where(eq(youtubeVideo.channelId, channelDbId));
+      return result?.count ?? 0;
+    },
+
+    async countTranscriptMentions(channelDbId, phrases, excludeVideoDbId) {
+      // Phrases are looked up in the chunks through the full-text index, one
+      // branch per phrase; must match TranscriptChunk_content_search_idx
+      const document = sql`to_tsvector('english', ${transcriptChunk.content})`;
+      const countVideos = (position: number, matches?: SQL) =>
+        db
+          .select({
+            position: sql<number>`${position}::int`,
+            videos: countDistinct(transcriptChunk.videoId),
+          })
+          .from(transcriptChunk)
+          .innerJoin(youtubeVideo, eq(transcriptChunk.videoId, youtubeVideo.id))
+          .where(
+            and(
+              eq(youtubeVideo.channelId, channelDbId),
+              excludeVideoDbId
+                ? ne(youtubeVideo.id, excludeVideoDbId)
+                : undefined,
+              matches
+            )
+          );
+
+      // Position -1 counts the transcripts themselves
+      const [first, ...rest] = phrases.map((phrase, position) =>
+        countVideos(
+          position,
+          sql`${document} @@ phraseto_tsquery('english', ${phrase})`
+        )
+      );
+      const rows = first
+        ? await unionAll(countVideos(-1), first, ...rest)
+        : await countVideos(-1);
+      const counts = new Map(
+        rows.map(({ position, videos }) => [position, videos])
+      );
+
+      return {
+        transcripts: counts.get(-1) ?? 0,
+        mentions: phrases.map((phrase, position) => ({
+          phrase,
+          count: counts.get(position) ?? 0,
+        })),
+      };
+    },
+
+    async upsert(video) {
+      const { channelId: _channelId, videoId: _videoId, ...fields } = video;
+      const [record] = await db
+        .insert(youtubeVideo)
+        .values(video)
+        .onConflictDoUpdate({
+          target: youtubeVideo.videoId,
+          set: { ...fields, updatedAt: new Date() },
+        })
+        .returning();
+      return record;
+    },
+
+    async update(id, changes) {
+      const [record] = await db
+        .update(youtubeVideo)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(youtubeVideo.id, id))
+        .returning();
+      return record;
+    },
+  };
+}
+
+function createChunkRepository(db: YouTubeDatabase): ChunkRepository {
+  return {
+    async insertMany(chunks) {
+      if (chunks.length === 0) {
+        return [];
+      }
+      return await db.insert(transcriptChunk).values(chunks).returning();
+    },
+
+    async findByVideo(videoDbId) {
+      return await db
+        .select()
+        .from(transcriptChunk)
+        .where(eq(transcriptChunk.videoId, videoDbId))
+        .orderBy(transcriptChunk.chunkIndex);
+    },
+
+    async deleteByVideo(videoDbId) {
+      // Keywords reference the chunks, so they go first
+      await db.delete(videoKeyword).where(eq(videoKeyword.videoId, videoDbId));
+      await db
+        .delete(transcriptChunk)
+        .where(eq(transcriptChunk.videoId, videoDbId));
+    },
+
+    async setEmbedding(id, embedding, model) {
+      await db
+        .update(transcriptChunk)
+        .set({
+          embedding: padEmbedding(embedding),
+          embeddingModel: model,
+          embeddingError: null,
+          embeddingAttempts: sql`${transcriptChunk.embeddingAttempts} + 1`,
+        })
+        .where(eq(transcriptChunk.id, id));
+    },
+
+    async recordEmbeddingFailure(id, reason) {
+      await db
+        .update(transcriptChunk)
+        .set({
+          embeddingError: reason,
+          embeddingAttempts: sql`${transcriptChunk.embeddingAttempts} + 1`,
+        })
+        .where(eq(transcriptChunk.id, id));
+    },
+
+    async findSimilar({
+      embedding,
+      model,
+      limit,
+      threshold,
+      efSearch,
+      probes,
+      ...filters
+    }) {
+      // pgvector cosine distance; similarity = 1 - distance
+      const distance = cosineDistance(
+        transcriptChunk.embedding,
+        padEmbedding(embedding)
+      );
+      const similarity = sql<number>`1 - (${distance})`;
+
+      const findChunks = (tx: YouTubeDatabase) =>
+        tx
+          .select({ chunk: transcriptChunk, similarity })
+          .from(transcriptChunk)
+          .innerJoin(youtubeVideo, eq(transcriptChunk.videoId, youtubeVideo.id))
+          .where(
+            and(
+              isNotNull(transcriptChunk.embedding),
+              eq(transcriptChunk.embeddingModel, model),
+              matchesChunkFilters(db, filters),
+              sql`${similarity} > ${threshold}`
+            )
+          )
+          .orderBy(distance)
+          .limit(limit);
+
+      if (efSearch === undefined && probes === undefined) {
+        return await findChunks(db);
+      }
+
+      // The index scan drops rows that fail the filters after it has picked
+      // its candidates, so filtered searches may need a wider scan. Settings
+      // are transaction local and leave pooled connections untouched.
+      return await db.transaction(async (tx) => {
+        if (efSearch !== undefined) {
+          await tx.execute(
+            sql`select set_config('hnsw.ef_search', ${String(efSearch)}, true)`
+          );
+        }
+        if (probes !== undefined) {
+          await tx.execute(
+            sql`select set_config('ivfflat.probes', ${String(probes)}, true)`
+          );
+        }
+        return await findChunks(tx);
+      });
+    },
+
+    async searchText({ query, limit, ...filters }) {
+      // Must match the expression of TranscriptChunk_content_search_idx
+      const document = sql`to_tsvector('english', ${transcriptChunk.content})`;
+      const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+      // Normalisation 32 scales the rank into 0-1
+      const rank = sql<number>`ts_rank_cd(${document}, ${tsQuery}, 32)`;
+
+      return await db
+        .select({ chunk: transcriptChunk, rank })
+        .from(transcriptChunk)
+        .innerJoin(youtubeVideo, eq(transcriptChunk.videoId, youtubeVideo.id))
+        .where(
+          and(sql`${document} @@ ${tsQuery}`, matchesChunkFilters(db, filters))
+        )
+        // Ties break on id so repeated searches page through the same order
+        .orderBy(desc(rank), transcriptChunk.id)
+        .limit(limit);
+    },
+
+    async findStale(model, limit) {
+      return await db
+        .select()
+        .from(transcriptChunk)
+        .where(
+          or(
+            isNull(transcriptChunk.embedding),
+            isNull(transcriptChunk.embeddingModel),
+            ne(transcriptChunk.embeddingModel, model)
+          )
+        )
+        .orderBy(transcriptChunk.videoId, transcriptChunk.chunkIndex)
+        .limit(limit);
+    },
+
+    async findEmbeddingFailures(limit) {
+      return await db
+        .select()
+        .from(transcriptChunk)
+        .where(isNotNull(transcriptChunk.embeddingError))
+        .orderBy(transcriptChunk.videoId, transcriptChunk.chunkIndex)
+        .limit(limit);
+    },
+
+    async countByEmbeddingModel() {
+      const model = sql<
+        string | null
+      >`CASE WHEN ${transcriptChunk.embedding} IS NULL THEN NULL ELSE ${transcriptChunk.embeddingModel} END`;
+      return await db
+        .select({ model, count: count() })
+        .from(transcriptChunk)
+        .groupBy(model);
+    },
+  };
+}
+
+function createKeywordRepository(db: YouTubeDatabase): KeywordRepository {
+  return {
+    async insertMany(keywords) {
+      if (keywords.length > 0) {
+        await db.insert(videoKeyword).values(keywords);
+      }
+    },
+
+    async deleteByVideo(videoDbId) {
+      await db.delete(videoKeyword).where(eq(videoKeyword.videoId, videoDbId));
+    },
+
+    async findByVideo(videoDbId) {
+      return await db
+        .select()
+        .from(videoKeyword)
+        .where(eq(videoKeyword.videoId, videoDbId))
+        .orderBy(desc(videoKeyword.relevance));
+    },
+
+    async findChunkMatches({ keywords, limit, ...filters }) {
+      if (keywords.length === 0) {
+        return [];
+      }
+
+      return await db
+        .select({
+          chunk: transcriptChunk,
+          keyword: videoKeyword.keyword,
+          confidence: videoKeyword.confidence,
+        })
+        .from(videoKeyword)
+        .innerJoin(
+          transcriptChunk,
+          eq(videoKeyword.chunkId, transcriptChunk.id)
+        )
+        .innerJoin(youtubeVideo, eq(transcriptChunk.videoId, youtubeVideo.id))
+        .where(
+          and(matchesAnyKeyword(keywords), matchesChunkFilters(db, filters))
+        )
+        .orderBy(desc(videoKeyword.confidence))
+        .limit(limit);
+    },
+
+    async findInChunks(chunkIds, keywords) {
+      if (chunkIds.length === 0 || keywords.length === 0) {
+        return [];
+      }
+
+      const rows = await db
+        .select({
+          chunkId: videoKeyword.chunkId,
+          keyword: videoKeyword.keyword,
+        })
+        .from(videoKeyword)
+        .where(
+          and(
+            inArray(videoKeyword.chunkId, chunkIds),
+            matchesAnyKeyword(keywords)
+          )
+        );
+      // inArray never matches video-level keywords, whose chunkId is null
+      return rows.flatMap(({ chunkId, keyword }) =>
+        chunkId ? [{ chunkId, keyword }] : []
+      );
+    },
+  };
+}
+
+function createIndexStatusRepository(
+  db: YouTubeDatabase
+): IndexStatusRepository {
+  return {
+    async start(channelDbId, jobId) {
+      // Video jobs of the superseded run may still finish; they no longer
+      // complete it
+      if (jobId) {
+        await db
+          .update(channelIndexStatus)
+          .set({ status: "failed", errorMessage: SUPERSEDED_RUN_ERROR })
+          .where(
+            and(
+              eq(channelIndexStatus.channelId, channelDbId),
+              eq(channelIndexStatus.jobId, jobId),
+              notInArray(channelIndexStatus.status, ["completed", "failed"])
+            )
+          );
+      }
+
+      const [created] = await db
+        .insert(channelIndexStatus)
+        .values({
+          channelId: channelDbId,
+          jobId,
+          status: "pending",
+          progress: 0,
+        })
+        .returning();
+      return created;
+    },
+
+    async update(runId, update) {
+      await db
+        .update(channelIndexStatus)
+        .set({
+          status: update.status,
+          progress: update.progress,
+          totalVideos: update.totalVideos,
+          processedVideos: update.processedVideos,
+          ...(update.errorMessage ? { errorMessage: update.errorMessage } : {}),
+          ...(update.status === "completed" ? { completedAt: new Date() } : {}),
+        })
+        .where(eq(channelIndexStatus.id, runId));
+    },
+
+    async recordVideoProcessed(runId) {
+      // Increment in SQL so concurrent video jobs never lose a count
+      const [status] = await db
+        .update(channelIndexStatus)
+        .set({
+          processedVideos: sql`${channelIndexStatus.processedVideos} + 1`,
+          progress: sql`least(100, 10 + ((${channelIndexStatus.processedVideos} + 1) * 90) / greatest(${channelIndexStatus.totalVideos}, 1))`,
+        })
+        .where(
+          and(
+            eq(channelIndexStatus.id, runId),
+            ne(channelIndexStatus.status, "failed")
+          )
+        )
+        .returning();
+      return status ?? null;
+    },
+  };
+}
+
+function createSearchQueryRepository(
+  db: YouTubeDatabase
+): SearchQueryRepository {
+  return {
+    async log(query) {
+      await db.insert(searchQuery).values({
+        ...query,
+        queryEmbedding: query.queryEmbedding
+          ? padEmbedding(query.queryEmbedding)
+          : query.queryEmbedding,
+      });
+    },
+  };
+}
+
+function createJobRepository(db: YouTubeDatabase): JobRepository {
+  // A video is queued again when a retried channel job lists it once more
+  const latestVideoJobs = (runIds: string[]) =>
+    db
+      .selectDistinctOn([indexingJob.dedupeKey])
+      .from(indexingJob)
+      .where(
+        and(
+          eq(indexingJob.type, "index_video"),
+          inArray(sql`${indexingJob.payload}->>'runId'`, runIds)
+        )
+      )
+      .orderBy(indexingJob.dedupeKey, desc(indexingJob.createdAt));
+
+  const ownedBy = (id: string, workerId: string) =>
+    and(
+      eq(indexingJob.id, id),
+      eq(indexingJob.lockedBy, workerId),
+      eq(indexingJob.status, "running")
+    );
+
+  return {
+    async enqueue(job) {
+      // The partial unique index on active dedupe keys settles concurrent
+      // enqueues; the loser picks up the job that won
+      for (;;) {
+        const [created] = await db
+          .insert(indexingJob)
+          .values(job)
+          .onConflictDoNothing({
+            target: indexingJob.dedupeKey,
+            where: sql`${indexingJob.status} in ('queued', 'running')`,
+          })
+          .returning();
+        if (created) {
+          return created;
+        }
+
+        const [active] = await db
+          .select()
+          .from(indexingJob)
+          .where(
+            and(
+              eq(indexingJob.dedupeKey, job.dedupeKey ?? ""),
+              inArray(indexingJob.status, ["queued", "running"])
+            )
+          )
+          .limit(1);
+        // Otherwise the active job finished in between, so insert again
+        if (active) {
+          return active;
+        }
+      }
+    },
+
+    async findById(id) {
+      const [job] = await db
+        .select()
+        .from(indexingJob)
+        .where(eq(indexingJob.id, id))
+        .limit(1);
+      return job ?? null;
+    },
+
+    async claim(workerId, staleBefore) {
+      // SKIP LOCKED lets several workers poll without claiming the same job
+      const next = db
+        .select({ id: indexingJob.id })
+        .from(indexingJob)
+        .where(
+          or(
+            and(
+              eq(indexingJob.status, "queued"),
+              lte(indexingJob.runAt, new Date())
+            ),
+            and(
+              eq(indexingJob.status, "running"),
+              lt(indexingJob.heartbeatAt, staleBefore)
+            )
+          )
+        )
+        .orderBy(indexingJob.runAt)
+        .limit(1)
+        .for("update", { skipLocked: true });
+
+      const now = new Date();
+      const [job] = await db
+        .update(indexingJob)
+        .set({
+          status: "running",
+          attempts: sql`${indexingJob.attempts} + 1`,
+          lockedBy: workerId,
+          heartbeatAt: now,
+          updatedAt: now,
+        })
+        .where(inArray(indexingJob.id, next))
+        .returning();
+      return job ?? null;
+    },
+
+    async heartbeat(id, workerId) {
+      const now = new Date();
+      const rows = await db
+        .update(indexingJob)
+        .set({ heartbeatAt: now, updatedAt: now })
+        .where(ownedBy(id, workerId))
+        .returning({ id: indexingJob.id });
+      return rows.length > 0;
+    },
+
+    async complete(id, workerId, result) {
+      const now = new Date();
+      await db
+        .update(indexingJob)
+        .set({
+          status: "completed",
+          result,
+          lastError: null,
+          lockedBy: null,
+          updatedAt: now,
+          completedAt: now,
+        })
+        .where(ownedBy(id, workerId));
+    },
+
+    async fail(id, workerId, error, retryAt) {
+      const now = new Date();
+      await db
+        .update(indexingJob)
+        .set({
+          status: retryAt ? "queued" : "failed",
+          runAt: retryAt ?? undefined,
+          lastError: error,
+          lockedBy: null,
+          updatedAt: now,
+          completedAt: retryAt ? null : now,
+        })
+        .where(ownedBy(id, workerId));
+    },
+
+    async countByStatus() {
+      return await db
+        .select({ status: indexingJob.status, count: count() })
+        .from(indexingJob)
+        .groupBy(indexingJob.status);
+    },
+
+    async findRecent(limit) {
+      return await db
+        .select()
+        .from(indexingJob)
+        .orderBy(desc(indexingJob.createdAt))
+        .limit(limit);
+    },
+
+    async countVideoJobsByRuns(runIds) {
+      if (runIds.length === 0) {
+        return [];
+      }
+
+      const latest = latestVideoJobs(runIds).as("latest");
+      const indexingStage = sql<
+        string | null
+      >`${latest.result}->>'indexingStage'`;
+      return await db
+        .select({ status: latest.status, indexingStage, count: count() })
+        .from(latest)
+        .groupBy(latest.status, indexingStage);
+    },
+
+    async findVideoJobsByRuns(runIds, limit) {
+      if (runIds.length === 0) {
+        return [];
+      }
+
+      const latest = latestVideoJobs(runIds).as("latest");
+      return await db
+        .select()
+        .from(latest)
+        .orderBy(desc(latest.updatedAt))
+        .limit(limit);
+    },
+  };
+}
+
+function matchesAnyKeyword(keywords: string[]) {
+  return or(
+    ...keywords.map((keyword) => ilike(videoKeyword.keyword, `%${keyword}%`))
+  );
+}
+
+// Conditions on a query that joins TranscriptChunk with YouTubeVideo
+function matchesChunkFilters(
+  db: YouTubeDatabase,
+  {
+    channelDbIds,
+    publishedAfter,
+    publishedBefore,
+    minDuration,
+    maxDuration,
+    minViews,
+    videoIds,
+    entityType,
+  }: ChunkFilters
+) {
+  return and(
+    channelDbIds?.length
+      ? inArray(youtubeVideo.channelId, channelDbIds)
+      : undefined,
+    publishedAfter ? gte(youtubeVideo.publishedAt, publishedAfter) : undefined,
+    publishedBefore ? lt(youtubeVideo.publishedAt, publishedBefore) : undefined,
+    minDuration === undefined
+      ? undefined
+      : gte(youtubeVideo.duration, minDuration),
+    maxDuration === undefined
+      ? undefined
+      : lte(youtubeVideo.duration, maxDuration),
+    minViews === undefined ? undefined : gte(youtubeVideo.viewCount, minViews),
+    videoIds?.length ? inArray(youtubeVideo.videoId, videoIds) : undefined,
+    entityType
+      ? exists(
+          db
+            .select({ id: videoKeyword.id })
+            .from(videoKeyword)
+            .where(
+              and(
+                eq(videoKeyword.chunkId, transcriptChunk.id),
+                inArray(videoKeyword.entityType, entityTypeLabels(entityType))
+              )
+            )
+        )
+      : undefined
+  );
+}
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { InMemoryYouTubeStore } from "./memory-store";
+import { SUPERSEDED_RUN_ERROR } from "./store";
+
+let store: InMemoryYouTubeStore;
+let channelDbId: string;
+
+beforeEach(async () => {
+  store = new InMemoryYouTubeStore();
+  const channel = await store.channels.upsert({
+    channelId: "baking",
+    channelName: "Baking",
+    channelUrl: "https://www.youtube.com/@baking",
+  });
+  channelDbId = channel.id;
+});
+
+const findRun = (runId: string) =>
+  store.indexStatusRows.find((row) => row.id === runId);
+
+describe("index runs", () => {
+  test("start a new run while another run of the channel is active", async () => {
+    const indexRun = await store.indexStatus.start(channelDbId, "index-job");
+    await store.indexStatus.update(indexRun.id, {
+      status: "indexing_videos",
+      progress: 10,
+      totalVideos: 3,
+      processedVideos: 0,
+    });
+    await store.indexStatus.recordVideoProcessed(indexRun.id);
+
+    const syncRun = await store.indexStatus.start(channelDbId, "sync-job");
+    await store.indexStatus.update(syncRun.id, {
+      status: "indexing_videos",
+      progress: 10,
+      totalVideos: 1,
+      processedVideos: 0,
+    });
+
+    expect(syncRun.id).not.toBe(indexRun.id);
+    expect(findRun(indexRun.id)).toMatchObject({
+      status: "indexing_videos",
+      totalVideos: 3,
+      processedVideos: 1,
+    });
+    expect(
+      (await store.indexStatus.recordVideoProcessed(indexRun.id))
+        ?.processedVideos
+    ).toBe(2);
+  });
+
+  test("a retried job supersedes the runs of its earlier attempts", async () => {
+    const otherRun = await store.indexStatus.start(channelDbId, "sync-job");
+    const firstAttempt = await store.indexStatus.start(
+      channelDbId,
+      "index-job"
+    );
+    const retry = await store.indexStatus.start(channelDbId, "index-job");
+
+    expect(retry.id).not.toBe(firstAttempt.id);
+    expect(findRun(firstAttempt.id)).toMatchObject({
+      status: "failed",
+      errorMessage: SUPERSEDED_RUN_ERROR,
+    });
+    expect(findRun(otherRun.id)?.status).toBe("pending");
+    expect(findRun(retry.id)?.status).toBe("pending");
+    // Video jobs still queued under the superseded run no longer count
+    expect(
+      await store.indexStatus.recordVideoProcessed(firstAttempt.id)
+    ).toBeNull();
+  });
+});
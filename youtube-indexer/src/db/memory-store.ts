@@ -0,0 +1,826 @@
+import { randomUUID } from "node:crypto";
+import {
+  type ChannelCollection,
+  type ChannelIndexStatus,
+  entityTypeLabels,
+  type IndexingJob,
+  type SearchQuery,
+  type TranscriptChunk,
+  type VideoKeyword,
+  type YouTubeChannel,
+  type YouTubeVideo,
+} from "../types/youtube-schema";
+import { escapeRegex } from "../utils/regex";
+import { cosineSimilarity } from "../utils/similarity";
+import {
+  type ChannelRepository,
+  type ChunkFilters,
+  type ChunkRepository,
+  type CollectionRepository,
+  type IndexStatusRepository,
+  type JobRepository,
+  type KeywordRepository,
+  type SearchQueryRepository,
+  SUPERSEDED_RUN_ERROR,
+  type VideoJobStatusCount,
+  type VideoRepository,
+  type YouTubeStore,
+} from "./store";
+
+const QUOTED_PHRASE_REGEX = /"([^"]*)"/g;
+const EXCLUDED_TERM_REGEX = /(?:^|\s)-(\S+)/g;
+const TEXT_SPLIT_REGEX = /[^\p{L}\p{N}]+/u;
+
+/**
+ * Map-backed store with the same semantics as `DrizzleYouTubeStore`,
+ * for unit tests and hosts that run the indexer without Postgres
+ */
+export class InMemoryYouTubeStore implements YouTubeStore {
+  readonly channelRows = new Map<string, YouTubeChannel>();
+  readonly videoRows = new Map<string, YouTubeVideo>();
+  readonly chunkRows = new Map<string, TranscriptChunk>();
+  readonly keywordRows: VideoKeyword[] = [];
+  readonly indexStatusRows: ChannelIndexStatus[] = [];
+  readonly searchQueryRows: SearchQuery[] = [];
+  readonly jobRows = new Map<string, IndexingJob>();
+  readonly collectionRows = new Map<string, ChannelCollection>();
+  readonly collectionMemberRows: { collectionId: string; channelId: string }[] =
+    [];
+
+  readonly channels: ChannelRepository = {
+    findById: async (id) => this.channelRows.get(id) ?? null,
+
+    findByChannelId: async (channelId) => this.findChannel(channelId),
+
+    upsert: async ({ channelId, channelName, channelUrl, maxVideos }) => {
+      const now = new Date();
+      const existing = this.findChannel(channelId);
+      const channel: YouTubeChannel = existing
+        ? {
+            ...existing,
+            channelName,
+            channelUrl,
+            maxVideos: maxVideos === undefined ? existing.maxVideos : maxVideos,
+            updatedAt: now,
+          }
+        : {
+            id: randomUUID(),
+            channelId,
+            channelName,
+            channelUrl,
+            description: null,
+            subscriberCount: null,
+            videoCount: null,
+            thumbnailUrl: null,
+            createdAt: now,
+            updatedAt: now,
+            isIndexed: false,
+            lastIndexedAt: null,
+            syncIntervalMinutes: null,
+            lastSyncedAt: null,
+            maxVideos: maxVideos ?? null,
+          };
+      this.channelRows.set(channel.id, channel);
+      return channel;
+    },
+
+    markIndexed: async (id) => {
+      const channel = this.channelRows.get(id);
+      if (channel) {
+        const now = new Date();
+        this.channelRows.set(id, {
+          ...channel,
+          isIndexed: true,
+          lastIndexedAt: now,
+          updatedAt: now,
+        });
+      }
+    },
+
+    markSynced: async (id) => {
+      const channel = this.channelRows.get(id);
+      if (channel) {
+        const now = new Date();
+        this.channelRows.set(id, {
+          ...channel,
+          lastSyncedAt: now,
+          updatedAt: now,
+        });
+      }
+    },
+
+    setSyncInterval: async (id, minutes) => {
+      const channel = this.channelRows.get(id);
+      if (channel) {
+        this.channelRows.set(id, {
+          ...channel,
+          syncIntervalMinutes: minutes,
+          updatedAt: new Date(),
+        });
+      }
+    },
+
+    findDueForSync: async (now) =>
+      [...this.channelRows.values()].filter((channel) => {
+        if (!channel.isIndexed || channel.syncIntervalMinutes === null) {
+          return false;
+        }
+        // Channels never synced count from their initial indexing
+        const lastSync = channel.lastSyncedAt ?? channel.lastIndexedAt;
+        return (
+          !lastSync ||
+          lastSync.getTime() + channel.syncIntervalMinutes * 60_000 <=
+            now.getTime()
+        );
+      }),
+  };
+
+  readonly collections: CollectionRepository = {
+    findByName: async (name) => this.findCollection(name),
+
+    upsert: async (name, description) => {
+      const existing = this.findCollection(name);
+      if (existing && description === undefined) {
+        return existing;
+      }
+      const now = new Date();
+      const collection: ChannelCollection = existing
+        ? { ...existing, description: description ?? null, updatedAt: now }
+        : {
+            id: randomUUID(),
+            name: name.trim(),
+            description: description ?? null,
+            createdAt: now,
+            updatedAt: now,
+          };
+      this.collectionRows.set(collection.id, collection);
+      return collection;
+    },
+
+    delete: async (id) => {
+      this.collectionRows.delete(id);
+      const kept = this.collectionMemberRows.filter(
+        (row) => row.collectionId !== id
+      );
+      this.collectionMemberRows.splice(
+        0,
+        this.collectionMemberRows.length,
+        ...kept
+      );
+    },
+
+    addChannels: async (collectionId, channelDbIds) => {
+      for (const channelId of new Set(channelDbIds)) {
+        const isMember = this.collectionMemberRows.some(
+          (row) =>
+            row.collectionId === collectionId && row.channelId === channelId
+        );
+        if (!isMember) {
+          this.collectionMemberRows.push({ collectionId, channelId });
+        }
+      }
+    },
+
+    removeChannels: async (collectionId, channelDbIds) => {
+      const kept = this.collectionMemberRows.filter(
+        (row) =>
+          row.collectionId !== collectionId ||
+          !channelDbIds.includes(row.channelId)
+      );
+      this.collectionMemberRows.splice(
+        0,
+        this.collectionMemberRows.length,
+        ...kept
+      );
+    },
+
+    findChannels: async (collectionId) => this.collectionChannels(collectionId),
+
+    list: async () =>
+      [...this.collectionRows.values()]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((collection) => ({
+          collection,
+          channels: this.collectionChannels(collection.id),
+        })),
+  };
+
+  readonly videos: VideoRepository = {
+    findById: async (id) => this.videoRows.get(id) ?? null,
+
+    findByVideoId: async (videoId) =>
+      [...this.videoRows.values()].find((row) => row.videoId === videoId) ??
+      null,
+
+    findByChannel: async (channelDbId) =>
+      [...this.videoRows.values()].filter(
+        (video) => video.channelId === channelDbId
+      ),
+
+    findWithChannels: async (ids) =>
+      ids.flatMap((id) => {
+        const video = this.videoRows.get(id);
+        const channel = video ? this.channelRows.get(video.channelId) : null;
+        return video && channel ? [{ video, channel }] : [];
+      }),
+
+    countByChannel: async (channelDbId) =>
+      [...this.videoRows.values()].filter(
+        (video) => video.channelId === channelDbId
+      ).length,
+
+    countTranscriptMentions: async (channelDbId, phrases, excludeVideoDbId) => {
+      // Chunk texts per video, as the Drizzle store counts over chunks
+      const transcripts = new Map<string, string[]>();
+      for (const chunk of this.chunkRows.values()) {
+        const video = this.videoRows.get(chunk.videoId);
+        if (video?.channelId !== channelDbId || video.id === excludeVideoDbId) {
+          continue;
+        }
+        transcripts.set(video.id, [
+          ...(transcripts.get(video.id) ?? []),
+          chunk.content,
+        ]);
+      }
+      return {
+        transcripts: transcripts.size,
+        mentions: phrases.map((phrase) => {
+          const pattern = new RegExp(
+            `(?<![\\p{L}\\p{N}])${escapeRegex(phrase)}(?![\\p{L}\\p{N}])`,
+            "iu"
+          );
+          return {
+            phrase,
+            count: [...transcripts.values()].filter((chunks) =>
+              chunks.some((content) => pattern.test(content))
+            ).length,
+          };
+        }),
+      };
+    },
+
+    upsert: async (video) => {
+      const now = new Date();
+      const existing = [...this.videoRows.values()].find(
+        (row) => row.videoId === video.videoId
+      );
+      const record: YouTubeVideo = {
+        id: existing?.id ?? randomUUID(),
+        channelId: existing?.channelId ?? video.channelId,
+        videoId: video.videoId,
+        title: video.title,
+        description: video.description ?? null,
+        publishedAt: video.publishedAt,
+        duration: video.duration ?? null,
+        viewCount: video.viewCount ?? null,
+        likeCount: video.likeCount ?? null,
+        thumbnailUrl: video.thumbnailUrl ?? null,
+        videoUrl: video.videoUrl,
+        transcript: video.transcript ?? null,
+        transcriptLength: video.transcriptLength ?? null,
+        isTranscriptAvailable: video.isTranscriptAvailable ?? false,
+        transcriptSegments:
+          video.transcriptSegments ?? existing?.transcriptSegments ?? null,
+        indexingStage: video.indexingStage ?? existing?.indexingStage ?? null,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      this.videoRows.set(record.id, record);
+      return record;
+    },
+
+    update: async (id, changes) => {
+      const existing = this.videoRows.get(id);
+      if (!existing) {
+        throw new Error(`Video ${id} not found`);
+      }
+      const record: YouTubeVideo = {
+        ...existing,
+        ...changes,
+        id,
+        updatedAt: new Date(),
+      };
+      this.videoRows.set(id, record);
+      return record;
+    },
+  };
+
+  readonly chunks: ChunkRepository = {
+    insertMany: async (chunks) =>
+      chunks.map((chunk) => {
+        const record: TranscriptChunk = {
+          id: randomUUID(),
+          videoId: chunk.videoId,
+          chunkIndex: chunk.chunkIndex,
+          content: chunk.content,
+          startTime: chunk.startTime,
+          endTime: chunk.endTime,
+          tokenCount: chunk.tokenCount,
+          embedding: chunk.embedding ?? null,
+          embeddingModel: chunk.embeddingModel ?? null,
+          embeddingError: chunk.embeddingError ?? null,
+          embeddingAttempts: chunk.embeddingAttempts ?? 0,
+          createdAt: new Date(),
+        };
+        this.chunkRows.set(record.id, record);
+        return record;
+      }),
+
+    findByVideo: async (videoDbId) =>
+      [...this.chunkRows.values()]
+        .filter((chunk) => chunk.videoId === videoDbId)
+        .sort((a, b) => a.chunkIndex - b.chunkIndex),
+
+    deleteByVideo: async (videoDbId) => {
+      await this.keywords.deleteByVideo(videoDbId);
+      for (const [id, chunk] of this.chunkRows) {
+        if (chunk.videoId === videoDbId) {
+          this.chunkRows.delete(id);
+        }
+      }
+    },
+
+    setEmbedding: async (id, embedding, model) => {
+      const chunk = this.chunkRows.get(id);
+      if (chunk) {
+        this.chunkRows.set(id, {
+          ...chunk,
+          embedding,
+          embeddingModel: model,
+          embeddingError: null,
+          embeddingAttempts: chunk.embeddingAttempts + 1,
+        });
+      }
+    },
+
+    recordEmbeddingFailure: async (id, reason) => {
+      const chunk = this.chunkRows.get(id);
+      if (chunk) {
+        this.chunkRows.set(id, {
+          ...chunk,
+          embeddingError: reason,
+          embeddingAttempts: chunk.embeddingAttempts + 1,
+        });
+      }
+    },
+
+    findSimilar: async ({ embedding, model, limit, threshold, ...filters }) =>
+      [...this.chunkRows.values()]
+        .filter((chunk) => chunk.embedding !== null)
+        .filter((chunk) => chunk.embeddingModel === model)
+        .filter((chunk) => this.chunkMatchesFilters(chunk, filters))
+        .map((chunk) => ({
+          chunk,
+          similarity: cosineSimilarity(chunk.embedding ?? [], embedding),
+        }))
+        .filter(({ similarity }) => similarity > threshold)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, limit),
+
+    searchText: async ({ query, limit, ...filters }) => {
+      const { terms, phrases, excluded } = parseTextQuery(query);
+      if (terms.length === 0 && phrases.length === 0) {
+        return [];
+      }
+
+      return [...this.chunkRows.values()]
+        .filter((chunk) => this.chunkMatchesFilters(chunk, filters))
+        .flatMap((chunk) => {
+          const content = chunk.content.toLowerCase();
+          const words = content.split(TEXT_SPLIT_REGEX);
+          // Every term and phrase must occur, as with websearch_to_tsquery
+          if (
+            !terms.every((term) => words.includes(term)) ||
+            !phrases.every((phrase) => content.includes(phrase)) ||
+            excluded.some((term) => words.includes(term))
+          ) {
+            return [];
+          }
+          const hits = words.filter((word) => terms.includes(word)).length;
+          const score = hits + phrases.length;
+          return [{ chunk, rank: score / (score + 1) }];
+        })
+        .sort((a, b) => b.rank - a.rank || a.chunk.id.localeCompare(b.chunk.id))
+        .slice(0, limit);
+    },
+
+    findStale: async (model, limit) =>
+      [...this.chunkRows.values()]
+        .filter((chunk) => !chunk.embedding || chunk.embeddingModel !== model)
+        .slice(0, limit),
+
+    findEmbeddingFailures: async (limit) =>
+      [...this.chunkRows.values()]
+        .filter((chunk) => chunk.embeddingError !== null)
+        .slice(0, limit),
+
+    countByEmbeddingModel: async () => {
+      const counts = new Map<string | null, number>();
+      for (const chunk of this.chunkRows.values()) {
+        const model = chunk.embedding ? chunk.embeddingModel : null;
+        counts.set(model, (counts.get(model) ?? 0) + 1);
+      }
+      return [...counts].map(([model, count]) => ({ model, count }));
+    },
+  };
+
+  readonly keywords: KeywordRepository = {
+    insertMany: async (keywords) => {
+      for (const keyword of keywords) {
+        this.keywordRows.push({
+          id: randomUUID(),
+          videoId: keyword.videoId,
+          chunkId: keyword.chunkId ?? null,
+          keyword: keyword.keyword,
+          entityType: keyword.entityType ?? null,
+          confidence: keyword.confidence,
+          frequency: keyword.frequency ?? 1,
+          relevance: keyword.relevance,
+          embedding: keyword.embedding ?? null,
+          createdAt: new Date(),
+        });
+      }
+    },
+
+    deleteByVideo: async (videoDbId) => {
+      const kept = this.keywordRows.filter(
+        (keyword) => keyword.videoId !== videoDbId
+      );
+      this.keywordRows.splice(0, this.keywordRows.length, ...kept);
+    },
+
+    findByVideo: async (videoDbId) =>
+      this.keywordRows
+        .filter((keyword) => keyword.videoId === videoDbId)
+        .sort((a, b) => b.relevance - a.relevance),
+
+    findChunkMatches: async ({ keywords, limit, ...filters }) =>
+      this.keywordRows
+        .filter((row) => matchesAnyKeyword(row.keyword, keywords))
+        .flatMap((row) => {
+          const chunk = row.chunkId ? this.chunkRows.get(row.chunkId) : null;
+          return chunk && this.chunkMatchesFilters(chunk, filters)
+            ? [{ chunk, keyword: row.keyword, confidence: row.confidence }]
+            : [];
+        })
+        .sort((a, b) => b.confidence - a.confidence)
+        .slice(0, limit),
+
+    findInChunks: async (chunkIds, keywords) =>
+      this.keywordRows.flatMap(({ chunkId, keyword }) =>
+        chunkId &&
+        chunkIds.includes(chunkId) &&
+        matchesAnyKeyword(keyword, keywords)
+          ? [{ chunkId, keyword }]
+          : []
+      ),
+  };
+
+  readonly indexStatus: IndexStatusRepository = {
+    start: async (channelDbId, jobId) => {
+      for (const [index, row] of this.indexStatusRows.entries()) {
+        if (
+          jobId &&
+          row.channelId === channelDbId &&
+          row.jobId === jobId &&
+          row.status !== "completed" &&
+          row.status !== "failed"
+        ) {
+          this.indexStatusRows[index] = {
+            ...row,
+            status: "failed",
+            errorMessage: SUPERSEDED_RUN_ERROR,
+          };
+        }
+      }
+
+      const now = new Date();
+      const created: ChannelIndexStatus = {
+        id: randomUUID(),
+        channelId: channelDbId,
+        status: "pending",
+        progress: 0,
+        totalVideos: 0,
+        processedVideos: 0,
+        totalChunks: 0,
+        processedChunks: 0,
+        errorMessage: null,
+        jobId: jobId ?? null,
+        startedAt: now,
+        completedAt: null,
+        createdAt: now,
+      };
+      this.indexStatusRows.push(created);
+      return created;
+    },
+
+    update: async (runId, update) => {
+      const run = this.indexStatusRows.find((row) => row.id === runId);
+      if (!run) {
+        return;
+      }
+      this.indexStatusRows[this.indexStatusRows.indexOf(run)] = {
+        ...run,
+        status: update.status,
+        progress: update.progress,
+        totalVideos: update.totalVideos,
+        processedVideos: update.processedVideos,
+        errorMessage: update.errorMessage ?? run.errorMessage,
+        completedAt:
+          update.status === "completed" ? new Date() : run.completedAt,
+      };
+    },
+
+    recordVideoProcessed: async (runId) => {
+      const run = this.indexStatusRows.find((row) => row.id === runId);
+      if (!run || run.status === "failed") {
+        return null;
+      }
+      const processedVideos = run.processedVideos + 1;
+      const updated: ChannelIndexStatus = {
+        ...run,
+        processedVideos,
+        progress: Math.min(
+          100,
+          10 + Math.floor((processedVideos * 90) / Math.max(run.totalVideos, 1))
+        ),
+      };
+      this.indexStatusRows[this.indexStatusRows.indexOf(run)] = updated;
+      return updated;
+    },
+  };
+
+  readonly searchQueries: SearchQueryRepository = {
+    log: async (query) => {
+      this.searchQueryRows.push({
+        id: randomUUID(),
+        channelId: query.channelId,
+        query: query.query,
+        queryEmbedding: query.queryEmbedding ?? null,
+        embeddingModel: query.embeddingModel ?? null,
+        resultsCount: query.resultsCount ?? 0,
+        executionTime: query.executionTime ?? null,
+        createdAt: new Date(),
+      });
+    },
+  };
+
+  readonly jobs: JobRepository = {
+    enqueue: async (job) => {
+      const active = [...this.jobRows.values()].find(
+        (row) =>
+          job.dedupeKey &&
+          row.dedupeKey === job.dedupeKey &&
+          (row.status === "queued" || row.status === "running")
+      );
+      if (active) {
+        return active;
+      }
+
+      const now = new Date();
+      const created: IndexingJob = {
+        id: randomUUID(),
+        type: job.type,
+        payload: job.payload,
+        dedupeKey: job.dedupeKey ?? null,
+        status: "queued",
+        attempts: 0,
+        maxAttempts: job.maxAttempts ?? 3,
+        runAt: job.runAt ?? now,
+        lockedBy: null,
+        heartbeatAt: null,
+        lastError: null,
+        result: null,
+        createdAt: now,
+        updatedAt: now,
+        completedAt: null,
+      };
+      this.jobRows.set(created.id, created);
+      return created;
+    },
+
+    findById: async (id) => this.jobRows.get(id) ?? null,
+
+    claim: async (workerId, staleBefore) => {
+      const now = new Date();
+      const [next] = [...this.jobRows.values()]
+        .filter(
+          (job) =>
+            (job.status === "queued" && job.runAt <= now) ||
+            (job.status === "running" &&
+              job.heartbeatAt !== null &&
+              job.heartbeatAt < staleBefore)
+        )
+        .sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+      if (!next) {
+        return null;
+      }
+
+      const claimed: IndexingJob = {
+        ...next,
+        status: "running",
+        attempts: next.attempts + 1,
+        lockedBy: workerId,
+        heartbeatAt: now,
+        updatedAt: now,
+      };
+      this.jobRows.set(claimed.id, claimed);
+      return claimed;
+    },
+
+    heartbeat: async (id, workerId) => {
+      const job = this.ownedJob(id, workerId);
+      if (!job) {
+        return false;
+      }
+      const now = new Date();
+      this.jobRows.set(id, { ...job, heartbeatAt: now, updatedAt: now });
+      return true;
+    },
+
+    complete: async (id, workerId, result) => {
+      const job = this.ownedJob(id, workerId);
+      if (job) {
+        const now = new Date();
+        this.jobRows.set(id, {
+          ...job,
+          status: "completed",
+          result,
+          lastError: null,
+          lockedBy: null,
+          updatedAt: now,
+          completedAt: now,
+        });
+      }
+    },
+
+    fail: async (id, workerId, error, retryAt) => {
+      const job = this.ownedJob(id, workerId);
+      if (job) {
+        const now = new Date();
+        this.jobRows.set(id, {
+          ...job,
+          status: retryAt ? "queued" : "failed",
+          runAt: retryAt ?? job.runAt,
+          lastError: error,
+          lockedBy: null,
+          updatedAt: now,
+          completedAt: retryAt ? null : now,
+        });
+      }
+    },
+
+    countByStatus: async () => {
+      const counts = new Map<IndexingJob["status"], number>();
+      for (const job of this.jobRows.values()) {
+        counts.set(job.status, (counts.get(job.status) ?? 0) + 1);
+      }
+      return [...counts].map(([status, count]) => ({ status, count }));
+    },
+
+    findRecent: async (limit) =>
+      [...this.jobRows.values()]
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(0, limit),
+
+    countVideoJobsByRuns: async (runIds) => {
+      const counts = new Map<string, VideoJobStatusCount>();
+      for (const job of this.latestVideoJobs(runIds)) {
+        const indexingStage =
+          (job.result?.indexingStage as string | null | undefined) ?? null;
+        const key = `${job.status}:${indexingStage}`;
+        const entry = counts.get(key) ?? {
+          status: job.status,
+          indexingStage,
+          count: 0,
+        };
+        entry.count++;
+        counts.set(key, entry);
+      }
+      return [...counts.values()];
+    },
+
+    findVideoJobsByRuns: async (runIds, limit) =>
+      this.latestVideoJobs(runIds)
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+        .slice(0, limit),
+  };
+
+  private latestVideoJobs(runIds: string[]): IndexingJob[] {
+    // Rows are kept in insertion order, so later jobs replace earlier ones
+    const latest = new Map<string, IndexingJob>();
+    for (const row of this.jobRows.values()) {
+      if (
+        row.type === "index_video" &&
+        row.dedupeKey &&
+        runIds.includes(row.payload.runId as string)
+      ) {
+        latest.set(row.dedupeKey, row);
+      }
+    }
+    return [...latest.values()];
+  }
+
+  private findCollection(name: string): ChannelCollection | null {
+    const wanted = name.trim().toLowerCase();
+    for (const collection of this.collectionRows.values()) {
+      if (collection.name.toLowerCase() === wanted) {
+        return collection;
+      }
+    }
+    return null;
+  }
+
+  private collectionChannels(collectionId: string): YouTubeChannel[] {
+    return this.collectionMemberRows
+      .filter((row) => row.collectionId === collectionId)
+      .flatMap((row) => this.channelRows.get(row.channelId) ?? [])
+      .sort((a, b) => a.channelName.localeCompare(b.channelName));
+  }
+
+  private findChannel(channelId: string): YouTubeChannel | null {
+    for (const channel of this.channelRows.values()) {
+      if (channel.channelId === channelId) {
+        return channel;
+      }
+    }
+    return null;
+  }
+
+  private ownedJob(id: string, workerId: string): IndexingJob | null {
+    const job = this.jobRows.get(id);
+    return job?.status === "running" && job.lockedBy === workerId ? job : null;
+  }
+
+  // Mirrors the SQL filters, where a null column never matches a bound
+  private chunkMatchesFilters(
+    chunk: TranscriptChunk,
+    {
+      channelDbIds,
+      publishedAfter,
+      publishedBefore,
+      minDuration,
+      maxDuration,
+      minViews,
+      videoIds,
+      entityType,
+    }: ChunkFilters
+  ): boolean {
+    const video = this.videoRows.get(chunk.videoId);
+    if (!video) {
+      return false;
+    }
+
+    const inRange = (value: number | null, min?: number, max?: number) =>
+      (min === undefined || (value !== null && value >= min)) &&
+      (max === undefined || (value !== null && value <= max));
+
+    if (
+      (channelDbIds?.length && !channelDbIds.includes(video.channelId)) ||
+      (publishedAfter && video.publishedAt < publishedAfter) ||
+      (publishedBefore && video.publishedAt >= publishedBefore) ||
+      !inRange(video.duration, minDuration, maxDuration) ||
+      !inRange(video.viewCount, minViews) ||
+      (videoIds?.length && !videoIds.includes(video.videoId))
+    ) {
+      return false;
+    }
+
+    if (entityType) {
+      const labels = entityTypeLabels(entityType);
+      return this.keywordRows.some(
+        (keyword) =>
+          keyword.chunkId === chunk.id &&
+          keyword.entityType !== null &&
+          labels.includes(keyword.entityType)
+      );
+    }
+    return true;
+  }
+}
+
+function matchesAnyKeyword(value: string, keywords: string[]): boolean {
+  const lowered = value.toLowerCase();
+  return keywords.some((keyword) => lowered.includes(keyword.toLowerCase()));
+}
+
+// Splits web search syntax into plain terms, "quoted phrases" and -excluded terms
+function parseTextQuery(query: string): {
+  terms: string[];
+  phrases: string[];
+  excluded: string[];
+} {
+  const lowered = query.toLowerCase();
+  const phrases = [...lowered.matchAll(QUOTED_PHRASE_REGEX)]
+    .map((match) => match[1].trim())
+    .filter(Boolean);
+  const unquoted = lowered.replace(QUOTED_PHRASE_REGEX, " ");
+  const excluded = [...unquoted.matchAll(EXCLUDED_TERM_REGEX)].flatMap(
+    (match) => match[1].split(TEXT_SPLIT_REGEX).filter(Boolean)
+  );
+  const terms = unquoted
+    .replace(EXCLUDED_TERM_REGEX, " ")
+    .split(TEXT_SPLIT_REGEX)
+    .filter(Boolean);
+  return { terms, phrases, excluded };
+}
@@ -0,0 +1,165 @@
+import { sql } from "drizzle-orm";
+import { getTableConfig, type PgTable } from "drizzle-orm/pg-core";
+import {
+  channelCollection,
+  channelCollectionMember,
+  channelIndexStatus,
+  indexingJob,
+  searchQuery,
+  transcriptChunk,
+  videoKeyword,
+  youtubeChannel,
+  youtubeVideo,
+} from "../types/youtube-schema";
+import type { YouTubeDatabase } from "./drizzle-store";
+
+export type SchemaDriftIssue = {
+  table: string;
+  column?: string;
+  kind:
+    | "missing_table"
+    | "missing_column"
+    | "unexpected_column"
+    | "type_mismatch"
+    | "nullability_mismatch";
+  expected?: string;
+  actual?: string;
+};
+
+export type SchemaDriftReport = {
+  ok: boolean;
+  issues: SchemaDriftIssue[];
+};
+
+type DeployedColumn = {
+  table_name: string;
+  column_name: string;
+  column_type: string;
+  not_null: boolean;
+};
+
+export const youtubeTables: PgTable[] = [
+  youtubeChannel,
+  youtubeVideo,
+  transcriptChunk,
+  videoKeyword,
+  channelIndexStatus,
+  searchQuery,
+  indexingJob,
+  channelCollection,
+  channelCollectionMember,
+];
+
+/**
+ * Compares the deployed YouTube tables against the indexer's typed Drizzle
+ * model and reports every column whose type or nullability disagrees.
+ */
+export async function checkSchemaDrift(
+  db: YouTubeDatabase
+): Promise<SchemaDriftReport> {
+  const configs = youtubeTables.map((table) => getTableConfig(table));
+  const tableNames = configs.map((config) => config.name);
+
+  const rows = await db.execute<DeployedColumn>(sql`
+    SELECT
+      c.relname AS table_name,
+      a.attname AS column_name,
+      format_type(a.atttypid, a.atttypmod) AS column_type,
+      a.attnotnull AS not_null
+    FROM pg_attribute a
+    JOIN pg_class c ON a.attrelid = c.oid
+    JOIN pg_namespace n ON c.relnamespace = n.oid
+    WHERE n.nspname = 'public'
+      AND c.relkind = 'r'
+      AND c.relname IN ${tableNames}
+      AND a.attnum > 0
+      AND NOT a.attisdropped
+  `);
+
+  const deployed = new Map<string, Map<string, DeployedColumn>>();
+  for (const row of rows) {
+    const columns = deployed.get(row.table_name) ?? new Map();
+    columns.set(row.column_name, row);
+    deployed.set(row.table_name, columns);
+  }
+
+  const issues: SchemaDriftIssue[] = [];
+
+  for (const config of configs) {
+    const deployedColumns = deployed.get(config.name);
+    if (!deployedColumns) {
+      issues.push({ table: config.name, kind: "missing_table" });
+      continue;
+    }
+
+    for (const column of config.columns) {
+      const actual = deployedColumns.get(column.name);
+      if (!actual) {
+        issues.push({
+          table: config.name,
+          column: column.name,
+          kind: "missing_column",
+          expected: column.getSQLType(),
+        });
+        continue;
+      }
+
+      const expectedType = column.getSQLType();
+      const actualType = normalizeColumnType(actual.column_type);
+      if (expectedType !== actualType) {
+        issues.push({
+          table: config.name,
+          column: column.name,
+          kind: "type_mismatch",
+          expected: expectedType,
+          actual: actualType,
+        });
+      }
+
+      if (column.notNull !== actual.not_null) {
+        issues.push({
+          table: config.name,
+          column: column.name,
+          kind: "nullability_mismatch",
+          expected: column.notNull ? "NOT NULL" : "NULL",
+          actual: actual.not_null ? "NOT NULL" : "NULL",
+        });
+      }
+    }
+
+    const modelColumns = new Set(config.columns.map((column) => column.name));
+    for (const columnName of deployedColumns.keys()) {
+      if (!modelColumns.has(columnName)) {
+        issues.push({
+          table: config.name,
+          column: columnName,
+          kind: "unexpected_column",
+          actual: deployedColumns.get(columnName)?.column_type,
+        });
+      }
+    }
+  }
+
+  return { ok: issues.length === 0, issues };
+}
+
+export function formatSchemaDriftIssue(issue: SchemaDriftIssue): string {
+  const target = issue.column ? `${issue.table}.${issue.column}` : issue.table;
+  switch (issue.kind) {
+    case "missing_table":
+      return `${target}: table is missing`;
+    case "missing_column":
+      return `${target}: column is missing (expected ${issue.expected})`;
+    case "unexpected_column":
+      return `${target}: column is not in the typed model (${issue.actual})`;
+    default:
+      return `${target}: expected ${issue.expected}, found ${issue.actual}`;
+  }
+}
+
+function normalizeColumnType(type: string): string {
+  // Map Postgres' format_type() spelling onto Drizzle's getSQLType() spelling
+  return type
+    .replace("character varying", "varchar")
+    .replace("timestamp without time zone", "timestamp");
+}
@@ -0,0 +1,249 @@
+import type {
+  ChannelCollection,
+  ChannelIndexStatus,
+  IndexingJob,
+  KeywordEntityType,
+  NewIndexingJob,
+  NewSearchQuery,
+  NewTranscriptChunk,
+  NewVideoKeyword,
+  NewYouTubeVideo,
+  TranscriptChunk,
+  VideoKeyword,
+  YouTubeChannel,
+  YouTubeVideo,
+} from "../types/youtube-schema";
+
+/**
+ * Storage contracts used by the indexer and search services.
+ * `DrizzleYouTubeStore` backs them with Postgres; `InMemoryYouTubeStore`
+ * keeps everything in maps for tests and hosts without a database.
+ */
+
+export type ChannelDetails = {
+  channelId: string; // YouTube handle or channel ID
+  channelName: string;
+  channelUrl: string;
+  // Newest uploads to index, null for all; left as stored when undefined
+  maxVideos?: number | null;
+};
+
+export type ChannelRepository = {
+  findById(id: string): Promise<YouTubeChannel | null>;
+  findByChannelId(channelId: string): Promise<YouTubeChannel | null>;
+  upsert(details: ChannelDetails): Promise<YouTubeChannel>;
+  markIndexed(id: string): Promise<void>;
+  markSynced(id: string): Promise<void>;
+  // null stops scheduled syncs for the channel
+  setSyncInterval(id: string, minutes: number | null): Promise<void>;
+  // Indexed channels whose sync interval has passed since their last sync
+  findDueForSync(now: Date): Promise<YouTubeChannel[]>;
+};
+
+export type VideoWithChannel = {
+  video: YouTubeVideo;
+  channel: YouTubeChannel;
+};
+
+export type VideoRepository = {
+  findById(id: string): Promise<YouTubeVideo | null>;
+  findByVideoId(videoId: string): Promise<YouTubeVideo | null>;
+  findByChannel(channelDbId: string): Promise<YouTubeVideo[]>;
+  // Videos with their channels in one query; unknown ids are skipped
+  findWithChannels(ids: string[]): Promise<VideoWithChannel[]>;
+  countByChannel(channelDbId: string): Promise<number>;
+  // How many of the channel's chunked transcripts, other than the excluded
+  // video's, contain each phrase as whole words, ignoring case
+  countTranscriptMentions(
+    channelDbId: string,
+    phrases: string[],
+    excludeVideoDbId?: string
+  ): Promise<TranscriptMentionCounts>;
+  upsert(video: NewYouTubeVideo): Promise<YouTubeVideo>;
+  update(id: string, changes: Partial<NewYouTubeVideo>): Promise<YouTubeVideo>;
+};
+
+export type TranscriptMentionCounts = {
+  transcripts: number; // channel videos with transcript chunks
+  mentions: { phrase: string; count: number }[]; // in phrase order
+};
+
+export type SimilarChunk = {
+  chunk: TranscriptChunk;
+  similarity: number; // cosine similarity, 0-1
+};
+
+// Restricts chunk queries; a chunk must pass every filter that is set
+export type ChunkFilters = {
+  channelDbIds?: string[]; // any of these channels
+  publishedAfter?: Date; // inclusive
+  publishedBefore?: Date; // exclusive
+  minDuration?: number; // seconds
+  maxDuration?: number; // seconds
+  minViews?: number;
+  videoIds?: string[]; // YouTube video ids
+  entityType?: KeywordEntityType; // chunk has a keyword of this type
+};
+
+export type SimilarChunkQuery = ChunkFilters & {
+  embedding: number[];
+  model: string; // only vectors from the same model are comparable
+  limit: number;
+  threshold: number;
+  efSearch?: number; // HNSW candidate list size; higher trades speed for recall
+  probes?: number; // IVFFlat lists scanned; higher trades speed for recall
+};
+
+export type TextMatchChunk = {
+  chunk: TranscriptChunk;
+  rank: number; // full-text rank, 0-1
+};
+
+export type TextMatchQuery = ChunkFilters & {
+  query: string; // web search syntax: quoted phrases, -excluded terms
+  limit: number;
+};
+
+export type EmbeddingModelCount = {
+  model: string | null; // null counts chunks without an embedding
+  count: number;
+};
+
+export type ChunkRepository = {
+  insertMany(chunks: NewTranscriptChunk[]): Promise<TranscriptChunk[]>;
+  findByVideo(videoDbId: string): Promise<TranscriptChunk[]>;
+  // Removes the video's chunks together with their keywords
+  deleteByVideo(videoDbId: string): Promise<void>;
+  // Stores the vector and clears any earlier failure reason
+  setEmbedding(id: string, embedding: number[], model: string): Promise<void>;
+  recordEmbeddingFailure(id: string, reason: string): Promise<void>;
+  findSimilar(query: SimilarChunkQuery): Promise<SimilarChunk[]>;
+  // Full-text search over chunk content, best rank first, ties by id
+  searchText(query: TextMatchQuery): Promise<TextMatchChunk[]>;
+  // Chunks with no embedding, or one produced by a different model
+  findStale(model: string, limit: number): Promise<TranscriptChunk[]>;
+  // Chunks whose last embedding attempt failed
+  findEmbeddingFailures(limit: number): Promise<TranscriptChunk[]>;
+  countByEmbeddingModel(): Promise<EmbeddingModelCount[]>;
+};
+
+export type KeywordMatch = {
+  chunk: TranscriptChunk;
+  keyword: string;
+  confidence: number;
+};
+
+export type KeywordMatchQuery = ChunkFilters & {
+  keywords: string[];
+  limit: number;
+};
+
+export type ChunkKeyword = {
+  chunkId: string;
+  keyword: string;
+};
+
+export type KeywordRepository = {
+  insertMany(keywords: NewVideoKeyword[]): Promise<void>;
+  deleteByVideo(videoDbId: string): Promise<void>;
+  // Video-level and chunk-level keywords of the video, most relevant first
+  findByVideo(videoDbId: string): Promise<VideoKeyword[]>;
+  // Keyword rows whose text contains any of the terms, best confidence first
+  findChunkMatches(query: KeywordMatchQuery): Promise<KeywordMatch[]>;
+  // Keywords attached to any of the chunks that contain any of the terms
+  findInChunks(chunkIds: string[], keywords: string[]): Promise<ChunkKeyword[]>;
+};
+
+export type IndexStatusUpdate = {
+  status: ChannelIndexStatus["status"];
+  progress: number;
+  totalVideos: number;
+  processedVideos: number;
+  errorMessage?: string;
+};
+
+// Recorded on runs that a retry of the job that started them replaced
+export const SUPERSEDED_RUN_ERROR =
+  "Superseded by a retry of the job that started the run";
+
+export type IndexStatusRepository = {
+  // Always starts a new run. Unfinished runs of the channel that the same
+  // job started on an earlier attempt are marked failed, never reused
+  start(channelDbId: string, jobId?: string): Promise<ChannelIndexStatus>;
+  update(runId: string, update: IndexStatusUpdate): Promise<void>;
+  // Atomically counts one more finished video on the run; null for failed
+  // runs, so a superseded run is never completed
+  recordVideoProcessed(runId: string): Promise<ChannelIndexStatus | null>;
+};
+
+export type SearchQueryRepository = {
+  log(query: NewSearchQuery): Promise<void>;
+};
+
+export type JobStatusCount = {
+  status: IndexingJob["status"];
+  count: number;
+};
+
+export type VideoJobStatusCount = JobStatusCount & {
+  // Stage recorded in the result of a completed video job
+  indexingStage: string | null;
+};
+
+export type JobRepository = {
+  // Returns the queued or running job with the same dedupe key, if any
+  enqueue(job: NewIndexingJob): Promise<IndexingJob>;
+  findById(id: string): Promise<IndexingJob | null>;
+  // Locks the oldest due job, or a running job last heartbeat before staleBefore
+  claim(workerId: string, staleBefore: Date): Promise<IndexingJob | null>;
+  // False once the job is no longer locked by this worker
+  heartbeat(id: string, workerId: string): Promise<boolean>;
+  complete(
+    id: string,
+    workerId: string,
+    result: Record<string, unknown>
+  ): Promise<void>;
+  // Requeues the job at retryAt, or fails it for good when retryAt is null
+  fail(
+    id: string,
+    workerId: string,
+    error: string,
+    retryAt: Date | null
+  ): Promise<void>;
+  countByStatus(): Promise<JobStatusCount[]>;
+  findRecent(limit: number): Promise<IndexingJob[]>;
+  // Video jobs count only their newest job per video in each run
+  countVideoJobsByRuns(runIds: string[]): Promise<VideoJobStatusCount[]>;
+  // The most recently updated video jobs of the runs
+  findVideoJobsByRuns(runIds: string[], limit: number): Promise<IndexingJob[]>;
+};
+
+export type CollectionWithChannels = {
+  collection: ChannelCollection;
+  channels: YouTubeChannel[];
+};
+
+export type CollectionRepository = {
+  // Names are matched case-insensitively
+  findByName(name: string): Promise<ChannelCollection | null>;
+  // Creates the collection, or updates the description of an existing one
+  upsert(name: string, description?: string | null): Promise<ChannelCollection>;
+  delete(id: string): Promise<void>;
+  // Adding a member twice is a no-op
+  addChannels(collectionId: string, channelDbIds: string[]): Promise<void>;
+  removeChannels(collectionId: string, channelDbIds: string[]): Promise<void>;
+  findChannels(collectionId: string): Promise<YouTubeChannel[]>;
+  // Every collection with its channels, by name
+  list(): Promise<CollectionWithChannels[]>;
+};
+
+export type YouTubeStore = {
+  channels: ChannelRepository;
+  collections: CollectionRepository;
+  videos: VideoRepository;
+  chunks: ChunkRepository;
+  keywords: KeywordRepository;
+  indexStatus: IndexStatusRepository;
+  searchQueries: SearchQueryRepository;
+  jobs: JobRepository;
+};
@@ -0,0 +1,176 @@
+import type { YouTubeStore } from "../db/store";
+import type { TranscriptChunk } from "../types/youtube-schema";
+import {
+  type EmbeddingProvider,
+  EmbeddingRequestError,
+} from "./embedding-provider";
+
+export type EmbeddingPipelineOptions = {
+  batchSize?: number; // inputs per provider request
+  maxRetries?: number; // retries per request after the first attempt
+  baseDelayMs?: number; // first backoff delay, doubled on every retry
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+export type EmbeddingFailure = {
+  chunkId: string;
+  reason: string;
+};
+
+export type EmbeddingRunResult = {
+  embedded: number;
+  failed: EmbeddingFailure[];
+};
+
+type EmbeddableChunk = Pick<TranscriptChunk, "id" | "content">;
+
+const DEFAULT_BATCH_SIZE = 64;
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 60_000;
+
+/**
+ * Embeds chunks in batches and writes the vectors through the store.
+ * Rate limits and transient errors are retried with exponential backoff,
+ * honouring `Retry-After`. When a batch still fails, its chunks are retried
+ * one by one so the failure reason is recorded on exactly the chunks that
+ * could not be embedded.
+ */
+export class EmbeddingPipeline {
+  private readonly store: YouTubeStore;
+  private readonly embeddings: EmbeddingProvider;
+  private readonly batchSize: number;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(
+    store: YouTubeStore,
+    embeddings: EmbeddingProvider,
+    {
+      batchSize = DEFAULT_BATCH_SIZE,
+      maxRetries = DEFAULT_MAX_RETRIES,
+      baseDelayMs = DEFAULT_BASE_DELAY_MS,
+      maxDelayMs = DEFAULT_MAX_DELAY_MS,
+      sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+    }: EmbeddingPipelineOptions = {}
+  ) {
+    this.store = store;
+    this.embeddings = embeddings;
+    this.batchSize = Math.max(1, batchSize);
+    this.maxRetries = maxRetries;
+    this.baseDelayMs = baseDelayMs;
+    this.maxDelayMs = maxDelayMs;
+    this.sleep = sleep;
+  }
+
+  async embedChunks(chunks: EmbeddableChunk[]): Promise<EmbeddingRunResult> {
+    const result: EmbeddingRunResult = { embedded: 0, failed: [] };
+
+    for (let i = 0; i < chunks.length; i += this.batchSize) {
+      const batch = chunks.slice(i, i + this.batchSize);
+
+      try {
+        const vectors = await this.embedWithRetry(batch);
+        await this.storeVectors(batch, vectors);
+        result.embedded += batch.length;
+        continue;
+      } catch (error) {
+        if (batch.length === 1) {
+          await this.recordFailure(batch[0], error, result);
+          continue;
+        }
+        console.warn(
+          `⚠️ [EMBEDDINGS] Batch of ${batch.length} failed (${describeError(error)}), retrying chunks individually`
+        );
+      }
+
+      // Isolate the inputs that make the batch fail
+      for (const chunk of batch) {
+        try {
+          const vectors = await this.embedWithRetry([chunk]);
+          await this.storeVectors([chunk], vectors);
+          result.embedded++;
+        } catch (error) {
+          await this.recordFailure(chunk, error, result);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private async embedWithRetry(batch: EmbeddableChunk[]): Promise<number[][]> {
+    const texts = batch.map((chunk) => chunk.content);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const vectors = await this.embeddings.embed(texts);
+        if (vectors.length !== texts.length) {
+          throw new Error(
+            `Expected ${texts.length} embeddings, received ${vectors.length}`
+          );
+        }
+        return vectors;
+      } catch (error) {
+        const retryable =
+          error instanceof EmbeddingRequestError && error.retryable;
+        if (!retryable || attempt >= this.maxRetries) {
+          throw error;
+        }
+
+        const delay = this.backoffDelay(attempt, error.retryAfterMs);
+        console.log(
+          `⏳ [EMBEDDINGS] ${error.message}; retry ${attempt + 1}/${this.maxRetries} in ${Math.round(delay / 1000)}s`
+        );
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  private backoffDelay(attempt: number, retryAfterMs: number | null): number {
+    const exponential = this.baseDelayMs * 2 ** attempt;
+    // Jitter spreads out workers that were throttled at the same moment
+    const jitter = Math.random() * this.baseDelayMs;
+    return Math.min(
+      this.maxDelayMs,
+      Math.max(retryAfterMs ?? 0, exponential + jitter)
+    );
+  }
+
+  private async storeVectors(
+    batch: EmbeddableChunk[],
+    vectors: number[][]
+  ): Promise<void> {
+    for (const [index, chunk] of batch.entries()) {
+      await this.store.chunks.setEmbedding(
+        chunk.id,
+        vectors[index],
+        this.embeddings.model
+      );
+    }
+  }
+
+  private async recordFailure(
+    chunk: EmbeddableChunk,
+    error: unknown,
+    result: EmbeddingRunResult
+  ): Promise<void> {
+    const reason = describeError(error);
+    result.failed.push({ chunkId: chunk.id, reason });
+    try {
+      await this.store.chunks.recordEmbeddingFailure(chunk.id, reason);
+    } catch (storeError) {
+      console.error(
+        `❌ [EMBEDDINGS] Could not record failure for chunk ${chunk.id}:`,
+        storeError
+      );
+    }
+  }
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,121 @@
+import { HashingEmbeddingProvider } from "./hashing-provider";
+import { LocalEmbeddingProvider } from "./local-provider";
+import { OpenAIEmbeddingProvider } from "./openai-provider";
+
+// Width of the pgvector columns; shorter vectors are zero-padded on write
+export const EMBEDDING_COLUMN_DIMENSIONS = 1536;
+
+export type EmbeddingProvider = {
+  // Identifier stored next to every vector this provider produces
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+};
+
+/**
+ * A failed embedding request. `retryable` marks rate limits and transient
+ * server errors; `retryAfterMs` carries the provider's `Retry-After` hint.
+ */
+export class EmbeddingRequestError extends Error {
+  readonly status: number | null;
+  readonly retryable: boolean;
+  readonly retryAfterMs: number | null;
+
+  constructor(
+    message: string,
+    {
+      status = null,
+      retryable = false,
+      retryAfterMs = null,
+    }: {
+      status?: number | null;
+      retryable?: boolean;
+      retryAfterMs?: number | null;
+    } = {}
+  ) {
+    super(message);
+    this.name = "EmbeddingRequestError";
+    this.status = status;
+    this.retryable = retryable;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export type EmbeddingProviderName = "openai" | "local" | "hashing";
+
+export type EmbeddingProviderOptions = {
+  provider?: EmbeddingProviderName;
+  model?: string;
+  openaiApiKey?: string;
+};
+
+/**
+ * Builds the configured provider. Without an explicit choice, OpenAI is used
+ * when an API key is available and the local transformers model otherwise.
+ */
+export function createEmbeddingProvider({
+  provider,
+  model,
+  openaiApiKey = process.env.OPENAI_API_KEY,
+}: EmbeddingProviderOptions = {}): EmbeddingProvider {
+  const name =
+    provider ??
+    (process.env.EMBEDDING_PROVIDER as EmbeddingProviderName | undefined) ??
+    (openaiApiKey ? "openai" : "local");
+  const modelName = model ?? process.env.EMBEDDING_MODEL;
+
+  let embeddings: EmbeddingProvider;
+  switch (name) {
+    case "openai":
+      if (!openaiApiKey) {
+        throw new Error("OpenAI API key not found");
+      }
+      embeddings = new OpenAIEmbeddingProvider({
+        apiKey: openaiApiKey,
+        model: modelName,
+      });
+      break;
+    case "local":
+      embeddings = new LocalEmbeddingProvider({ model: modelName });
+      break;
+    case "hashing":
+      embeddings = new HashingEmbeddingProvider();
+      break;
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`);
+  }
+
+  if (embeddings.dimensions > EMBEDDING_COLUMN_DIMENSIONS) {
+    throw new Error(
+      `${embeddings.model} produces ${embeddings.dimensions}-dimensional vectors; the index holds at most ${EMBEDDING_COLUMN_DIMENSIONS}`
+    );
+  }
+
+  return embeddings;
+}
+
+/**
+ * Zero-pads a vector to the column width. Trailing zeros change neither dot
+ * products nor norms, so cosine similarity is the same as on the raw vector.
+ */
+export function padEmbedding(embedding: number[]): number[] {
+  if (embedding.length > EMBEDDING_COLUMN_DIMENSIONS) {
+    throw new Error(
+      `Embedding has ${embedding.length} dimensions; the index holds at most ${EMBEDDING_COLUMN_DIMENSIONS}`
+    );
+  }
+  if (embedding.length === EMBEDDING_COLUMN_DIMENSIONS) {
+    return embedding;
+  }
+  return embedding.concat(
+    new Array(EMBEDDING_COLUMN_DIMENSIONS - embedding.length).fill(0)
+  );
+}
+
+export async function embedText(
+  embeddings: EmbeddingProvider,
+  text: string
+): Promise<number[]> {
+  const [vector] = await embeddings.embed([text]);
+  return vector;
+}
@@ -0,0 +1,56 @@
+import type { EmbeddingProvider } from "./embedding-provider";
+
+const DEFAULT_DIMENSIONS = 256;
+
+// Move regex patterns to top level for performance
+const TOKEN_REGEX = /[\p{L}\p{N}]+/gu;
+
+type HashingEmbeddingProviderOptions = {
+  dimensions?: number;
+};
+
+/**
+ * Deterministic bag-of-words vectors built with the hashing trick. Texts that
+ * share words get similar vectors, which is enough for tests and offline
+ * development without downloading a model.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dimensions: number;
+
+  constructor({
+    dimensions = DEFAULT_DIMENSIONS,
+  }: HashingEmbeddingProviderOptions = {}) {
+    this.dimensions = dimensions;
+    this.model = `hashing-${dimensions}`;
+  }
+
+  embed(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map((text) => this.embedOne(text)));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const token of text.toLowerCase().match(TOKEN_REGEX) ?? []) {
+      const hash = fnv1a(token);
+      // The top bit picks the sign so colliding tokens tend to cancel out
+      const sign = hash & 0x80_00_00_00 ? -1 : 1;
+      vector[hash % this.dimensions] += sign;
+    }
+
+    const norm = Math.sqrt(
+      vector.reduce((sum, value) => sum + value * value, 0)
+    );
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x81_1c_9d_c5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01_00_01_93);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,51 @@
+import { pipeline } from "@xenova/transformers";
+import type { EmbeddingProvider } from "./embedding-provider";
+
+const DEFAULT_MODEL = "Xenova/all-MiniLM-L6-v2";
+
+const MODEL_DIMENSIONS: Record<string, number> = {
+  "Xenova/all-MiniLM-L6-v2": 384,
+  "Xenova/all-MiniLM-L12-v2": 384,
+  "Xenova/bge-small-en-v1.5": 384,
+  "Xenova/bge-base-en-v1.5": 768,
+  "Xenova/all-mpnet-base-v2": 768,
+};
+
+type LocalEmbeddingProviderOptions = {
+  model?: string;
+};
+
+/**
+ * Runs a sentence-embedding model in-process with transformers.js, so
+ * indexing and search work offline. The model is downloaded on first use.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dimensions: number;
+  // biome-ignore lint/suspicious/noExplicitAny: transformers.js pipelines are untyped
+  private extractor: Promise<any> | null = null;
+
+  constructor({ model = DEFAULT_MODEL }: LocalEmbeddingProviderOptions = {}) {
+    const dimensions = MODEL_DIMENSIONS[model];
+    if (!dimensions) {
+      throw new Error(`Unknown local embedding model: ${model}`);
+    }
+    this.model = model;
+    this.dimensions = dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    // Cache the pipeline to avoid reloading the model on every call
+    if (!this.extractor) {
+      this.extractor = pipeline("feature-extraction", this.model);
+    }
+    const extractor = await this.extractor;
+
+    const output = await extractor(texts, { pooling: "mean", normalize: true });
+    return output.tolist();
+  }
+}
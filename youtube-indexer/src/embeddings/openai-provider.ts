@@ -0,0 +1,94 @@
+import {
+  type EmbeddingProvider,
+  EmbeddingRequestError,
+} from "./embedding-provider";
+
+const DEFAULT_MODEL = "text-embedding-ada-002";
+
+const MODEL_DIMENSIONS: Record<string, number> = {
+  "text-embedding-ada-002": 1536,
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+};
+
+type OpenAIEmbeddingProviderOptions = {
+  apiKey: string;
+  model?: string;
+};
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dimensions: number;
+  private readonly apiKey: string;
+
+  constructor({
+    apiKey,
+    model = DEFAULT_MODEL,
+  }: OpenAIEmbeddingProviderOptions) {
+    const dimensions = MODEL_DIMENSIONS[model];
+    if (!dimensions) {
+      throw new Error(`Unknown OpenAI embedding model: ${model}`);
+    }
+    this.apiKey = apiKey;
+    this.model = model;
+    this.dimensions = dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    let response: Response;
+    try {
+      response = await fetch("https://api.openai.com/v1/embeddings", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          input: texts,
+          model: this.model,
+        }),
+      });
+    } catch (error) {
+      // Network failures are worth another attempt
+      throw new EmbeddingRequestError(
+        `OpenAI API request failed: ${error instanceof Error ? error.message : String(error)}`,
+        { retryable: true }
+      );
+    }
+
+    if (!response.ok) {
+      throw new EmbeddingRequestError(
+        `OpenAI API error: ${response.status} ${response.statusText}`,
+        {
+          status: response.status,
+          retryable: response.status === 429 || response.status >= 500,
+          retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+        }
+      );
+    }
+
+    const data = (await response.json()) as {
+      data: { index: number; embedding: number[] }[];
+    };
+    return data.data
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
+
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+  // Either delta-seconds or an HTTP date
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,296 @@
+import type { Keyword, KeywordExtractionResult } from "./extract-keywords";
+import type { KeywordEntityType } from "./types/youtube-schema";
+import { escapeRegex } from "./utils/regex";
+
+// Move regex to top level for performance
+const PHRASE_BREAK_REGEX = /[^\p{L}\s']+/u;
+const WHITESPACE_REGEX = /\s+/;
+const WORD_REGEX = /^\p{L}+$/u;
+
+// Entity type of keyphrase rows, next to the NER labels
+export const KEYPHRASE_ENTITY_TYPE: KeywordEntityType = "TOPIC";
+
+const MAX_PHRASE_WORDS = 3;
+const MIN_WORD_LENGTH = 3;
+// A phrase said once is not a topic of the text
+const MIN_PHRASE_COUNT = 2;
+// Longer phrases are more specific, so each extra word adds this much
+const PHRASE_LENGTH_BOOST = 0.5;
+
+// Function words and spoken filler that never start, end or fill a topic
+const STOP_WORDS = new Set([
+  "about",
+  "actually",
+  "after",
+  "again",
+  "all",
+  "also",
+  "and",
+  "any",
+  "are",
+  "around",
+  "back",
+  "basically",
+  "because",
+  "been",
+  "before",
+  "being",
+  "but",
+  "can",
+  "could",
+  "did",
+  "does",
+  "doing",
+  "done",
+  "down",
+  "each",
+  "even",
+  "every",
+  "for",
+  "from",
+  "get",
+  "getting",
+  "going",
+  "gonna",
+  "got",
+  "had",
+  "has",
+  "have",
+  "her",
+  "here",
+  "him",
+  "his",
+  "how",
+  "into",
+  "its",
+  "just",
+  "kind",
+  "know",
+  "let",
+  "like",
+  "little",
+  "lot",
+  "make",
+  "maybe",
+  "mean",
+  "more",
+  "most",
+  "much",
+  "need",
+  "not",
+  "now",
+  "off",
+  "okay",
+  "one",
+  "only",
+  "other",
+  "our",
+  "out",
+  "over",
+  "pretty",
+  "put",
+  "really",
+  "right",
+  "said",
+  "say",
+  "see",
+  "she",
+  "should",
+  "some",
+  "something",
+  "sort",
+  "still",
+  "such",
+  "sure",
+  "take",
+  "than",
+  "that",
+  "the",
+  "their",
+  "them",
+  "then",
+  "there",
+  "these",
+  "they",
+  "thing",
+  "things",
+  "think",
+  "this",
+  "those",
+  "through",
+  "too",
+  "two",
+  "uh",
+  "um",
+  "very",
+  "want",
+  "wanna",
+  "was",
+  "way",
+  "well",
+  "were",
+  "what",
+  "when",
+  "where",
+  "which",
+  "while",
+  "who",
+  "why",
+  "will",
+  "with",
+  "would",
+  "yeah",
+  "yes",
+  "you",
+  "your",
+]);
+
+export type PhraseCandidate = {
+  phrase: string; // lower case, words separated by single spaces
+  count: number;
+};
+
+// Document frequencies from a corpus the text belongs to
+export type PhraseDocumentFrequencies = {
+  documents: number;
+  counts: Map<string, number>; // documents containing each phrase
+};
+
+/**
+ * Candidate topics: runs of up to three content words with no stop word,
+ * number or punctuation between them, most frequent first
+ */
+export function findCandidatePhrases(text: string): PhraseCandidate[] {
+  const counts = new Map<string, number>();
+  for (const fragment of text.toLowerCase().split(PHRASE_BREAK_REGEX)) {
+    let run: string[] = [];
+    for (const word of [...fragment.split(WHITESPACE_REGEX), ""]) {
+      if (isContentWord(word)) {
+        run.push(word);
+        for (let length = 1; length <= MAX_PHRASE_WORDS; length++) {
+          if (run.length >= length) {
+            const phrase = run.slice(-length).join(" ");
+            counts.set(phrase, (counts.get(phrase) ?? 0) + 1);
+          }
+        }
+      } else {
+        run = [];
+      }
+    }
+  }
+
+  return [...counts]
+    .map(([phrase, count]) => ({ phrase, count }))
+    .filter(({ count }) => count >= MIN_PHRASE_COUNT)
+    .sort(
+      (a, b) =>
+        b.count * phraseLengthWeight(b.phrase) -
+          a.count * phraseLengthWeight(a.phrase) ||
+        a.phrase.localeCompare(b.phrase)
+    );
+}
+
+/**
+ * Scores candidates by TF-IDF: `(1 + ln count) * idf`, weighted towards
+ * longer phrases. Without document frequencies every phrase gets the same
+ * idf, so only frequency and length count. A phrase that only ever occurs
+ * inside a better phrase is dropped. Scores are scaled so the best is 1.
+ */
+export function scoreKeyphrases(
+  candidates: PhraseCandidate[],
+  frequencies?: PhraseDocumentFrequencies
+): Keyword[] {
+  const scored = candidates
+    .map(({ phrase, count }) => ({
+      phrase,
+      count,
+      score:
+        (1 + Math.log(count)) *
+        inverseDocumentFrequency(phrase, frequencies) *
+        phraseLengthWeight(phrase),
+    }))
+    .sort((a, b) => b.score - a.score || a.phrase.localeCompare(b.phrase));
+
+  const kept: typeof scored = [];
+  for (const candidate of scored) {
+    const subsumed = kept.some(
+      ({ phrase, count }) =>
+        count >= candidate.count &&
+        ` ${phrase} `.includes(` ${candidate.phrase} `)
+    );
+    if (!subsumed) {
+      kept.push(candidate);
+    }
+  }
+
+  const best = kept[0]?.score ?? 1;
+  return kept.map(({ phrase, count, score }) => ({
+    word: phrase,
+    entity: KEYPHRASE_ENTITY_TYPE,
+    score: score / best,
+    count,
+    relevance: score / best,
+  }));
+}
+
+// Topics of a single text, scored without a corpus
+export function extractKeyphrases(text: string): KeywordExtractionResult {
+  const keywords = scoreKeyphrases(findCandidatePhrases(text));
+  return {
+    keywords,
+    groupedKeywords:
+      keywords.length > 0 ? { [KEYPHRASE_ENTITY_TYPE]: keywords } : {},
+    totalCount: keywords.length,
+  };
+}
+
+/**
+ * The keyphrases that occur in a part of the text, such as one chunk, with
+ * their count there. Relevance is the phrase's score weighted by augmented
+ * term frequency within the part. Best first.
+ */
+export function matchKeyphrases(
+  keyphrases: Keyword[],
+  text: string
+): Keyword[] {
+  const matched = keyphrases.flatMap((keyphrase) => {
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])${escapeRegex(keyphrase.word)}(?![\\p{L}\\p{N}])`,
+      "giu"
+    );
+    const count = text.match(pattern)?.length ?? 0;
+    return count > 0 ? [{ ...keyphrase, count }] : [];
+  });
+
+  const maxCount = Math.max(1, ...matched.map(({ count }) => count));
+  return matched
+    .map((keyphrase) => ({
+      ...keyphrase,
+      relevance: keyphrase.score * (0.5 + (0.5 * keyphrase.count) / maxCount),
+    }))
+    .sort((a, b) => b.relevance - a.relevance);
+}
+
+function isContentWord(word: string): boolean {
+  return (
+    word.length >= MIN_WORD_LENGTH &&
+    WORD_REGEX.test(word) &&
+    !STOP_WORDS.has(word)
+  );
+}
+
+function phraseLengthWeight(phrase: string): number {
+  return 1 + PHRASE_LENGTH_BOOST * (phrase.split(" ").length - 1);
+}
+
+// Smoothed so a phrase found in every document still scores above zero
+function inverseDocumentFrequency(
+  phrase: string,
+  frequencies: PhraseDocumentFrequencies | undefined
+): number {
+  if (!frequencies) {
+    return 1;
+  }
+  const documents = frequencies.counts.get(phrase) ?? 0;
+  return Math.log((1 + frequencies.documents) / (1 + documents)) + 1;
+}
@@ -1,12 +1,25 @@
 import { pipeline } from "@xenova/transformers";
+import { escapeRegex } from "./utils/regex";
 
 // Move regex to top level for performance
 const ENTITY_PREFIX_REGEX = /^[BI]-/;
+const SENTENCE_END_REGEX = /(?<=[.!?])\s+/;
+const WHITESPACE_REGEX = /\s+/g;
+const WORD_CHAR_REGEX = /[\p{L}\p{N}]/u;
+const LEADING_PUNCTUATION_REGEX = /^[^\p{L}\p{N}]+/u;
+const TRAILING_PUNCTUATION_REGEX = /[^\p{L}\p{N}]+$/u;
+
+// The NER model reads at most 512 tokens; windows this long stay well inside
+const MAX_WINDOW_CHARS = 1000;
+const MIN_ENTITY_SCORE = 0.5;
+const SUBWORD_PREFIX = "##";
 
 export type Keyword = {
-  word: string;
-  entity: string;
-  score: number;
+  word: string; // most common spelling of the entity
+  entity: string; // PER, ORG, LOC or MISC, or TOPIC for keyphrases
+  score: number; // best confidence of any mention, 0-1
+  count: number; // mentions in the text
+  relevance: number; // 0-1, confidence weighted by how often it is mentioned
 };
 
 export type KeywordExtractionResult = {
@@ -15,9 +28,28 @@ export type KeywordExtractionResult = {
   totalCount: number;
 };
 
+// Token-level output of the transformers.js NER pipeline
+type NerToken = {
+  entity: string; // B-/I- tagged label, e.g. B-PER
+  score: number;
+  index: number; // position in the tokenised window
+  word: string; // word piece; continuations start with ##
+};
+
+type EntityMention = {
+  text: string;
+  entity: string;
+  score: number;
+};
+
 // Cache the NER pipeline to avoid reloading it every time
 let cachedNer: any = null;
 
+/**
+ * Runs NER over the transcript one sentence-aligned window at a time, joins
+ * B-/I- tags and ## word pieces into whole entities, and counts each entity
+ * once per mention. Spellings are matched case-insensitively.
+ */
 export async function extractKeywordsFromTranscript(
   transcript: string
 ): Promise<KeywordExtractionResult> {
@@ -26,53 +58,284 @@ export async function extractKeywordsFromTranscript(
   }
   const ner = cachedNer;
 
-  // Process transcript in chunks to avoid length limitations
-  const chunkSize = 1000;
-  const chunks: string[] = [];
+  const mentions: EntityMention[] = [];
+  for (const window of splitIntoWindows(transcript)) {
+    const tokens: NerToken[] = await ner(window);
+    mentions.push(...aggregateEntities(window, tokens));
+  }
+
+  const keywords = countMentions(
+    mentions.filter(({ score }) => score > MIN_ENTITY_SCORE)
+  );
+  return toExtractionResult(keywords);
+}
 
-  for (let i = 0; i < transcript.length; i += chunkSize) {
-    chunks.push(transcript.slice(i, i + chunkSize));
+/**
+ * Adds up keywords extracted from separate parts of one text, such as the
+ * chunks of a video, and scores them against the whole
+ */
+export function combineKeywords(
+  parts: KeywordExtractionResult[]
+): KeywordExtractionResult {
+  const totals = new Map<
+    string,
+    {
+      entity: string;
+      score: number;
+      count: number;
+      spellings: Map<string, number>;
+    }
+  >();
+  for (const { word, entity, score, count } of parts.flatMap(
+    ({ keywords }) => keywords
+  )) {
+    const key = `${entity}:${word.toLowerCase()}`;
+    const total = totals.get(key) ?? {
+      entity,
+      score: 0,
+      count: 0,
+      spellings: new Map<string, number>(),
+    };
+    total.score = Math.max(total.score, score);
+    total.count += count;
+    total.spellings.set(word, (total.spellings.get(word) ?? 0) + count);
+    totals.set(key, total);
   }
 
-  let allResults: any[] = [];
-  for (const chunkText of chunks) {
-    if (chunkText) {
-      const chunkResults = await ner(chunkText);
-      allResults = allResults.concat(chunkResults);
+  return toExtractionResult(
+    scoreKeywords(
+      [...totals.values()].map(({ entity, score, count, spellings }) => ({
+        word: mostCommon(spellings),
+        entity,
+        score,
+        count,
+      }))
+    )
+  );
+}
+
+/**
+ * Splits text into windows of whole sentences. A sentence longer than a
+ * window (auto captions often have no punctuation) is cut between words.
+ */
+function splitIntoWindows(text: string): string[] {
+  const sentences = text
+    .replace(WHITESPACE_REGEX, " ")
+    .trim()
+    .split(SENTENCE_END_REGEX)
+    .flatMap((sentence) => splitBetweenWords(sentence, MAX_WINDOW_CHARS));
+
+  const windows: string[] = [];
+  let current = "";
+  for (const sentence of sentences) {
+    if (current && current.length + 1 + sentence.length > MAX_WINDOW_CHARS) {
+      windows.push(current);
+      current = sentence;
+    } else {
+      current = current ? `${current} ${sentence}` : sentence;
     }
   }
+  if (current) {
+    windows.push(current);
+  }
+  return windows;
+}
+
+function splitBetweenWords(text: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > maxLength) {
+    const cut = rest.lastIndexOf(" ", maxLength);
+    // A single word longer than the window is cut where it is
+    const end = cut > 0 ? cut : maxLength;
+    pieces.push(rest.slice(0, end));
+    rest = rest.slice(end).trimStart();
+  }
+  if (rest) {
+    pieces.push(rest);
+  }
+  return pieces;
+}
+
+/**
+ * Groups adjacent tokens into entity mentions: a ## piece always continues
+ * the word before it, and an I- tag continues an entity of the same type.
+ * Each mention is then found in the window so it keeps its original
+ * spelling and covers whole words.
+ */
+function aggregateEntities(
+  window: string,
+  tokens: NerToken[]
+): EntityMention[] {
+  const spans: {
+    pieces: string[];
+    entity: string;
+    scores: number[];
+    lastIndex: number;
+  }[] = [];
+
+  for (const token of tokens) {
+    const entity = token.entity.replace(ENTITY_PREFIX_REGEX, "");
+    const current = spans.at(-1);
+    const continues =
+      current !== undefined &&
+      token.index === current.lastIndex + 1 &&
+      (token.word.startsWith(SUBWORD_PREFIX) ||
+        (token.entity.startsWith("I-") && entity === current.entity));
 
-  // Extract and process keywords from NER results
-  const rawKeywords = allResults
-    .filter((item: any) => item.score > 0.5) // Filter by confidence score
-    .map((item: any) => ({
-      word: item.word,
-      entity: item.entity,
-      score: item.score,
-    }));
-
-  // Group and deduplicate keywords
-  const keywordMap = new Map();
-  for (const keyword of rawKeywords) {
-    const key = `${keyword.word.toLowerCase()}_${keyword.entity}`;
-    if (!keywordMap.has(key) || keywordMap.get(key).score < keyword.score) {
-      keywordMap.set(key, keyword);
+    if (continues) {
+      current.pieces.push(token.word);
+      current.scores.push(token.score);
+      current.lastIndex = token.index;
+    } else {
+      spans.push({
+        pieces: [token.word],
+        entity,
+        scores: [token.score],
+        lastIndex: token.index,
+      });
     }
   }
 
-  const keywords = Array.from(keywordMap.values()).sort(
-    (a: any, b: any) => b.score - a.score
-  ); // Sort by confidence
+  const mentions: EntityMention[] = [];
+  let searchFrom = 0;
+  for (const { pieces, entity, scores } of spans) {
+    const found = locateSpan(window, pieces, searchFrom);
+    // A stray word piece whose word was already taken by the last mention
+    if (found && found.start < searchFrom) {
+      continue;
+    }
+    if (found) {
+      searchFrom = found.end;
+    }
+    const text = normaliseEntityText(
+      found
+        ? window.slice(found.start, found.end)
+        : pieces
+            .map((piece) =>
+              piece.startsWith(SUBWORD_PREFIX)
+                ? piece.slice(SUBWORD_PREFIX.length)
+                : ` ${piece}`
+            )
+            .join("")
+    );
+    if (text.length > 1) {
+      mentions.push({
+        text,
+        entity,
+        score: scores.reduce((sum, score) => sum + score, 0) / scores.length,
+      });
+    }
+  }
+  return mentions;
+}
 
-  // Group by entity type for better display
-  const groupedKeywords = keywords.reduce((acc: any, keyword: any) => {
-    const entityType = keyword.entity.replace(ENTITY_PREFIX_REGEX, ""); // Remove B-/I- prefix
-    if (!acc[entityType]) {
-      acc[entityType] = [];
+// Finds the word pieces in the text, widened to whole words
+function locateSpan(
+  text: string,
+  pieces: string[],
+  from: number
+): { start: number; end: number } | null {
+  const pattern = pieces
+    .map((piece, index) => {
+      if (piece.startsWith(SUBWORD_PREFIX)) {
+        return escapeRegex(piece.slice(SUBWORD_PREFIX.length));
+      }
+      return index === 0 ? escapeRegex(piece) : `\\s*${escapeRegex(piece)}`;
+    })
+    .join("");
+  const matcher = new RegExp(pattern, "g");
+  matcher.lastIndex = from;
+  const match = matcher.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  let start = match.index;
+  let end = match.index + match[0].length;
+  while (start > 0 && WORD_CHAR_REGEX.test(text[start - 1])) {
+    start--;
+  }
+  while (end < text.length && WORD_CHAR_REGEX.test(text[end])) {
+    end++;
+  }
+  return { start, end };
+}
+
+// Collapses whitespace and trims punctuation
+function normaliseEntityText(text: string): string {
+  const trimmed = text
+    .replace(WHITESPACE_REGEX, " ")
+    .trim()
+    .replace(LEADING_PUNCTUATION_REGEX, "");
+  const stripped = trimmed.replace(TRAILING_PUNCTUATION_REGEX, "");
+  // Abbreviations such as U.S. keep their final dot
+  return stripped.includes(".") && trimmed.startsWith(`${stripped}.`)
+    ? `${stripped}.`
+    : stripped;
+}
+
+// One keyword per entity and case-insensitive spelling
+function countMentions(mentions: EntityMention[]): Keyword[] {
+  const byKey = new Map<string, EntityMention[]>();
+  for (const mention of mentions) {
+    const key = `${mention.entity}:${mention.text.toLowerCase()}`;
+    byKey.set(key, [...(byKey.get(key) ?? []), mention]);
+  }
+
+  return scoreKeywords(
+    [...byKey.values()].map((group) => {
+      const spellings = new Map<string, number>();
+      for (const { text } of group) {
+        spellings.set(text, (spellings.get(text) ?? 0) + 1);
+      }
+      return {
+        word: mostCommon(spellings),
+        entity: group[0].entity,
+        score: Math.max(...group.map(({ score }) => score)),
+        count: group.length,
+      };
+    })
+  );
+}
+
+/**
+ * Relevance is the confidence scaled by augmented term frequency, so the
+ * most mentioned entity keeps its full confidence and one mentioned once
+ * keeps at least half of it. Best first.
+ */
+function scoreKeywords(keywords: Omit<Keyword, "relevance">[]): Keyword[] {
+  const maxCount = Math.max(1, ...keywords.map(({ count }) => count));
+  return keywords
+    .map((keyword) => ({
+      ...keyword,
+      relevance: keyword.score * (0.5 + (0.5 * keyword.count) / maxCount),
+    }))
+    .sort((a, b) => b.relevance - a.relevance || b.score - a.score);
+}
+
+// Earliest spelling wins ties
+function mostCommon(counts: Map<string, number>): string {
+  let best = "";
+  let bestCount = 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
     }
-    acc[entityType].push(keyword);
-    return acc;
-  }, {});
+  }
+  return best;
+}
+
+function toExtractionResult(keywords: Keyword[]): KeywordExtractionResult {
+  // Group by entity type for better display
+  const groupedKeywords: Record<string, Keyword[]> = {};
+  for (const keyword of keywords) {
+    groupedKeywords[keyword.entity] = [
+      ...(groupedKeywords[keyword.entity] ?? []),
+      keyword,
+    ];
+  }
 
   return {
     keywords,
@@ -90,7 +353,7 @@ export function logKeywords(result: KeywordExtractionResult): void {
     console.log(`\n  📌 ${entityType.toUpperCase()}S:`);
     for (const [index, keyword] of entityKeywords.slice(0, 10).entries()) {
       console.log(
-        `    ${index + 1}. "${keyword.word}" - ${(keyword.score * 100).toFixed(1)}%`
+        `    ${index + 1}. "${keyword.word}" - ${(keyword.score * 100).toFixed(1)}% (${keyword.count}x)`
       );
     }
     if (entityKeywords.length > 10) {
@@ -1,19 +1,166 @@
 // Export YouTube indexing services
-export { SemanticSearchService } from "./services/semantic-search";
-export { YouTubeChannelIndexer } from "./services/youtube-indexer";
+export {
+  SEARCH_PAGE_DEPTH,
+  type SearchFilters,
+  type SearchOptions,
+  type SearchPage,
+  type SearchPageOptions,
+  type SearchResult,
+  SemanticSearchService,
+  type SemanticSearchServiceOptions,
+} from "./services/semantic-search";
+export {
+  type ChannelSyncReport,
+  type LinkedVideo,
+  type LinkedVideoGroup,
+  type VideoLinkKind,
+  type VideoListing,
+  type VideoOwner,
+  type VideoStatsChange,
+  YouTubeChannelIndexer,
+  type YouTubeChannelIndexerOptions,
+} from "./services/youtube-indexer";
+export {
+  isYouTubeUrl,
+  parseYouTubeUrl,
+  YtDlpClient,
+  type YtDlpClientOptions,
+  YtDlpError,
+  type YtDlpErrorCode,
+  type YtDlpProgressHandler,
+  type YtDlpResult,
+  type YtDlpRunOptions,
+} from "./services/ytdlp-client";
+
+// Export background jobs
+export {
+  createIndexingJobHandlers,
+  enqueueChannelIndexing,
+  enqueueChannelSync,
+  enqueueDueChannelSyncs,
+  enqueueEmbeddingRegeneration,
+  enqueueLinkedVideoIndexing,
+  enqueueVideoIndexing,
+  type IndexChannelJobPayload,
+  type IndexChannelJobResult,
+  type IndexVideoJobPayload,
+  type IndexVideoJobResult,
+  type IndexVideosJobPayload,
+  type IndexVideosJobResult,
+  type RegenerateEmbeddingsJobPayload,
+  type SyncChannelJobPayload,
+} from "./jobs/indexing-jobs";
+export {
+  type ChannelIndexingProgress,
+  getChannelIndexingProgress,
+  type VideoIndexingProgress,
+} from "./jobs/indexing-progress";
+export {
+  type IndexingJobHandler,
+  type IndexingJobHandlers,
+  IndexingWorker,
+  type IndexingWorkerOptions,
+} from "./jobs/indexing-worker";
+
+// Export storage
+export {
+  DrizzleYouTubeStore,
+  type YouTubeDatabase,
+} from "./db/drizzle-store";
+export { InMemoryYouTubeStore } from "./db/memory-store";
+export type {
+  ChannelRepository,
+  ChunkFilters,
+  ChunkRepository,
+  CollectionRepository,
+  CollectionWithChannels,
+  EmbeddingModelCount,
+  IndexStatusRepository,
+  IndexStatusUpdate,
+  JobRepository,
+  JobStatusCount,
+  KeywordRepository,
+  SearchQueryRepository,
+  TranscriptMentionCounts,
+  VideoJobStatusCount,
+  VideoRepository,
+  YouTubeStore,
+} from "./db/store";
+
+// Export embedding providers
+export {
+  createEmbeddingProvider,
+  EMBEDDING_COLUMN_DIMENSIONS,
+  type EmbeddingProvider,
+  type EmbeddingProviderName,
+  type EmbeddingProviderOptions,
+  EmbeddingRequestError,
+  embedText,
+} from "./embeddings/embedding-provider";
+export {
+  type EmbeddingFailure,
+  EmbeddingPipeline,
+  type EmbeddingPipelineOptions,
+  type EmbeddingRunResult,
+} from "./embeddings/embedding-pipeline";
+export { HashingEmbeddingProvider } from "./embeddings/hashing-provider";
+export { LocalEmbeddingProvider } from "./embeddings/local-provider";
+export { OpenAIEmbeddingProvider } from "./embeddings/openai-provider";
+
+// Export rerankers
+export { CrossEncoderReranker } from "./rerankers/cross-encoder-reranker";
+export { LlmReranker } from "./rerankers/llm-reranker";
+export {
+  createReranker,
+  type Reranker,
+  type RerankerName,
+  type RerankerOptions,
+} from "./rerankers/reranker";
+
+// Export database helpers
+export {
+  checkSchemaDrift,
+  formatSchemaDriftIssue,
+  type SchemaDriftIssue,
+  type SchemaDriftReport,
+} from "./db/schema-drift";
 
 // Export YouTube tools
 export { fetchYouTubeTranscript } from "./tools/fetch-youtube-transcript";
-export { fetchYouTubeVideos } from "./tools/fetch-youtube-videos";
+export {
+  type ChannelVideo,
+  fetchYouTubeVideos,
+} from "./tools/fetch-youtube-videos";
 export { indexYouTubeChannel } from "./tools/index-youtube-channel";
+export { indexYouTubeVideos } from "./tools/index-youtube-videos";
+export { manageChannelCollection } from "./tools/manage-channel-collection";
 export { searchYouTubeContent } from "./tools/search-youtube-content";
+export { syncYouTubeChannel } from "./tools/sync-youtube-channel";
 export { validateYouTubeLink } from "./tools/validate-youtube-link";
 
 // Export schema
 export {
+  type ChannelCollection,
+  channelCollection,
+  channelCollectionMember,
+  type ChannelIndexStatus,
   channelIndexStatus,
+  entityTypeLabels,
+  type IndexingJob,
+  indexingJob,
+  type KeywordEntityType,
+  keywordEntityTypes,
+  type NewIndexingJob,
+  type NewSearchQuery,
+  type NewTranscriptChunk,
+  type NewVideoKeyword,
+  type NewYouTubeChannel,
+  type NewYouTubeVideo,
+  type SearchQuery,
+  searchQuery,
   type TranscriptChunk,
   transcriptChunk,
+  type VideoKeyword,
   videoKeyword,
   type YouTubeChannel,
   type YouTubeVideo,
@@ -22,4 +169,26 @@ export {
 } from "./types/youtube-schema";
 
 // Export utilities
+export {
+  DEFAULT_RRF_K,
+  type FusedItem,
+  reciprocalRankFusion,
+} from "./utils/rank-fusion";
+export { balanceByGroup } from "./utils/result-balancing";
+export {
+  DEFAULT_MMR_LAMBDA,
+  maximalMarginalRelevance,
+} from "./utils/result-diversification";
+export {
+  decodeSearchCursor,
+  encodeSearchCursor,
+  SearchCursorError,
+  searchFingerprint,
+} from "./utils/search-cursor";
+export {
+  SearchRankingCache,
+  type SearchRankingCacheOptions,
+} from "./utils/search-ranking-cache";
+export { cosineSimilarity, wordOverlap } from "./utils/similarity";
+export { removeChunkOverlaps } from "./utils/transcript-utils";
 export * from "./utils/youtube-utils";
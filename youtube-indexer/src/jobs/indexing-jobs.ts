@@ -0,0 +1,289 @@
+import type { YouTubeStore } from "../db/store";
+import { EmbeddingPipeline } from "../embeddings/embedding-pipeline";
+import type { EmbeddingProvider } from "../embeddings/embedding-provider";
+import {
+  type VideoLinkKind,
+  type VideoListing,
+  YouTubeChannelIndexer,
+} from "../services/youtube-indexer";
+import type { IndexingJob, YouTubeVideo } from "../types/youtube-schema";
+import type { IndexingJobHandlers } from "./indexing-worker";
+
+export type IndexChannelJobPayload = {
+  channelUrl: string;
+  channelName: string;
+  maxVideos?: number;
+};
+
+export type IndexVideoJobPayload = {
+  channelDbId: string;
+  runId: string; // the index run that queued the video
+  video: VideoListing;
+};
+
+// Results are read back to report progress, so they name the runs the
+// videos were queued under rather than list the videos
+export type IndexChannelJobResult = {
+  channelDbId: string;
+  runId: string;
+  videosQueued: number;
+};
+
+export type IndexVideoJobResult = {
+  videoId: string;
+  // Last stage reached; short of "embedded" when the video was skipped
+  indexingStage: YouTubeVideo["indexingStage"];
+};
+
+// A single video or playlist link; its videos are attached to their uploaders
+export type IndexVideosJobPayload = {
+  url: string;
+  kind: VideoLinkKind;
+  maxVideos?: number;
+};
+
+export type IndexVideosJobResult = {
+  channels: (IndexChannelJobResult & { channelName: string })[];
+};
+
+export type SyncChannelJobPayload = {
+  channelDbId: string;
+};
+
+export type RegenerateEmbeddingsJobPayload = {
+  batchSize: number;
+  onlyFailed: boolean; // retry chunks whose last attempt failed
+};
+
+// Listed failures and stat changes are capped so job results stay small
+const MAX_REPORTED_FAILURES = 20;
+const MAX_REPORTED_CHANGES = 20;
+
+export function enqueueChannelIndexing(
+  store: YouTubeStore,
+  payload: IndexChannelJobPayload
+): Promise<IndexingJob> {
+  return store.jobs.enqueue({
+    type: "index_channel",
+    payload,
+    dedupeKey: `channel:${payload.channelUrl}`,
+  });
+}
+
+// Scoped to the run, so every run that asks for a video gets it counted
+export function videoJobDedupeKey(runId: string, videoId: string): string {
+  return `video:${runId}:${videoId}`;
+}
+
+export function enqueueVideoIndexing(
+  store: YouTubeStore,
+  payload: IndexVideoJobPayload
+): Promise<IndexingJob> {
+  return store.jobs.enqueue({
+    type: "index_video",
+    payload,
+    dedupeKey: videoJobDedupeKey(payload.runId, payload.video.videoId),
+  });
+}
+
+export function enqueueLinkedVideoIndexing(
+  store: YouTubeStore,
+  payload: IndexVideosJobPayload
+): Promise<IndexingJob> {
+  return store.jobs.enqueue({
+    type: "index_videos",
+    payload,
+    dedupeKey: `${payload.kind}:${payload.url}`,
+  });
+}
+
+export function enqueueChannelSync(
+  store: YouTubeStore,
+  payload: SyncChannelJobPayload
+): Promise<IndexingJob> {
+  return store.jobs.enqueue({
+    type: "sync_channel",
+    payload,
+    dedupeKey: `sync:${payload.channelDbId}`,
+  });
+}
+
+// Queues a sync for every channel whose schedule is due
+export async function enqueueDueChannelSyncs(
+  store: YouTubeStore,
+  now = new Date()
+): Promise<IndexingJob[]> {
+  const channels = await store.channels.findDueForSync(now);
+  const jobs: IndexingJob[] = [];
+  for (const channel of channels) {
+    jobs.push(await enqueueChannelSync(store, { channelDbId: channel.id }));
+  }
+  return jobs;
+}
+
+export function enqueueEmbeddingRegeneration(
+  store: YouTubeStore,
+  payload: RegenerateEmbeddingsJobPayload
+): Promise<IndexingJob> {
+  return store.jobs.enqueue({
+    type: "regenerate_embeddings",
+    payload,
+    dedupeKey: payload.onlyFailed ? "embeddings:failed" : "embeddings:stale",
+  });
+}
+
+/**
+ * Handlers for every job type. Channel and playlist jobs only list their
+ * videos and queue one job per video, so a restart loses at most the video
+ * that was in flight.
+ */
+export function createIndexingJobHandlers(
+  store: YouTubeStore,
+  embeddings: EmbeddingProvider
+): IndexingJobHandlers {
+  return {
+    index_channel: async (job) => {
+      const { channelUrl, channelName, maxVideos } =
+        job.payload as IndexChannelJobPayload;
+      const indexer = new YouTubeChannelIndexer(store, embeddings);
+
+      const { channel, runId, videos } = await indexer.prepareChannel(
+        channelUrl,
+        channelName,
+        maxVideos,
+        job.id
+      );
+      if (videos.length === 0) {
+        await indexer.completeChannel(channel.id, runId, 0);
+      }
+
+      await enqueueVideos(store, channel.id, runId, videos);
+      const result: IndexChannelJobResult = {
+        channelDbId: channel.id,
+        runId,
+        videosQueued: videos.length,
+      };
+      return result;
+    },
+
+    index_video: async (job) => {
+      const { channelDbId, runId, video } = job.payload as IndexVideoJobPayload;
+      const indexer = new YouTubeChannelIndexer(store, embeddings);
+
+      try {
+        await indexer.indexVideo(channelDbId, video);
+      } catch (error) {
+        // Count the video once it is out of retries so the run can finish
+        if (job.attempts >= job.maxAttempts) {
+          await indexer.recordVideoProcessed(runId);
+        }
+        throw error;
+      }
+
+      await indexer.recordVideoProcessed(runId);
+      const record = await store.videos.findByVideoId(video.videoId);
+      const result: IndexVideoJobResult = {
+        videoId: video.videoId,
+        indexingStage: record?.indexingStage ?? null,
+      };
+      return result;
+    },
+
+    index_videos: async (job) => {
+      const { url, kind, maxVideos } = job.payload as IndexVideosJobPayload;
+      const indexer = new YouTubeChannelIndexer(store, embeddings);
+
+      const groups = await indexer.prepareVideos(url, kind, maxVideos, job.id);
+      for (const { channel, runId, videos } of groups) {
+        await enqueueVideos(store, channel.id, runId, videos);
+      }
+
+      const result: IndexVideosJobResult = {
+        channels: groups.map(({ channel, runId, videos }) => ({
+          channelDbId: channel.id,
+          channelName: channel.channelName,
+          runId,
+          videosQueued: videos.length,
+        })),
+      };
+      return result;
+    },
+
+    sync_channel: async (job) => {
+      const { channelDbId } = job.payload as SyncChannelJobPayload;
+      const indexer = new YouTubeChannelIndexer(store, embeddings);
+
+      const report = await indexer.syncChannel(channelDbId, job.id);
+      if (report.runId) {
+        await enqueueVideos(store, channelDbId, report.runId, report.newVideos);
+      }
+
+      return {
+        channelDbId,
+        listedVideos: report.listedVideos,
+        newVideos: report.newVideos.map(({ videoId, title }) => ({
+          videoId,
+          title,
+        })),
+        updatedCount: report.updatedVideos.length,
+        updatedVideos: report.updatedVideos.slice(0, MAX_REPORTED_CHANGES),
+        unchangedVideos: report.unchangedVideos,
+        olderVideos: report.olderVideos,
+      };
+    },
+
+    regenerate_embeddings: async (job) => {
+      const { batchSize, onlyFailed } =
+        job.payload as RegenerateEmbeddingsJobPayload;
+
+      const chunks = onlyFailed
+        ? await store.chunks.findEmbeddingFailures(batchSize)
+        : await store.chunks.findStale(embeddings.model, batchSize);
+      const { embedded, failed } = await new EmbeddingPipeline(
+        store,
+        embeddings
+      ).embedChunks(chunks);
+
+      return {
+        model: embeddings.model,
+        found: chunks.length,
+        embedded,
+        failed: failed.length,
+        failures: failed.slice(0, MAX_REPORTED_FAILURES),
+      };
+    },
+
+    // Videos whose workers kept dying still count, so their run can finish
+    onAbandoned: async (job) => {
+      if (job.type !== "index_video") {
+        return;
+      }
+      const { runId } = job.payload as IndexVideoJobPayload;
+      await new YouTubeChannelIndexer(store, embeddings).recordVideoProcessed(
+        runId
+      );
+    },
+  };
+}
+
+async function enqueueVideos(
+  store: YouTubeStore,
+  channelDbId: string,
+  runId: string,
+  videos: VideoListing[]
+): Promise<void> {
+  for (const video of videos) {
+    await enqueueVideoIndexing(store, {
+      channelDbId,
+      runId,
+      video: {
+        videoId: video.videoId,
+        title: video.title,
+        duration: video.duration,
+        viewCount: video.viewCount,
+        likeCount: video.likeCount,
+        publishedAt: video.publishedAt,
+      },
+    });
+  }
+}
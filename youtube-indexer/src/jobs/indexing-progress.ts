@@ -0,0 +1,162 @@
+import type { VideoJobStatusCount, YouTubeStore } from "../db/store";
+import type { IndexingJob } from "../types/youtube-schema";
+import type {
+  IndexChannelJobPayload,
+  IndexChannelJobResult,
+  IndexVideoJobPayload,
+  IndexVideoJobResult,
+  IndexVideosJobPayload,
+  IndexVideosJobResult,
+} from "./indexing-jobs";
+
+export type VideoIndexingProgress = {
+  videoId: string;
+  title: string;
+  // retrying: the last attempt failed and another is scheduled
+  // skipped: the job finished but the video was not fully indexed
+  status: "queued" | "running" | "retrying" | "indexed" | "skipped" | "failed";
+  error: string | null;
+};
+
+export type ChannelIndexingProgress = {
+  jobId: string;
+  channelName: string; // the link itself until a playlist's channels are known
+  // listing: the channel's videos are still being fetched
+  status: "listing" | "indexing" | "completed" | "failed";
+  progress: number; // 0-100
+  totalVideos: number;
+  processedVideos: number;
+  indexedVideos: number; // processed videos that were fully indexed
+  // The most recently updated videos, capped so polling stays cheap
+  videos: VideoIndexingProgress[];
+  error: string | null;
+};
+
+const MAX_LISTED_VIDEOS = 20;
+
+const SKIP_REASONS: Record<string, string> = {
+  none: "The video could not be fetched",
+  fetched: "No transcript is available",
+};
+
+function toVideoProgress(job: IndexingJob): VideoIndexingProgress {
+  const {
+    video: { videoId, title },
+  } = job.payload as IndexVideoJobPayload;
+  const video = { videoId, title };
+
+  if (job.status === "queued") {
+    return {
+      ...video,
+      status: job.lastError ? "retrying" : "queued",
+      error: job.lastError,
+    };
+  }
+  if (job.status !== "completed") {
+    return { ...video, status: job.status, error: job.lastError };
+  }
+
+  const { indexingStage = null } = (job.result ??
+    {}) as Partial<IndexVideoJobResult>;
+  if (indexingStage === "embedded") {
+    return { ...video, status: "indexed", error: null };
+  }
+  return {
+    ...video,
+    status: "skipped",
+    error:
+      SKIP_REASONS[indexingStage ?? "none"] ??
+      `Indexing stopped after the ${indexingStage} stage`,
+  };
+}
+
+function countProcessed(counts: VideoJobStatusCount[]) {
+  let processedVideos = 0;
+  let indexedVideos = 0;
+  for (const { status, indexingStage, count } of counts) {
+    if (status === "completed" || status === "failed") {
+      processedVideos += count;
+    }
+    if (status === "completed" && indexingStage === "embedded") {
+      indexedVideos += count;
+    }
+  }
+  return { processedVideos, indexedVideos };
+}
+
+// The name shown for the job and the runs it queued its videos under
+function describeJob(job: IndexingJob): {
+  channelName: string;
+  runs: IndexChannelJobResult[];
+} {
+  if (job.type === "index_channel") {
+    const { channelName } = job.payload as IndexChannelJobPayload;
+    const result = job.result as IndexChannelJobResult | null;
+    return { channelName, runs: result?.runId ? [result] : [] };
+  }
+
+  const { url } = job.payload as IndexVideosJobPayload;
+  const channels = (job.result as IndexVideosJobResult | null)?.channels ?? [];
+  return {
+    channelName:
+      channels.map(({ channelName }) => channelName).join(", ") || url,
+    runs: channels,
+  };
+}
+
+/**
+ * Snapshot of a channel, video or playlist indexing job for progress
+ * displays. Counts come from the video jobs queued under the index runs the
+ * job started, so later runs of the same channel do not leak in. Returns null
+ * for unknown jobs and jobs that do not index videos.
+ */
+export async function getChannelIndexingProgress(
+  store: YouTubeStore,
+  jobId: string
+): Promise<ChannelIndexingProgress | null> {
+  const job = await store.jobs.findById(jobId);
+  if (!job || (job.type !== "index_channel" && job.type !== "index_videos")) {
+    return null;
+  }
+
+  const { channelName, runs } = describeJob(job);
+  const progress: ChannelIndexingProgress = {
+    jobId,
+    channelName,
+    status: "listing",
+    progress: 0,
+    totalVideos: 0,
+    processedVideos: 0,
+    indexedVideos: 0,
+    videos: [],
+    error: null,
+  };
+
+  if (job.status === "failed") {
+    return { ...progress, status: "failed", error: job.lastError };
+  }
+  if (job.status !== "completed") {
+    return { ...progress, error: job.lastError };
+  }
+
+  const runIds = runs.map(({ runId }) => runId);
+  const [counts, videoJobs] = await Promise.all([
+    store.jobs.countVideoJobsByRuns(runIds),
+    store.jobs.findVideoJobsByRuns(runIds, MAX_LISTED_VIDEOS),
+  ]);
+  const totalVideos = runs.reduce((sum, run) => sum + run.videosQueued, 0);
+  const { processedVideos, indexedVideos } = countProcessed(counts);
+  const completed = processedVideos >= totalVideos;
+
+  return {
+    ...progress,
+    status: completed ? "completed" : "indexing",
+    progress: completed
+      ? 100
+      : Math.round((processedVideos * 100) / Math.max(totalVideos, 1)),
+    totalVideos,
+    processedVideos,
+    indexedVideos,
+    videos: videoJobs.map(toVideoProgress),
+  };
+}
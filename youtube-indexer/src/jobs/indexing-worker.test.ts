@@ -0,0 +1,214 @@
+import { beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { InMemoryYouTubeStore } from "../db/memory-store";
+import type { IndexingJob } from "../types/youtube-schema";
+import {
+  type IndexingJobHandler,
+  type IndexingJobHandlers,
+  IndexingWorker,
+} from "./indexing-worker";
+
+function createHandlers(
+  handler: IndexingJobHandler,
+  onAbandoned?: (job: IndexingJob) => Promise<void>
+): IndexingJobHandlers {
+  return {
+    index_channel: handler,
+    index_video: handler,
+    index_videos: handler,
+    sync_channel: handler,
+    regenerate_embeddings: handler,
+    onAbandoned,
+  };
+}
+
+let store: InMemoryYouTubeStore;
+
+beforeEach(() => {
+  store = new InMemoryYouTubeStore();
+  for (const method of ["log", "warn", "error"] as const) {
+    spyOn(console, method).mockImplementation(() => undefined);
+  }
+});
+
+describe("job queue", () => {
+  test("returns the active job for a repeated dedupe key", async () => {
+    const first = await store.jobs.enqueue({
+      type: "sync_channel",
+      payload: {},
+      dedupeKey: "sync:a",
+    });
+    const second = await store.jobs.enqueue({
+      type: "sync_channel",
+      payload: {},
+      dedupeKey: "sync:a",
+    });
+
+    expect(second.id).toBe(first.id);
+    expect(store.jobRows.size).toBe(1);
+  });
+
+  test("queues a new job once the previous one finished", async () => {
+    const first = await store.jobs.enqueue({
+      type: "sync_channel",
+      payload: {},
+      dedupeKey: "sync:a",
+    });
+    await store.jobs.claim("worker", new Date(0));
+    await store.jobs.complete(first.id, "worker", {});
+
+    const second = await store.jobs.enqueue({
+      type: "sync_channel",
+      payload: {},
+      dedupeKey: "sync:a",
+    });
+
+    expect(second.id).not.toBe(first.id);
+  });
+
+  test("never dedupes jobs without a key", async () => {
+    await store.jobs.enqueue({ type: "sync_channel", payload: {} });
+    await store.jobs.enqueue({ type: "sync_channel", payload: {} });
+
+    expect(store.jobRows.size).toBe(2);
+  });
+
+  test("dedupes against a job queued for retry", async () => {
+    const first = await store.jobs.enqueue({
+      type: "sync_channel",
+      payload: {},
+      dedupeKey: "sync:a",
+    });
+    await store.jobs.claim("worker", new Date(0));
+    await store.jobs.fail(first.id, "worker", "timeout", new Date());
+
+    const second = await store.jobs.enqueue({
+      type: "sync_channel",
+      payload: {},
+      dedupeKey: "sync:a",
+    });
+
+    expect(second.id).toBe(first.id);
+    expect(second.lastError).toBe("timeout");
+  });
+
+  test("claims the oldest due job and counts the attempt", async () => {
+    const later = await store.jobs.enqueue({
+      type: "sync_channel",
+      payload: {},
+      runAt: new Date(Date.now() + 60_000),
+    });
+    const older = await store.jobs.enqueue({
+      type: "sync_channel",
+      payload: {},
+      runAt: new Date(Date.now() - 2000),
+    });
+    await store.jobs.enqueue({
+      type: "sync_channel",
+      payload: {},
+      runAt: new Date(Date.now() - 1000),
+    });
+
+    const claimed = await store.jobs.claim("worker", new Date(0));
+
+    expect(claimed?.id).toBe(older.id);
+    expect(claimed?.status).toBe("running");
+    expect(claimed?.attempts).toBe(1);
+    expect(claimed?.lockedBy).toBe("worker");
+    expect((await store.jobs.findById(later.id))?.status).toBe("queued");
+  });
+
+  test("ignores updates from workers that lost the lock", async () => {
+    const job = await store.jobs.enqueue({ type: "sync_channel", payload: {} });
+    await store.jobs.claim("worker", new Date(0));
+
+    expect(await store.jobs.heartbeat(job.id, "other")).toBe(false);
+    await store.jobs.complete(job.id, "other", {});
+
+    expect((await store.jobs.findById(job.id))?.status).toBe("running");
+  });
+});
+
+describe("IndexingWorker", () => {
+  test("completes jobs with the handler's result", async () => {
+    const job = await store.jobs.enqueue({ type: "sync_channel", payload: {} });
+    const worker = new IndexingWorker(
+      store,
+      createHandlers(async () => ({ synced: true }))
+    );
+
+    expect(await worker.runOnce()).toBe(true);
+    expect(await worker.runOnce()).toBe(false);
+
+    const completed = await store.jobs.findById(job.id);
+    expect(completed?.status).toBe("completed");
+    expect(completed?.result).toEqual({ synced: true });
+  });
+
+  test("retries failed jobs with backoff", async () => {
+    const job = await store.jobs.enqueue({ type: "sync_channel", payload: {} });
+    const worker = new IndexingWorker(
+      store,
+      createHandlers(() => Promise.reject(new Error("network down"))),
+      { retryDelayMs: 60_000 }
+    );
+
+    const before = Date.now();
+    await worker.runOnce();
+
+    const retried = await store.jobs.findById(job.id);
+    expect(retried?.status).toBe("queued");
+    expect(retried?.lastError).toBe("network down");
+    expect(retried?.lockedBy).toBeNull();
+    expect(retried?.runAt.getTime()).toBeGreaterThanOrEqual(before + 60_000);
+    // Not due until the backoff has passed
+    expect(await worker.runOnce()).toBe(false);
+  });
+
+  test("fails jobs for good once they run out of attempts", async () => {
+    const job = await store.jobs.enqueue({
+      type: "sync_channel",
+      payload: {},
+      maxAttempts: 2,
+    });
+    const handler = mock(() => Promise.reject(new Error("still down")));
+    const worker = new IndexingWorker(store, createHandlers(handler), {
+      retryDelayMs: 0,
+    });
+
+    await worker.runOnce();
+    await worker.runOnce();
+
+    const failed = await store.jobs.findById(job.id);
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(failed?.status).toBe("failed");
+    expect(failed?.attempts).toBe(2);
+    expect(failed?.completedAt).not.toBeNull();
+    expect(await worker.runOnce()).toBe(false);
+  });
+
+  test("abandons stale jobs of dead workers without rerunning them", async () => {
+    const job = await store.jobs.enqueue({
+      type: "index_video",
+      payload: {},
+      maxAttempts: 1,
+    });
+    await store.jobs.claim("dead-worker", new Date(0));
+    await Bun.sleep(5);
+
+    const handler = mock(async () => ({}));
+    const onAbandoned = mock(async (_job: IndexingJob) => undefined);
+    const worker = new IndexingWorker(
+      store,
+      createHandlers(handler, onAbandoned),
+      { staleAfterMs: 1 }
+    );
+
+    expect(await worker.runOnce()).toBe(true);
+
+    const abandoned = await store.jobs.findById(job.id);
+    expect(handler).not.toHaveBeenCalled();
+    expect(onAbandoned).toHaveBeenCalledTimes(1);
+    expect(abandoned?.status).toBe("failed");
+    expect(abandoned?.lastError).toBe("Worker stopped while running the job");
+  });
+});
@@ -0,0 +1,172 @@
+import { randomUUID } from "node:crypto";
+import { hostname } from "node:os";
+import type { YouTubeStore } from "../db/store";
+import type { IndexingJob } from "../types/youtube-schema";
+
+export type IndexingJobHandler = (
+  job: IndexingJob
+) => Promise<Record<string, unknown>>;
+
+export type IndexingJobHandlers = Record<
+  IndexingJob["type"],
+  IndexingJobHandler
+> & {
+  // Called after a job is failed for good without its handler running
+  onAbandoned?: (job: IndexingJob) => Promise<void>;
+};
+
+export type IndexingWorkerOptions = {
+  workerId?: string;
+  pollIntervalMs?: number; // wait between claims while the queue is empty
+  heartbeatIntervalMs?: number;
+  staleAfterMs?: number; // running jobs without a heartbeat this long are reclaimed
+  retryDelayMs?: number; // first retry delay, doubled on every attempt
+};
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 15_000;
+const DEFAULT_STALE_AFTER_MS = 60_000;
+const DEFAULT_RETRY_DELAY_MS = 30_000;
+
+/**
+ * Drains the `IndexingJob` queue one job at a time. Claimed jobs are
+ * heartbeated while their handler runs, so when a worker dies the job goes
+ * back to the queue once its heartbeat is stale. Failed jobs are retried
+ * with exponential backoff until they run out of attempts.
+ */
+export class IndexingWorker {
+  readonly workerId: string;
+  private readonly store: YouTubeStore;
+  private readonly handlers: IndexingJobHandlers;
+  private readonly pollIntervalMs: number;
+  private readonly heartbeatIntervalMs: number;
+  private readonly staleAfterMs: number;
+  private readonly retryDelayMs: number;
+  private running = false;
+  private loop: Promise<void> | null = null;
+  private wake: (() => void) | null = null;
+
+  constructor(
+    store: YouTubeStore,
+    handlers: IndexingJobHandlers,
+    {
+      workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`,
+      pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+      heartbeatIntervalMs = DEFAULT_HEARTBEAT_INTERVAL_MS,
+      staleAfterMs = DEFAULT_STALE_AFTER_MS,
+      retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    }: IndexingWorkerOptions = {}
+  ) {
+    this.store = store;
+    this.handlers = handlers;
+    this.workerId = workerId;
+    this.pollIntervalMs = pollIntervalMs;
+    this.heartbeatIntervalMs = heartbeatIntervalMs;
+    this.staleAfterMs = staleAfterMs;
+    this.retryDelayMs = retryDelayMs;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    console.log(`👷 [WORKER] ${this.workerId} started`);
+    this.loop = this.run();
+  }
+
+  // Finishes the current job, then stops polling
+  async stop(): Promise<void> {
+    this.running = false;
+    this.wake?.();
+    await this.loop;
+    this.loop = null;
+    console.log(`👷 [WORKER] ${this.workerId} stopped`);
+  }
+
+  // Claims and runs at most one job; false when nothing was due
+  async runOnce(): Promise<boolean> {
+    const staleBefore = new Date(Date.now() - this.staleAfterMs);
+    const job = await this.store.jobs.claim(this.workerId, staleBefore);
+    if (!job) {
+      return false;
+    }
+    await this.runJob(job);
+    return true;
+  }
+
+  private async run(): Promise<void> {
+    while (this.running) {
+      try {
+        if (!(await this.runOnce())) {
+          await this.idle();
+        }
+      } catch (error) {
+        console.error("❌ [WORKER] Failed to claim a job:", error);
+        await this.idle();
+      }
+    }
+  }
+
+  private async runJob(job: IndexingJob): Promise<void> {
+    // Attempts only exceed the limit when workers died while running the job
+    if (job.attempts > job.maxAttempts) {
+      await this.store.jobs.fail(
+        job.id,
+        this.workerId,
+        job.lastError ?? "Worker stopped while running the job",
+        null
+      );
+      try {
+        await this.handlers.onAbandoned?.(job);
+      } catch (error) {
+        console.error(`❌ [WORKER] Cleanup failed for job ${job.id}:`, error);
+      }
+      return;
+    }
+
+    console.log(
+      `🏗️ [WORKER] Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`
+    );
+    const heartbeat = setInterval(() => {
+      this.store.jobs
+        .heartbeat(job.id, this.workerId)
+        .then((owned) => {
+          if (!owned) {
+            console.warn(`⚠️ [WORKER] Lost the lock on job ${job.id}`);
+          }
+        })
+        .catch((error) => {
+          console.error(`❌ [WORKER] Heartbeat failed for ${job.id}:`, error);
+        });
+    }, this.heartbeatIntervalMs);
+
+    try {
+      const result = await this.handlers[job.type](job);
+      await this.store.jobs.complete(job.id, this.workerId, result);
+      console.log(`✅ [WORKER] Completed ${job.type} job ${job.id}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryAt =
+        job.attempts < job.maxAttempts
+          ? new Date(Date.now() + this.retryDelayMs * 2 ** (job.attempts - 1))
+          : null;
+      await this.store.jobs.fail(job.id, this.workerId, message, retryAt);
+      console.error(
+        `❌ [WORKER] ${job.type} job ${job.id} failed: ${message}${retryAt ? `; retrying at ${retryAt.toISOString()}` : ""}`
+      );
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private idle(): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, this.pollIntervalMs);
+      this.wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+}
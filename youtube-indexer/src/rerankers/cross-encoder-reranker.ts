@@ -0,0 +1,56 @@
+import {
+  AutoModelForSequenceClassification,
+  AutoTokenizer,
+} from "@xenova/transformers";
+import type { Reranker } from "./reranker";
+
+const DEFAULT_MODEL = "Xenova/ms-marco-MiniLM-L-6-v2";
+
+type CrossEncoderRerankerOptions = {
+  model?: string;
+};
+
+/**
+ * Scores query/passage pairs with a cross-encoder run in-process with
+ * transformers.js. Unlike embeddings, the model reads the query and the
+ * passage together, which is slower but ranks more precisely. The model is
+ * downloaded on first use.
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly model: string;
+  readonly deterministic = true;
+  // biome-ignore lint/suspicious/noExplicitAny: transformers.js models are untyped
+  private loaded: Promise<{ tokenizer: any; classifier: any }> | null = null;
+
+  constructor({ model = DEFAULT_MODEL }: CrossEncoderRerankerOptions = {}) {
+    this.model = model;
+  }
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    if (passages.length === 0) {
+      return [];
+    }
+
+    // Cache the model to avoid reloading it on every call
+    if (!this.loaded) {
+      this.loaded = Promise.all([
+        AutoTokenizer.from_pretrained(this.model),
+        AutoModelForSequenceClassification.from_pretrained(this.model),
+      ]).then(([tokenizer, classifier]) => ({ tokenizer, classifier }));
+    }
+    const { tokenizer, classifier } = await this.loaded;
+
+    const inputs = tokenizer(new Array(passages.length).fill(query), {
+      text_pair: passages,
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await classifier(inputs);
+
+    // One relevance logit per pair; squash it into 0-1
+    return Array.from(
+      logits.data as Float32Array,
+      (logit) => 1 / (1 + Math.exp(-logit))
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { generateObject, type LanguageModel } from "ai";
+import { z } from "zod";
+import type { Reranker } from "./reranker";
+
+// Keeps the prompt bounded when chunks are long
+const MAX_PASSAGE_LENGTH = 1000;
+const MAX_SCORE = 10;
+
+type LlmRerankerOptions = {
+  model: LanguageModel;
+};
+
+/**
+ * Asks a language model to grade every passage against the query in a
+ * single call. Slower and costlier than a cross-encoder, but needs no local
+ * model and works with any provider the chatbot is configured with.
+ */
+export class LlmReranker implements Reranker {
+  readonly model: string;
+  readonly deterministic = false;
+  private readonly languageModel: LanguageModel;
+
+  constructor({ model }: LlmRerankerOptions) {
+    this.languageModel = model;
+    this.model = `llm:${typeof model === "string" ? model : model.modelId}`;
+  }
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    if (passages.length === 0) {
+      return [];
+    }
+
+    const { object } = await generateObject({
+      model: this.languageModel,
+      schema: z.object({
+        scores: z.array(
+          z.object({
+            passage: z.number().int(),
+            score: z.number().min(0).max(MAX_SCORE),
+          })
+        ),
+      }),
+      system: `You grade how well video transcript passages answer a search query. Score every passage from 0 (unrelated) to ${MAX_SCORE} (answers the query directly). Judge relevance only, not writing quality.`,
+      prompt: `Query: ${query}\n\n${passages
+        .map(
+          (passage, index) =>
+            `Passage ${index}:\n${passage.slice(0, MAX_PASSAGE_LENGTH)}`
+        )
+        .join("\n\n")}`,
+    });
+
+    // Passages the model skipped count as irrelevant
+    const scores = new Array<number>(passages.length).fill(0);
+    for (const { passage, score } of object.scores) {
+      if (passage >= 0 && passage < passages.length) {
+        scores[passage] = score / MAX_SCORE;
+      }
+    }
+    return scores;
+  }
+}
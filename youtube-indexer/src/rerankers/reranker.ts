@@ -0,0 +1,48 @@
+import type { LanguageModel } from "ai";
+import { CrossEncoderReranker } from "./cross-encoder-reranker";
+import { LlmReranker } from "./llm-reranker";
+
+export type Reranker = {
+  // Identifier reported next to every reranked result
+  readonly model: string;
+  // Whether the same passages always get the same scores; paged searches
+  // rerank every page, so they skip rerankers that are not
+  readonly deterministic: boolean;
+  // One relevance score (0-1) per passage, in passage order
+  score(query: string, passages: string[]): Promise<number[]>;
+};
+
+export type RerankerName = "cross-encoder" | "llm" | "none";
+
+export type RerankerOptions = {
+  provider?: RerankerName;
+  model?: string; // cross-encoder model name
+  languageModel?: LanguageModel; // judge model for the llm reranker
+};
+
+/**
+ * Builds the reranker chosen by `provider` or `$RERANKER`, or returns null
+ * when reranking is off (the default).
+ */
+export function createReranker({
+  provider,
+  model = process.env.RERANKER_MODEL,
+  languageModel,
+}: RerankerOptions = {}): Reranker | null {
+  const name =
+    provider ?? (process.env.RERANKER as RerankerName | undefined) ?? "none";
+
+  switch (name) {
+    case "cross-encoder":
+      return new CrossEncoderReranker({ model });
+    case "llm":
+      if (!languageModel) {
+        throw new Error("The llm reranker needs a language model");
+      }
+      return new LlmReranker({ model: languageModel });
+    case "none":
+      return null;
+    default:
+      throw new Error(`Unknown reranker: ${name}`);
+  }
+}
@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { InMemoryYouTubeStore } from "../db/memory-store";
+import type { YouTubeChannel } from "../types/youtube-schema";
+import { compareChannelUploads } from "./channel-sync";
+import type { VideoListing } from "./youtube-indexer";
+
+let store: InMemoryYouTubeStore;
+
+beforeEach(() => {
+  store = new InMemoryYouTubeStore();
+});
+
+// Listed newest first, one upload a day up to 2024-06-10
+function listing(videoIds: string[]): VideoListing[] {
+  return videoIds.map((videoId, position) => ({
+    videoId,
+    title: `Video ${videoId}`,
+    duration: 600,
+    viewCount: 100,
+    likeCount: 10,
+    publishedAt: new Date(Date.UTC(2024, 5, 10 - position)).toISOString(),
+  }));
+}
+
+async function indexChannel(
+  maxVideos: number | null,
+  videos: VideoListing[]
+): Promise<YouTubeChannel> {
+  const channel = await store.channels.upsert({
+    channelId: "baking",
+    channelName: "Baking",
+    channelUrl: "https://www.youtube.com/@baking",
+    maxVideos,
+  });
+  for (const video of videos) {
+    await store.videos.upsert({
+      channelId: channel.id,
+      videoId: video.videoId,
+      title: video.title,
+      publishedAt: new Date(video.publishedAt),
+      viewCount: video.viewCount,
+      likeCount: video.likeCount,
+      videoUrl: `https://www.youtube.com/watch?v=${video.videoId}`,
+    });
+  }
+  await store.channels.markIndexed(channel.id);
+  return (await store.channels.findById(channel.id)) as YouTubeChannel;
+}
+
+const videoIds = (videos: VideoListing[]) =>
+  videos.map(({ videoId }) => videoId);
+
+describe("compareChannelUploads", () => {
+  test("leaves the back catalogue of a capped channel out", async () => {
+    const channel = await indexChannel(3, listing(["c", "d", "e"]));
+
+    const comparison = await compareChannelUploads(
+      store,
+      channel,
+      listing(["a", "b", "c", "d", "e", "f", "g", "h"])
+    );
+
+    expect(videoIds(comparison.newVideos)).toEqual(["a", "b"]);
+    expect(comparison.olderVideos).toBe(3);
+    expect(comparison.unchangedVideos).toBe(3);
+  });
+
+  test("queues no more new uploads than the channel's cap", async () => {
+    const channel = await indexChannel(2, listing(["e", "f"]));
+
+    const comparison = await compareChannelUploads(
+      store,
+      channel,
+      listing(["a", "b", "c", "d", "e", "f"])
+    );
+
+    expect(videoIds(comparison.newVideos)).toEqual(["a", "b"]);
+    expect(comparison.olderVideos).toBe(2);
+  });
+
+  test("queues every new upload of an uncapped channel", async () => {
+    const channel = await indexChannel(null, listing(["d", "e"]));
+
+    const comparison = await compareChannelUploads(
+      store,
+      channel,
+      listing(["a", "b", "c", "d", "e"])
+    );
+
+    expect(videoIds(comparison.newVideos)).toEqual(["a", "b", "c"]);
+  });
+
+  test("falls back to upload dates when no stored video is listed", async () => {
+    const channel = {
+      ...(await indexChannel(null, [])),
+      lastSyncedAt: new Date("2024-06-09T18:00:00Z"),
+    };
+
+    const comparison = await compareChannelUploads(
+      store,
+      channel,
+      listing(["a", "b", "c"])
+    );
+
+    // Uploaded on the day of the last sync, possibly after it
+    expect(videoIds(comparison.newVideos)).toEqual(["a", "b"]);
+    expect(comparison.olderVideos).toBe(1);
+  });
+
+  test("refreshes changed counts and keeps counts the listing lacks", async () => {
+    const channel = await indexChannel(null, listing(["a", "b"]));
+    const [first, second] = listing(["a", "b"]);
+
+    const comparison = await compareChannelUploads(store, channel, [
+      { ...first, viewCount: 250 },
+      { ...second, viewCount: Number.NaN, likeCount: Number.NaN },
+    ]);
+
+    expect(comparison.updatedVideos).toEqual([
+      {
+        videoId: "a",
+        title: "Video a",
+        viewCount: { before: 100, after: 250 },
+        likeCount: { before: 10, after: 10 },
+      },
+    ]);
+    expect(comparison.unchangedVideos).toBe(1);
+    expect((await store.videos.findByVideoId("a"))?.viewCount).toBe(250);
+  });
+});
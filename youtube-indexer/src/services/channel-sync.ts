@@ -0,0 +1,102 @@
+import type { YouTubeStore } from "../db/store";
+import type { YouTubeChannel } from "../types/youtube-schema";
+import type { VideoListing, VideoStatsChange } from "./youtube-indexer";
+
+export type ChannelUploadsComparison = {
+  newVideos: VideoListing[]; // to index, newest first
+  updatedVideos: VideoStatsChange[];
+  unchangedVideos: number;
+  olderVideos: number; // not stored or queued: older uploads, or past the cap
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Compares a channel's listed uploads, newest first, with its stored videos
+ * and refreshes the stored view and like counts.
+ *
+ * Only uploads listed before the newest stored video are new. Older uploads
+ * that are not stored were left out by the channel's `maxVideos` cap, so they
+ * stay out. When none of the stored videos is listed, uploads published since
+ * the channel was last synced or indexed are new instead. At most `maxVideos`
+ * new uploads are returned.
+ */
+export async function compareChannelUploads(
+  store: YouTubeStore,
+  channel: YouTubeChannel,
+  listed: VideoListing[]
+): Promise<ChannelUploadsComparison> {
+  const stored = new Map(
+    (await store.videos.findByChannel(channel.id)).map((video) => [
+      video.videoId,
+      video,
+    ])
+  );
+  const newestStored = listed.findIndex(({ videoId }) => stored.has(videoId));
+  const isNew = createNewUploadFilter(channel, newestStored);
+
+  const comparison: ChannelUploadsComparison = {
+    newVideos: [],
+    updatedVideos: [],
+    unchangedVideos: 0,
+    olderVideos: 0,
+  };
+
+  for (const [position, video] of listed.entries()) {
+    const existing = stored.get(video.videoId);
+    if (!existing) {
+      if (isNew(video, position)) {
+        comparison.newVideos.push(video);
+      } else {
+        comparison.olderVideos++;
+      }
+      continue;
+    }
+
+    // Flat listings report missing counts as NaN; keep the stored value then
+    const viewCount = Number.isFinite(video.viewCount)
+      ? video.viewCount
+      : existing.viewCount;
+    const likeCount = Number.isFinite(video.likeCount)
+      ? video.likeCount
+      : existing.likeCount;
+    if (viewCount === existing.viewCount && likeCount === existing.likeCount) {
+      comparison.unchangedVideos++;
+      continue;
+    }
+
+    await store.videos.update(existing.id, { viewCount, likeCount });
+    comparison.updatedVideos.push({
+      videoId: video.videoId,
+      title: existing.title,
+      viewCount: { before: existing.viewCount, after: viewCount },
+      likeCount: { before: existing.likeCount, after: likeCount },
+    });
+  }
+
+  if (
+    channel.maxVideos !== null &&
+    comparison.newVideos.length > channel.maxVideos
+  ) {
+    comparison.olderVideos += comparison.newVideos.length - channel.maxVideos;
+    comparison.newVideos = comparison.newVideos.slice(0, channel.maxVideos);
+  }
+  return comparison;
+}
+
+function createNewUploadFilter(
+  channel: YouTubeChannel,
+  newestStored: number
+): (video: VideoListing, position: number) => boolean {
+  if (newestStored !== -1) {
+    return (_video, position) => position < newestStored;
+  }
+
+  const since = channel.lastSyncedAt ?? channel.lastIndexedAt;
+  if (!since) {
+    return () => true;
+  }
+  // Upload dates carry no time of day, so count from the start of that day
+  const cutoff = Math.floor(since.getTime() / DAY_MS) * DAY_MS;
+  return (video) => new Date(video.publishedAt).getTime() >= cutoff;
+}
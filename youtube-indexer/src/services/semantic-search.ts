@@ -1,214 +1,426 @@
-import { and, desc, eq, sql } from "drizzle-orm";
-
-// Database interface - will be injected from the chatbot
-let db: any = null;
-
+import type { ChunkFilters, VideoWithChannel, YouTubeStore } from "../db/store";
+import {
+  type EmbeddingProvider,
+  embedText,
+} from "../embeddings/embedding-provider";
+import type { Reranker } from "../rerankers/reranker";
+import type { TranscriptChunk, YouTubeVideo } from "../types/youtube-schema";
+import { reciprocalRankFusion } from "../utils/rank-fusion";
+import { balanceByGroup } from "../utils/result-balancing";
+import { maximalMarginalRelevance } from "../utils/result-diversification";
 import {
-  searchQuery,
-  type TranscriptChunk,
-  transcriptChunk,
-  videoKeyword,
-  type YouTubeVideo,
-  youtubeChannel,
-  youtubeVideo,
-} from "../types/youtube-schema";
+  decodeSearchCursor,
+  encodeSearchCursor,
+  searchFingerprint,
+} from "../utils/search-cursor";
+import type { SearchRankingCache } from "../utils/search-ranking-cache";
+import { cosineSimilarity, wordOverlap } from "../utils/similarity";
+import { joinOverlappingText } from "../utils/transcript-utils";
 
 // Move regex patterns to top level for performance
-const WORD_SPLIT_REGEX = /\s+/;
 const QUERY_WORD_REGEX = /\s+/;
+const HANDLE_PREFIX_REGEX = /^@/;
 
 export type SearchResult = {
-  chunk: TranscriptChunk;
+  chunk: TranscriptChunk; // best-ranked chunk of the hit
+  // Overlapping or back-to-back chunks of the video merged into this hit, in
+  // time order; just `chunk` unless merging joined several
+  chunks: TranscriptChunk[];
+  content: string; // text of every chunk in the hit, overlap removed
   video: YouTubeVideo;
   channel: { channelName: string; channelUrl: string };
   relevanceScore: number;
   matchedKeywords: string[];
   startTime: number;
   endTime: number;
+  // Where the hybrid search found the chunk; ranks are 1-based, null if absent
+  retrieval: {
+    vectorRank: number | null;
+    similarity: number | null;
+    textRank: number | null;
+  };
+  // Set when a reranker reordered the results; relevanceScore is then its score
+  rerank: {
+    model: string;
+    score: number; // 0-1
+    retrievalScore: number; // relevanceScore before reranking
+    retrievalRank: number; // 1-based rank before reranking
+  } | null;
 };
 
+// Applied in the database before ranking
+export type SearchFilters = Omit<ChunkFilters, "channelDbIds">;
+
 export type SearchOptions = {
+  // Channel scope; all channels given here and in the collection are searched
   channelId?: string;
+  channelIds?: string[];
+  collection?: string; // channel collection name
+  // Interleave channels so one cannot crowd out the others; defaults to true
+  // when the scope has more than one channel
+  balanceChannels?: boolean;
+  filters?: SearchFilters;
   limit?: number;
   similarityThreshold?: number;
   includeKeywords?: boolean;
+  efSearch?: number; // HNSW ef_search for this query, at least the candidate count
+  probes?: number; // IVFFlat probes for this query; pgvector defaults to 1
+  rerank?: boolean; // defaults to true when the service has a reranker
+  rerankCandidates?: number; // top results rescored by the reranker
+  // Merge hits from the same video whose time ranges overlap or nearly
+  // touch into one; defaults to true
+  mergeAdjacent?: boolean;
+  // 0-1 weight of MMR diversification against relevance; 0 keeps the
+  // relevance order. Defaults to 0.3
+  diversity?: number;
 };
 
-export class SemanticSearchService {
-  static setDatabase(database: any) {
-    db = database;
+export type SearchPageOptions = SearchOptions & {
+  cursor?: string | null; // nextCursor of the previous page; omit for the first
+};
+
+export type SearchPage = {
+  results: SearchResult[];
+  offset: number; // results on earlier pages
+  nextCursor: string | null; // null on the last page
+};
+
+export type SemanticSearchServiceOptions = {
+  reranker?: Reranker | null;
+  // Shared across requests so later pages reuse the first page's ranking
+  rankingCache?: SearchRankingCache<SearchResult> | null;
+};
+
+const DEFAULT_RERANK_CANDIDATES = 20;
+// Pages are cut from one ranking of this many results
+export const SEARCH_PAGE_DEPTH = 100;
+// Balancing picks from this many times more candidates than it returns
+const BALANCE_POOL_FACTOR = 3;
+// Merging and diversification drop or demote candidates, so fetch extra
+const DIVERSITY_POOL_FACTOR = 2;
+const DEFAULT_DIVERSITY = 0.3;
+// Hits of one video at most this far apart are merged
+const MERGE_GAP_SECONDS = 10;
+
+// pgvector's default hnsw.ef_search
+const DEFAULT_EF_SEARCH = 40;
+
+// An HNSW scan returns at most ef_search rows, so widen it to the row limit
+function hnswCandidates(
+  efSearch: number | undefined,
+  limit: number
+): number | undefined {
+  if (efSearch === undefined && limit <= DEFAULT_EF_SEARCH) {
+    return;
   }
-  private readonly openaiApiKey: string;
+  return Math.max(efSearch ?? DEFAULT_EF_SEARCH, limit);
+}
+
+// Pages do not need the embeddings, and cached rankings stay small without them
+function withoutEmbeddings(result: SearchResult): SearchResult {
+  return {
+    ...result,
+    chunk: { ...result.chunk, embedding: null },
+    chunks: result.chunks.map((chunk) => ({ ...chunk, embedding: null })),
+  };
+}
+
+// Embeddings are only comparable within one model; fall back to shared words
+function hitSimilarity(a: SearchResult, b: SearchResult): number {
+  if (
+    a.chunk.embedding &&
+    b.chunk.embedding &&
+    a.chunk.embeddingModel === b.chunk.embeddingModel
+  ) {
+    return cosineSimilarity(a.chunk.embedding, b.chunk.embedding);
+  }
+  return wordOverlap(a.content, b.content);
+}
 
-  constructor(openaiApiKey: string) {
-    this.openaiApiKey = openaiApiKey;
+export class SemanticSearchService {
+  private readonly store: YouTubeStore;
+  private readonly embeddings: EmbeddingProvider;
+  private readonly reranker: Reranker | null;
+  private readonly rankingCache: SearchRankingCache<SearchResult> | null;
+
+  constructor(
+    store: YouTubeStore,
+    embeddings: EmbeddingProvider,
+    { reranker = null, rankingCache = null }: SemanticSearchServiceOptions = {}
+  ) {
+    this.store = store;
+    this.embeddings = embeddings;
+    this.reranker = reranker;
+    this.rankingCache = rankingCache;
   }
 
+  /**
+   * Retrieves candidates with hybrid search within the requested channels.
+   * When a reranker is set, the top `rerankCandidates` are rescored into the
+   * reranker's order. Neighbouring hits in a video are merged, the rest are
+   * diversified with MMR, and multi-channel results are interleaved by
+   * channel.
+   */
   async search(
     query: string,
     options: SearchOptions = {}
+  ): Promise<SearchResult[]> {
+    return await this.rank(query, options, options.limit ?? 10);
+  }
+
+  /**
+   * One page of `limit` results, without chunk embeddings. Every page is cut
+   * from the same ranking of the top SEARCH_PAGE_DEPTH results, so following
+   * `nextCursor` returns each result once as long as the index does not
+   * change in between. The first page searches and stores that ranking in the
+   * ranking cache; later pages slice it from there, and search again only
+   * when it is missing. Paging stops at that depth; later results are only
+   * reachable by narrowing the query or filters. Rerankers that are not
+   * deterministic, such as the LLM reranker, would reorder a repeated ranking,
+   * so they are skipped. A cursor only works with the query and options it
+   * was issued for.
+   */
+  async searchPage(
+    query: string,
+    { cursor, ...options }: SearchPageOptions = {}
+  ): Promise<SearchPage> {
+    const { limit = 10 } = options;
+    const fingerprint = searchFingerprint(query, options);
+    const offset = cursor ? decodeSearchCursor(cursor, fingerprint) : 0;
+    const rerank =
+      (options.rerank ?? true) && this.reranker?.deterministic === true;
+
+    let ranked =
+      offset > 0 ? (this.rankingCache?.get(fingerprint) ?? null) : null;
+    if (!ranked && offset < SEARCH_PAGE_DEPTH) {
+      // Later pages repeat the same search, so only the first one is logged
+      const results = await this.rank(
+        query,
+        { ...options, rerank },
+        SEARCH_PAGE_DEPTH,
+        offset === 0
+      );
+      ranked = results.map(withoutEmbeddings);
+      this.rankingCache?.set(fingerprint, ranked);
+    }
+    ranked ??= [];
+    const end = offset + limit;
+    return {
+      results: ranked.slice(offset, end),
+      offset,
+      nextCursor:
+        end < ranked.length ? encodeSearchCursor(end, fingerprint) : null,
+    };
+  }
+
+  // The top `depth` results in their final order
+  private async rank(
+    query: string,
+    options: SearchOptions,
+    depth: number,
+    logQuery = true
   ): Promise<SearchResult[]> {
     const {
-      channelId,
       limit = 10,
-      similarityThreshold = 0.5,
-      includeKeywords = true,
+      rerank = true,
+      rerankCandidates = DEFAULT_RERANK_CANDIDATES,
+      mergeAdjacent = true,
+      diversity = DEFAULT_DIVERSITY,
     } = options;
 
-    console.log(`🔍 [SEARCH] Searching for: "${query}"`);
+    const channelDbIds = await this.resolveChannelScope(options);
+    if (channelDbIds?.length === 0) {
+      return [];
+    }
+    const balance =
+      options.balanceChannels ??
+      (channelDbIds !== null && channelDbIds.length > 1);
+    const reranker = rerank ? this.reranker : null;
+
+    const poolFactor = Math.max(
+      balance ? BALANCE_POOL_FACTOR : 1,
+      mergeAdjacent || diversity > 0 ? DIVERSITY_POOL_FACTOR : 1
+    );
 
-    // Generate embedding for the query
-    const queryEmbedding = await this.generateEmbedding(query);
-    console.log(
-      `🔍 [SEARCH] Generated embedding with ${queryEmbedding.length} dimensions`
+    // Results below the reranked head keep their retrieval order
+    const rerankDepth = Math.max(limit, rerankCandidates) * poolFactor;
+    const poolSize = Math.max(depth * poolFactor, reranker ? rerankDepth : 0);
+    const candidates = await this.retrieve(
+      query,
+      { ...options, limit: poolSize },
+      channelDbIds,
+      logQuery
     );
+    const reranked = reranker
+      ? [
+          ...(await this.rerankResults(
+            reranker,
+            query,
+            candidates.slice(0, rerankDepth)
+          )),
+          ...candidates.slice(rerankDepth),
+        ]
+      : candidates;
+    const merged = mergeAdjacent ? this.mergeAdjacentHits(reranked) : reranked;
+    // Balancing needs the whole pool in order; otherwise stop at depth
+    const diversified =
+      diversity > 0
+        ? maximalMarginalRelevance(
+            merged,
+            hitSimilarity,
+            balance ? merged.length : depth,
+            1 - diversity
+          )
+        : merged;
+
+    return balance
+      ? balanceByGroup(diversified, ({ video }) => video.channelId, depth)
+      : diversified.slice(0, depth);
+  }
 
-    // Convert channel handle to database UUID if needed
-    let channelDbId: string | undefined;
-    if (channelId) {
-      const dbId = await this.getChannelDbIdByHandle(channelId);
-      if (!dbId) {
-        console.log(`⚠️ [SEARCH] Channel not found: ${channelId}`);
-        return [];
-      }
-      channelDbId = dbId;
-    }
+  /**
+   * Runs pgvector similarity and Postgres full-text search in parallel and
+   * merges their rankings with reciprocal rank fusion, so quoted phrases and
+   * rare terms such as product names surface even when embeddings miss them.
+   */
+  private async retrieve(
+    query: string,
+    options: SearchOptions,
+    channelDbIds: string[] | null,
+    logQuery: boolean
+  ): Promise<SearchResult[]> {
+    const {
+      limit = 10,
+      similarityThreshold = 0.5,
+      includeKeywords = true,
+      efSearch,
+      probes,
+      filters,
+    } = options;
 
-    // Log the search query
-    await this.logSearchQuery(query, queryEmbedding, channelDbId);
+    console.log(`🔍 [SEARCH] Searching for: "${query}"`);
 
-    // Search for similar chunks using vector similarity
-    let chunkSimilarities: { chunk: TranscriptChunk; similarity: number }[] =
-      [];
+    // Generate embedding for the query; full-text search still runs without it
+    let queryEmbedding: number[] | null = null;
     try {
-      chunkSimilarities = await this.findSimilarChunks(
-        queryEmbedding,
-        channelDbId,
-        limit * 2, // Get more results for keyword filtering
-        similarityThreshold
-      );
+      queryEmbedding = await embedText(this.embeddings, query);
       console.log(
-        `🔍 [SEARCH] Found ${chunkSimilarities.length} similar chunks via vector search`
+        `🔍 [SEARCH] Generated embedding with ${queryEmbedding.length} dimensions`
       );
     } catch (error) {
-      console.error("❌ [SEARCH] Vector search failed:", error);
-      // Fall back to keyword search only
-      chunkSimilarities = [];
+      console.error("❌ [SEARCH] Query embedding failed:", error);
     }
 
-    // If no vector results, fallback to keyword search
-    if (chunkSimilarities.length === 0) {
-      console.log("🔄 [SEARCH] No vector results, trying keyword search...");
+    // Log the search query
+    if (logQuery && queryEmbedding && channelDbIds?.length === 1) {
+      await this.logSearchQuery(query, queryEmbedding, channelDbIds[0]);
+    }
+    const scope = { ...filters, channelDbIds: channelDbIds ?? undefined };
+
+    // Vector and full-text retrieval run side by side; either may fail alone
+    const candidates = limit * 2;
+    const [vectorMatches, textMatches] = await Promise.all([
+      queryEmbedding
+        ? this.store.chunks
+            .findSimilar({
+              embedding: queryEmbedding,
+              model: this.embeddings.model,
+              ...scope,
+              limit: candidates,
+              threshold: similarityThreshold,
+              efSearch: hnswCandidates(efSearch, candidates),
+              probes,
+            })
+            .catch((error) => {
+              console.error("❌ [SEARCH] Vector search failed:", error);
+              return [];
+            })
+        : [],
+      this.store.chunks
+        .searchText({ ...scope, query, limit: candidates })
+        .catch((error) => {
+          console.error("❌ [SEARCH] Full-text search failed:", error);
+          return [];
+        }),
+    ]);
+    console.log(
+      `🔍 [SEARCH] Found ${vectorMatches.length} chunks via vector search and ${textMatches.length} via full-text search`
+    );
+
+    if (vectorMatches.length === 0) {
+      await this.warnOnEmbeddingModelMismatch();
+    }
+
+    // Neither index matched, so fall back to the extracted entity keywords
+    if (vectorMatches.length === 0 && textMatches.length === 0) {
+      console.log("🔄 [SEARCH] No hybrid results, trying keyword search...");
       try {
-        return await this.keywordSearch(query, options);
+        return await this.keywordSearch(query, limit, scope);
       } catch (error) {
         console.error("❌ [SEARCH] Keyword search also failed:", error);
         return [];
       }
     }
 
-    // Process results and add metadata
-    const results: SearchResult[] = [];
-
-    for (const { chunk, similarity } of chunkSimilarities) {
-      try {
-        const video = await this.getVideoById(chunk.videoId);
-        if (!video) {
-          console.log(`⚠️ [SEARCH] Video not found for chunk ${chunk.id}`);
-          continue;
-        }
-
-        const channel = await this.getChannelById(video.channelId);
-        if (!channel) {
-          console.log(`⚠️ [SEARCH] Channel not found for video ${video.id}`);
-          continue;
-        }
+    const similarities = new Map(
+      vectorMatches.map(({ chunk, similarity }) => [chunk.id, similarity])
+    );
+    const fused = reciprocalRankFusion(
+      [
+        vectorMatches.map(({ chunk }) => chunk),
+        textMatches.map(({ chunk }) => chunk),
+      ],
+      (chunk) => chunk.id
+    ).slice(0, limit);
+
+    // Videos, channels and matched keywords for every chunk in two queries
+    const chunks = fused.map(({ item }) => item);
+    const [videos, matchedKeywords] = await Promise.all([
+      this.findVideosWithChannels(chunks),
+      includeKeywords
+        ? this.findMatchingKeywords(chunks, query)
+        : new Map<string, string[]>(),
+    ]);
 
-        // Find matching keywords in this chunk
-        const matchedKeywords = includeKeywords
-          ? await this.findMatchingKeywords(chunk.id, query)
-          : [];
-
-        results.push({
-          chunk,
-          video,
-          channel: {
-            channelName: channel.channelName,
-            channelUrl: channel.channelUrl,
-          },
-          relevanceScore: this.calculateRelevanceScore(
-            chunk,
-            query,
-            matchedKeywords,
-            similarity
-          ),
-          matchedKeywords,
-          startTime: chunk.startTime,
-          endTime: chunk.endTime,
-        });
-      } catch (error) {
-        console.error(`❌ [SEARCH] Error processing chunk ${chunk.id}:`, error);
-        // Continue with next chunk
+    const results: SearchResult[] = [];
+    for (const { item: chunk, score, ranks } of fused) {
+      const context = videos.get(chunk.videoId);
+      if (!context) {
+        console.log(`⚠️ [SEARCH] Video not found for chunk ${chunk.id}`);
+        continue;
       }
-    }
-
-    // Sort by relevance and return top results
-    return results
-      .sort((a, b) => b.relevanceScore - a.relevanceScore)
-      .slice(0, limit);
-  }
 
-  private async findSimilarChunks(
-    queryEmbedding: number[],
-    channelDbId?: string,
-    limit = 20,
-    threshold = 0.5
-  ): Promise<{ chunk: TranscriptChunk; similarity: number }[]> {
-    let whereClause = sql`${transcriptChunk.embedding} IS NOT NULL`;
-
-    if (channelDbId) {
-      whereClause = sql`${whereClause} AND ${youtubeVideo.channelId} = ${channelDbId}`;
+      results.push({
+        chunk,
+        chunks: [chunk],
+        content: chunk.content,
+        video: context.video,
+        channel: {
+          channelName: context.channel.channelName,
+          channelUrl: context.channel.channelUrl,
+        },
+        relevanceScore: score,
+        matchedKeywords: matchedKeywords.get(chunk.id) ?? [],
+        startTime: chunk.startTime,
+        endTime: chunk.endTime,
+        retrieval: {
+          vectorRank: ranks[0],
+          similarity: similarities.get(chunk.id) ?? null,
+          textRank: ranks[1],
+        },
+        rerank: null,
+      });
     }
 
-    // Use pgvector cosine similarity - fix the vector casting
-    const results = await db
-      .select({
-        chunk: transcriptChunk,
-        similarity: sql<number>`1 - (${transcriptChunk.embedding} <=> ${sql.raw(`'[${queryEmbedding.join(",")}]'::vector`)})`,
-      })
-      .from(transcriptChunk)
-      .innerJoin(youtubeVideo, eq(transcriptChunk.videoId, youtubeVideo.id))
-      .where(
-        sql`${whereClause} AND 1 - (${transcriptChunk.embedding} <=> ${sql.raw(`'[${queryEmbedding.join(",")}]'::vector`)}) > ${threshold}`
-      )
-      .orderBy(
-        sql`${transcriptChunk.embedding} <=> ${sql.raw(`'[${queryEmbedding.join(",")}]'::vector`)}`
-      )
-      .limit(limit);
-
-    return results.map((r: any) => ({
-      chunk: r.chunk,
-      similarity: r.similarity,
-    }));
+    // Already in fused rank order
+    return results;
   }
 
   private async keywordSearch(
     query: string,
-    options: SearchOptions
+    limit: number,
+    scope: ChunkFilters
   ): Promise<SearchResult[]> {
-    const { channelId, limit = 10 } = options;
-
-    // Convert channel handle to database UUID if needed
-    let channelDbId: string | undefined;
-    if (channelId) {
-      const dbId = await this.getChannelDbIdByHandle(channelId);
-      if (!dbId) {
-        console.log(`⚠️ [KEYWORD-SEARCH] Channel not found: ${channelId}`);
-        return [];
-      }
-      channelDbId = dbId;
-    }
-
     // Extract keywords from query
     const queryKeywords = this.extractKeywordsFromQuery(query);
 
@@ -217,29 +429,11 @@ export class SemanticSearchService {
     }
 
     // Search for chunks containing these keywords
-    const keywordConditions = queryKeywords.map(
-      (keyword) =>
-        sql`LOWER(${videoKeyword.keyword}) LIKE LOWER(${`%${keyword}%`})`
-    );
-
-    let whereClause = sql`${sql.join(keywordConditions, sql` OR `)}`;
-
-    if (channelDbId) {
-      whereClause = sql`${whereClause} AND ${youtubeVideo.channelId} = ${channelDbId}`;
-    }
-
-    const results = await db
-      .select({
-        chunk: transcriptChunk,
-        keyword: videoKeyword.keyword,
-        confidence: videoKeyword.confidence,
-      })
-      .from(videoKeyword)
-      .innerJoin(transcriptChunk, eq(videoKeyword.chunkId, transcriptChunk.id))
-      .innerJoin(youtubeVideo, eq(transcriptChunk.videoId, youtubeVideo.id))
-      .where(whereClause)
-      .orderBy(desc(videoKeyword.confidence))
-      .limit(limit * 2);
+    const results = await this.store.keywords.findChunkMatches({
+      ...scope,
+      keywords: queryKeywords,
+      limit: limit * 2,
+    });
 
     // Group by chunk and process
     const chunkMap = new Map<
@@ -259,25 +453,25 @@ export class SemanticSearchService {
     }
 
     // Convert to SearchResult format
+    const videos = await this.findVideosWithChannels(
+      [...chunkMap.values()].map(({ chunk }) => chunk)
+    );
     const searchResults: SearchResult[] = [];
 
     for (const [, data] of chunkMap) {
-      const video = await this.getVideoById(data.chunk.videoId);
-      if (!video) {
-        continue;
-      }
-
-      const channel = await this.getChannelById(video.channelId);
-      if (!channel) {
+      const context = videos.get(data.chunk.videoId);
+      if (!context) {
         continue;
       }
 
       searchResults.push({
         chunk: data.chunk,
-        video,
+        chunks: [data.chunk],
+        content: data.chunk.content,
+        video: context.video,
         channel: {
-          channelName: channel.channelName,
-          channelUrl: channel.channelUrl,
+          channelName: context.channel.channelName,
+          channelUrl: context.channel.channelUrl,
         },
         relevanceScore: this.calculateKeywordRelevanceScore(
           data.keywords,
@@ -286,6 +480,8 @@ export class SemanticSearchService {
         matchedKeywords: data.keywords,
         startTime: data.chunk.startTime,
         endTime: data.chunk.endTime,
+        retrieval: { vectorRank: null, similarity: null, textRank: null },
+        rerank: null,
       });
     }
 
@@ -294,33 +490,121 @@ export class SemanticSearchService {
       .slice(0, limit);
   }
 
-  private async findMatchingKeywords(
-    chunkId: string,
-    query: string
-  ): Promise<string[]> {
-    const queryKeywords = this.extractKeywordsFromQuery(query);
-
-    if (queryKeywords.length === 0) {
-      return [];
+  // A failed reranker leaves the retrieval order in place
+  private async rerankResults(
+    reranker: Reranker,
+    query: string,
+    candidates: SearchResult[]
+  ): Promise<SearchResult[]> {
+    if (candidates.length === 0) {
+      return candidates;
     }
 
-    // Create individual LIKE conditions for each keyword
-    const keywordConditions = queryKeywords.map(
-      (keyword) =>
-        sql`LOWER(${videoKeyword.keyword}) LIKE LOWER(${`%${keyword}%`})`
+    let scores: number[];
+    try {
+      scores = await reranker.score(
+        query,
+        candidates.map(({ content }) => content)
+      );
+    } catch (error) {
+      console.error(
+        `❌ [SEARCH] Reranking with ${reranker.model} failed:`,
+        error
+      );
+      return candidates;
+    }
+    console.log(
+      `🔍 [SEARCH] Reranked ${candidates.length} candidates with ${reranker.model}`
     );
 
-    const keywords = await db
-      .select({ keyword: videoKeyword.keyword })
-      .from(videoKeyword)
-      .where(
-        and(
-          eq(videoKeyword.chunkId, chunkId),
-          sql`${sql.join(keywordConditions, sql` OR `)}`
-        )
-      );
+    return candidates
+      .map((result, index) => ({
+        ...result,
+        relevanceScore: scores[index] ?? 0,
+        rerank: {
+          model: reranker.model,
+          score: scores[index] ?? 0,
+          retrievalScore: result.relevanceScore,
+          retrievalRank: index + 1,
+        },
+      }))
+      .sort((a, b) => b.relevanceScore - a.relevanceScore);
+  }
+
+  /**
+   * Folds hits from one video whose time ranges overlap or are at most
+   * MERGE_GAP_SECONDS apart into a single hit spanning all of them. The
+   * merged hit takes the place, scores and chunk of its best-ranked member.
+   */
+  private mergeAdjacentHits(ranked: SearchResult[]): SearchResult[] {
+    const byVideo = new Map<string, SearchResult[]>();
+    for (const result of ranked) {
+      const hits = byVideo.get(result.video.id) ?? [];
+      hits.push(result);
+      byVideo.set(result.video.id, hits);
+    }
+
+    // Sweep each video's hits in time order into runs of neighbours
+    const runOf = new Map<SearchResult, SearchResult[]>();
+    for (const hits of byVideo.values()) {
+      let run: SearchResult[] = [];
+      let runEnd = Number.NEGATIVE_INFINITY;
+      for (const hit of [...hits].sort((a, b) => a.startTime - b.startTime)) {
+        if (hit.startTime > runEnd + MERGE_GAP_SECONDS) {
+          run = [];
+        }
+        run.push(hit);
+        runEnd = Math.max(runEnd, hit.endTime);
+        runOf.set(hit, run);
+      }
+    }
+
+    const merged: SearchResult[] = [];
+    const emitted = new Set<SearchResult[]>();
+    for (const best of ranked) {
+      const run = runOf.get(best) ?? [best];
+      if (emitted.has(run)) {
+        continue;
+      }
+      emitted.add(run);
+      if (run.length === 1) {
+        merged.push(best);
+        continue;
+      }
 
-    return keywords.map((k: any) => k.keyword);
+      const chunks = run.flatMap(({ chunks: members }) => members);
+      merged.push({
+        ...best,
+        chunks,
+        content: run
+          .map(({ content }) => content)
+          .reduce((text, next) => joinOverlappingText(text, next)),
+        startTime: Math.min(...run.map(({ startTime }) => startTime)),
+        endTime: Math.max(...run.map(({ endTime }) => endTime)),
+        matchedKeywords: [
+          ...new Set(run.flatMap(({ matchedKeywords }) => matchedKeywords)),
+        ],
+      });
+    }
+    return merged;
+  }
+
+  // Query keywords found in each chunk, keyed by chunk id
+  private async findMatchingKeywords(
+    chunks: TranscriptChunk[],
+    query: string
+  ): Promise<Map<string, string[]>> {
+    const queryKeywords = this.extractKeywordsFromQuery(query);
+    const rows = await this.store.keywords.findInChunks(
+      chunks.map(({ id }) => id),
+      queryKeywords
+    );
+
+    const byChunk = new Map<string, string[]>();
+    for (const { chunkId, keyword } of rows) {
+      byChunk.set(chunkId, [...(byChunk.get(chunkId) ?? []), keyword]);
+    }
+    return byChunk;
   }
 
   private extractKeywordsFromQuery(query: string): string[] {
@@ -396,34 +680,6 @@ export class SemanticSearchService {
     return stopWords.has(word);
   }
 
-  private calculateRelevanceScore(
-    chunk: TranscriptChunk,
-    query: string,
-    matchedKeywords: string[],
-    similarity: number
-  ): number {
-    // Start with the actual vector similarity score (0-1)
-    let score = similarity;
-
-    // Boost score based on matched keywords
-    score += matchedKeywords.length * 0.05;
-
-    // Boost score for exact phrase matches
-    if (chunk.content.toLowerCase().includes(query.toLowerCase())) {
-      score += 0.1;
-    }
-
-    // Boost score for partial matches
-    const queryWords = query.toLowerCase().split(WORD_SPLIT_REGEX);
-    const contentWords = chunk.content.toLowerCase().split(WORD_SPLIT_REGEX);
-    const matchingWords = queryWords.filter((word) =>
-      contentWords.some((contentWord: string) => contentWord.includes(word))
-    );
-    score += (matchingWords.length / queryWords.length) * 0.05;
-
-    return Math.min(score, 1.0);
-  }
-
   private calculateKeywordRelevanceScore(
     matchedKeywords: string[],
     queryKeywords: string[]
@@ -439,64 +695,73 @@ export class SemanticSearchService {
     return intersection.length / queryKeywords.length;
   }
 
-  private async getVideoById(videoId: string): Promise<YouTubeVideo | null> {
-    const [video] = await db
-      .select()
-      .from(youtubeVideo)
-      .where(eq(youtubeVideo.id, videoId))
-      .limit(1);
-
-    return video || null;
+  // The chunks' videos joined with their channels, keyed by video id
+  private async findVideosWithChannels(
+    chunks: TranscriptChunk[]
+  ): Promise<Map<string, VideoWithChannel>> {
+    const videoIds = [...new Set(chunks.map(({ videoId }) => videoId))];
+    const rows = await this.store.videos.findWithChannels(videoIds);
+    return new Map(rows.map((row) => [row.video.id, row]));
   }
 
-  private async getChannelById(
-    channelId: string
-  ): Promise<{ channelName: string; channelUrl: string } | null> {
-    const [channel] = await db
-      .select({
-        channelName: youtubeChannel.channelName,
-        channelUrl: youtubeChannel.channelUrl,
-      })
-      .from(youtubeChannel)
-      .where(eq(youtubeChannel.id, channelId))
-      .limit(1);
-
-    return channel || null;
-  }
+  /**
+   * Database ids of the channels a search is limited to, or null to search
+   * every channel. Unknown channels and collections are skipped, so a scope
+   * where nothing resolves comes back empty.
+   */
+  private async resolveChannelScope({
+    channelId,
+    channelIds = [],
+    collection,
+  }: SearchOptions): Promise<string[] | null> {
+    const handles = channelId ? [channelId, ...channelIds] : channelIds;
+    if (handles.length === 0 && !collection) {
+      return null;
+    }
+
+    const scope = new Set<string>();
+    const channels = await Promise.all(
+      // Handles are stored without their @
+      handles.map((handle) =>
+        this.store.channels.findByChannelId(
+          handle.replace(HANDLE_PREFIX_REGEX, "")
+        )
+      )
+    );
+    for (const [index, channel] of channels.entries()) {
+      if (channel) {
+        scope.add(channel.id);
+      } else {
+        console.log(`⚠️ [SEARCH] Channel not found: ${handles[index]}`);
+      }
+    }
 
-  private async getChannelDbIdByHandle(
-    channelHandle: string
-  ): Promise<string | null> {
-    const [channel] = await db
-      .select({ id: youtubeChannel.id })
-      .from(youtubeChannel)
-      .where(eq(youtubeChannel.channelId, channelHandle))
-      .limit(1);
+    if (collection) {
+      const found = await this.store.collections.findByName(collection);
+      if (found) {
+        const members = await this.store.collections.findChannels(found.id);
+        for (const member of members) {
+          scope.add(member.id);
+        }
+      } else {
+        console.log(`⚠️ [SEARCH] Collection not found: ${collection}`);
+      }
+    }
 
-    return channel?.id || null;
+    return [...scope];
   }
 
-  private async generateEmbedding(text: string): Promise<number[]> {
-    // In production, this would call OpenAI API
-    // For now, return a mock embedding
-    const response = await fetch("https://api.openai.com/v1/embeddings", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${this.openaiApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        input: text,
-        model: "text-embedding-ada-002",
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.statusText}`);
+  private async warnOnEmbeddingModelMismatch(): Promise<void> {
+    // Vectors from another model are skipped, so a mixed index looks empty
+    const counts = await this.store.chunks.countByEmbeddingModel();
+    const otherModels = counts.filter(
+      ({ model }) => model !== null && model !== this.embeddings.model
+    );
+    if (otherModels.length > 0) {
+      console.warn(
+        `⚠️ [SEARCH] Index has embeddings from ${otherModels.map(({ model, count }) => `${model} (${count})`).join(", ")}; searching with ${this.embeddings.model}. Regenerate embeddings to search them.`
+      );
     }
-
-    const data = await response.json();
-    return data.data[0].embedding;
   }
 
   private async logSearchQuery(
@@ -507,10 +772,11 @@ export class SemanticSearchService {
     try {
       // Only log if we have a valid channelId
       if (channelId) {
-        await db.insert(searchQuery).values({
+        await this.store.searchQueries.log({
           channelId,
           query,
           queryEmbedding,
+          embeddingModel: this.embeddings.model,
           resultsCount: 0, // Will be updated after search
           executionTime: 0, // Will be calculated
         });
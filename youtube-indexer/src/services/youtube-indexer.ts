@@ -1,30 +1,51 @@
 import { pipeline } from "@xenova/transformers";
-import { eq, sql } from "drizzle-orm";
-
-// Database will be injected from the chatbot
-let db: any = null;
-
-// Regex patterns for VTT parsing
-const VTT_NUMBER_REGEX = /^\d+$/;
-
-import { extractKeywordsFromTranscript } from "../extract-keywords";
+import type { IndexStatusUpdate, YouTubeStore } from "../db/store";
+import {
+  EmbeddingPipeline,
+  type EmbeddingPipelineOptions,
+} from "../embeddings/embedding-pipeline";
+import type { EmbeddingProvider } from "../embeddings/embedding-provider";
+import {
+  findCandidatePhrases,
+  matchKeyphrases,
+  scoreKeyphrases,
+} from "../extract-keyphrases";
 import {
-  channelIndexStatus,
-  type TranscriptChunk,
-  transcriptChunk,
-  videoKeyword,
-  type YouTubeChannel,
-  youtubeChannel,
-  youtubeVideo,
+  combineKeywords,
+  extractKeywordsFromTranscript,
+  type Keyword,
+  type KeywordExtractionResult,
+} from "../extract-keywords";
+import type {
+  NewVideoKeyword,
+  TranscriptChunk,
+  VideoIndexingStage,
+  YouTubeChannel,
+  YouTubeVideo,
 } from "../types/youtube-schema";
+import { videoIndexingStages } from "../types/youtube-schema";
+import {
+  chunkTranscriptSegments,
+  parseSRTSegments,
+  parseVTTSegments,
+  segmentsToText,
+  type TranscriptSegment,
+} from "../utils/transcript-utils";
+import { compareChannelUploads } from "./channel-sync";
+import { YtDlpClient } from "./ytdlp-client";
 
 // Configuration
 const CHUNK_SIZE = 400; // tokens per chunk
 const CHUNK_OVERLAP = 50; // token overlap between chunks
 const MAX_KEYWORDS_PER_CHUNK = 20;
+const MAX_KEYWORDS_PER_VIDEO = 50;
+// Candidates looked up in the channel's other transcripts for their idf
+const MAX_KEYPHRASE_CANDIDATES = 50;
+const MAX_KEYPHRASES_PER_VIDEO = 20;
+const MAX_KEYPHRASES_PER_CHUNK = 10;
+const VIDEO_FETCH_TIMEOUT_MS = 30_000; // per yt-dlp call for one video
 
 // Move regex patterns to top level for performance
-const SENTENCE_SPLIT_REGEX = /[.!?]+/;
 const CHANNEL_URL_PATTERNS = [
   /youtube\.com\/@([a-zA-Z0-9_-]+)/,
   /youtube\.com\/c\/([a-zA-Z0-9_-]+)/,
@@ -32,21 +53,94 @@ const CHANNEL_URL_PATTERNS = [
   /youtube\.com\/user\/([a-zA-Z0-9_-]+)/,
 ];
 const DURATION_REGEX = /PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/;
+const HANDLE_PREFIX_REGEX = /^@/;
+
+// A video as listed by the channel fetch, before its transcript is processed
+export type VideoListing = {
+  videoId: string;
+  title: string;
+  duration: number;
+  viewCount: number;
+  likeCount: number;
+  publishedAt: string;
+};
+
+export type VideoStatsChange = {
+  videoId: string;
+  title: string;
+  viewCount: { before: number | null; after: number | null };
+  likeCount: { before: number | null; after: number | null };
+};
+
+export type ChannelSyncReport = {
+  channelDbId: string;
+  listedVideos: number;
+  newVideos: VideoListing[]; // not indexed yet
+  updatedVideos: VideoStatsChange[];
+  unchangedVideos: number;
+  olderVideos: number; // not stored or queued: older uploads, or past the cap
+  runId: string | null; // index run started for the new videos
+};
+
+export type VideoLinkKind = "video" | "playlist";
+
+// Videos from a video or playlist link that belong to one channel
+export type LinkedVideoGroup = {
+  channel: YouTubeChannel;
+  runId: string;
+  videos: VideoListing[];
+};
+
+// The uploader of a linked video, as reported by yt-dlp
+export type VideoOwner = {
+  channelId: string;
+  channelName: string;
+  handle: string | null;
+};
+
+export type LinkedVideo = {
+  owner: VideoOwner;
+  video: VideoListing;
+};
+
+export type YouTubeChannelIndexerOptions = {
+  embedding?: EmbeddingPipelineOptions;
+  ytdlp?: YtDlpClient;
+};
 
-type IndexStatusUpdate = {
-  status: string;
-  progress: number;
-  totalVideos: number;
-  processedVideos: number;
-  errorMessage?: string;
+// Metadata and subtitles downloaded for one video
+type FetchedVideo = {
+  title: string;
+  description: string;
+  duration: number;
+  viewCount: number;
+  likeCount: number;
+  uploadDate: string;
+  segments: TranscriptSegment[];
 };
 
 export class YouTubeChannelIndexer {
-  static setDatabase(database: any) {
-    db = database;
+  private readonly store: YouTubeStore;
+  private readonly embeddings: EmbeddingProvider;
+  private readonly embeddingPipeline: EmbeddingPipeline;
+  private readonly ytdlp: YtDlpClient;
+  // biome-ignore lint/style/useReadonlyClassProperties: runId is assigned when a run starts
+  private runId: string | null = null;
+
+  constructor(
+    store: YouTubeStore,
+    embeddings: EmbeddingProvider,
+    { embedding, ytdlp = new YtDlpClient() }: YouTubeChannelIndexerOptions = {}
+  ) {
+    this.store = store;
+    this.embeddings = embeddings;
+    this.embeddingPipeline = new EmbeddingPipeline(
+      store,
+      embeddings,
+      embedding
+    );
+    this.ytdlp = ytdlp;
   }
-  // biome-ignore lint/style/useReadonlyClassProperties: channelDbId is assigned in indexChannel method
-  private channelDbId: string | null = null;
 
   async initialize() {
     console.log("🔧 Initializing pipelines...");
@@ -61,19 +155,7 @@ export class YouTubeChannelIndexer {
     channelName: string;
     lastIndexedAt: Date | null;
   }> {
-    const channelId = this.extractChannelIdFromUrl(channelUrl);
-
-    const [channel] = await db
-      .select({
-        id: youtubeChannel.id,
-        isIndexed: youtubeChannel.isIndexed,
-        videoCount: youtubeChannel.videoCount,
-        channelName: youtubeChannel.channelName,
-        lastIndexedAt: youtubeChannel.lastIndexedAt,
-      })
-      .from(youtubeChannel)
-      .where(eq(youtubeChannel.channelId, channelId))
-      .limit(1);
+    const channel = await this.findChannelByUrl(channelUrl);
 
     if (!channel) {
       return {
@@ -85,19 +167,21 @@ export class YouTubeChannelIndexer {
     }
 
     // Get actual video count from database
-    const videoCountResult = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(youtubeVideo)
-      .where(eq(youtubeVideo.channelId, channel.id));
+    const videoCount = await this.store.videos.countByChannel(channel.id);
 
     return {
       isIndexed: channel.isIndexed,
-      videoCount: videoCountResult[0]?.count || 0,
+      videoCount,
       channelName: channel.channelName,
       lastIndexedAt: channel.lastIndexedAt,
     };
   }
 
+  async findChannelByUrl(channelUrl: string): Promise<YouTubeChannel | null> {
+    const channelId = this.extractChannelIdFromUrl(channelUrl);
+    return await this.store.channels.findByChannelId(channelId);
+  }
+
   estimateIndexingTime(videoCount: number): {
     estimatedMinutes: number;
     estimatedHours: number;
@@ -120,32 +204,12 @@ export class YouTubeChannelIndexer {
     maxVideos?: number
   ): Promise<void> {
     try {
-      console.log(`🚀 Starting channel indexing: ${channelName}`);
-
-      // Create or update channel record
-      const channel = await this.createChannelRecord(channelUrl, channelName);
-
-      // Store the database ID for later use
-      this.channelDbId = channel.id;
-
-      // Create index status record
-      await this.createIndexStatusRecord(channel.id);
-
-      // Fetch all videos from channel
-      const allVideos = await this.fetchChannelVideosWithYtdlp(channelUrl);
-      const videos = maxVideos ? allVideos.slice(0, maxVideos) : allVideos;
-      console.log(
-        `📺 Found ${allVideos.length} total videos, indexing ${videos.length} videos`
+      const { channel, runId, videos } = await this.prepareChannel(
+        channelUrl,
+        channelName,
+        maxVideos
       );
 
-      // Update status
-      await this.updateIndexStatus({
-        status: "indexing_videos",
-        progress: 10,
-        totalVideos: videos.length,
-        processedVideos: 0,
-      });
-
       // Process videos in parallel batches for better performance
       const BATCH_SIZE = 3; // Process 3 videos at a time (reduced for better performance)
       let processedCount = 0;
@@ -158,13 +222,9 @@ export class YouTubeChannelIndexer {
         );
 
         // Process batch in parallel using optimized yt-dlp method
-        const channelDbId = this.channelDbId;
-        if (channelDbId === undefined) {
-          throw new Error("Channel database ID is not set.");
-        }
         const batchPromises = batch.map(async (video) => {
           try {
-            await this.processVideoWithYtdlp(channelDbId, video);
+            await this.processVideoWithYtdlp(channel.id, video);
             return { success: true, video: video.title };
           } catch (error) {
             console.error(
@@ -196,18 +256,8 @@ export class YouTubeChannelIndexer {
         });
       }
 
-      // Mark channel as indexed
-      await this.markChannelAsIndexed(channel.id);
-      await this.updateIndexStatus({
-        status: "completed",
-        progress: 100,
-        totalVideos: videos.length,
-        processedVideos: videos.length,
-      });
-
+      await this.completeChannel(channel.id, runId, videos.length);
       console.log(`🎉 Channel indexing completed: ${channelName}`);
-      console.log(`📊 Successfully indexed ${videos.length} videos`);
-      console.log("🔍 Channel is now searchable!");
     } catch (error) {
       console.error("❌ Channel indexing failed:", error);
       const errorMessage =
@@ -223,112 +273,335 @@ export class YouTubeChannelIndexer {
     }
   }
 
+  /**
+   * Creates the channel record and a fresh index run, then lists the videos
+   * to index. Callers process the videos themselves, e.g. one job per video.
+   * A job passes its id, so its retries supersede the run instead of
+   * sharing it.
+   */
+  async prepareChannel(
+    channelUrl: string,
+    channelName: string,
+    maxVideos?: number,
+    jobId?: string
+  ): Promise<{
+    channel: YouTubeChannel;
+    runId: string;
+    videos: VideoListing[];
+  }> {
+    console.log(`🚀 Starting channel indexing: ${channelName}`);
+
+    // Create or update channel record; syncs keep to the same cap
+    const channel = await this.createChannelRecord(
+      channelUrl,
+      channelName,
+      maxVideos ?? null
+    );
+
+    // Create index status record
+    const runId = await this.createIndexStatusRecord(channel.id, jobId);
+
+    // Fetch all videos from channel
+    const allVideos = await this.fetchChannelVideosWithYtdlp(channelUrl);
+    const videos = maxVideos ? allVideos.slice(0, maxVideos) : allVideos;
+    console.log(
+      `📺 Found ${allVideos.length} total videos, indexing ${videos.length} videos`
+    );
+
+    // Update status
+    await this.updateIndexStatus({
+      status: "indexing_videos",
+      progress: 10,
+      totalVideos: videos.length,
+      processedVideos: 0,
+    });
+
+    return { channel, runId, videos };
+  }
+
+  /**
+   * Compares the channel's current uploads with its stored videos, refreshes
+   * view and like counts, and starts an index run sized to the new uploads
+   * (see `compareChannelUploads` for what counts as new). Indexing the new
+   * videos is left to the caller, as with `prepareChannel`.
+   * A failed listing throws before the channel is marked synced, so the sync
+   * is retried rather than skipped until its next scheduled run.
+   */
+  async syncChannel(
+    channelDbId: string,
+    jobId?: string
+  ): Promise<ChannelSyncReport> {
+    const channel = await this.store.channels.findById(channelDbId);
+    if (!channel) {
+      throw new Error(`Channel ${channelDbId} not found`);
+    }
+    console.log(`🔄 Syncing channel: ${channel.channelName}`);
+
+    const listed = await this.fetchChannelVideosWithYtdlp(channel.channelUrl);
+    const report: ChannelSyncReport = {
+      channelDbId,
+      listedVideos: listed.length,
+      ...(await compareChannelUploads(this.store, channel, listed)),
+      runId: null,
+    };
+
+    if (report.newVideos.length > 0) {
+      report.runId = await this.createIndexStatusRecord(channelDbId, jobId);
+      await this.updateIndexStatus({
+        status: "indexing_videos",
+        progress: 10,
+        totalVideos: report.newVideos.length,
+        processedVideos: 0,
+      });
+    }
+    await this.store.channels.markSynced(channelDbId);
+
+    console.log(
+      `✅ Sync found ${report.newVideos.length} new videos and refreshed ${report.updatedVideos.length} videos`
+    );
+    return report;
+  }
+
+  /**
+   * Lists the videos behind a single video or playlist link and attaches
+   * them to the channels that uploaded them, creating channels that are not
+   * stored yet. Each channel gets an index run sized to its videos; indexing
+   * them is left to the caller, as with `prepareChannel`.
+   */
+  async prepareVideos(
+    url: string,
+    kind: VideoLinkKind,
+    maxVideos?: number,
+    jobId?: string
+  ): Promise<LinkedVideoGroup[]> {
+    console.log(`🚀 Starting ${kind} indexing: ${url}`);
+
+    const listed = await this.fetchLinkedVideosWithYtdlp(url, kind);
+    const linked = maxVideos ? listed.slice(0, maxVideos) : listed;
+    if (linked.length === 0) {
+      throw new Error(`No videos found for ${kind} ${url}`);
+    }
+
+    const byOwner = new Map<
+      string,
+      { owner: VideoOwner; videos: VideoListing[] }
+    >();
+    for (const { owner, video } of linked) {
+      const group = byOwner.get(owner.channelId);
+      if (group) {
+        group.videos.push(video);
+      } else {
+        byOwner.set(owner.channelId, { owner, videos: [video] });
+      }
+    }
+
+    const groups: LinkedVideoGroup[] = [];
+    for (const { owner, videos } of byOwner.values()) {
+      const channel = await this.findOrCreateOwnerChannel(owner);
+      const runId = await this.createIndexStatusRecord(channel.id, jobId);
+      await this.updateIndexStatus({
+        status: "indexing_videos",
+        progress: 10,
+        totalVideos: videos.length,
+        processedVideos: 0,
+      });
+      groups.push({ channel, runId, videos });
+    }
+
+    console.log(
+      `📺 Found ${linked.length} videos from ${groups.length} channels`
+    );
+    return groups;
+  }
+
+  async indexVideo(channelDbId: string, video: VideoListing): Promise<void> {
+    await this.processVideoWithYtdlp(channelDbId, video);
+  }
+
+  // Counts one finished video and completes the run after the last one
+  async recordVideoProcessed(runId: string): Promise<void> {
+    const status = await this.store.indexStatus.recordVideoProcessed(runId);
+    if (status && status.processedVideos === status.totalVideos) {
+      await this.completeChannel(status.channelId, runId, status.totalVideos);
+      console.log("🎉 Channel indexing completed");
+    }
+  }
+
+  async completeChannel(
+    channelDbId: string,
+    runId: string,
+    totalVideos: number
+  ): Promise<void> {
+    await this.markChannelAsIndexed(channelDbId);
+    await this.store.indexStatus.update(runId, {
+      status: "completed",
+      progress: 100,
+      totalVideos,
+      processedVideos: totalVideos,
+    });
+    console.log(`📊 Successfully indexed ${totalVideos} videos`);
+    console.log("🔍 Channel is now searchable!");
+  }
+
   private async createChannelRecord(
     channelUrl: string,
-    channelName: string
+    channelName: string,
+    maxVideos: number | null
   ): Promise<YouTubeChannel> {
     const channelId = this.extractChannelIdFromUrl(channelUrl);
 
-    // First try to get existing channel
-    const existingChannel = await db
-      .select()
-      .from(youtubeChannel)
-      .where(eq(youtubeChannel.channelId, channelId))
-      .limit(1);
-
-    if (existingChannel.length > 0) {
-      // Update existing channel
-      const [updatedChannel] = await db
-        .update(youtubeChannel)
-        .set({
-          channelName,
-          channelUrl,
-          updatedAt: new Date(),
-        })
-        .where(eq(youtubeChannel.channelId, channelId))
-        .returning();
-
-      return updatedChannel;
-    }
+    // Create the channel, or refresh its name, URL and cap if it already exists
+    return await this.store.channels.upsert({
+      channelId,
+      channelName,
+      channelUrl,
+      maxVideos,
+    });
+  }
 
-    // Create new channel
-    const [newChannel] = await db
-      .insert(youtubeChannel)
-      .values({
-        channelId,
-        channelName,
-        channelUrl,
-        isIndexed: false,
-      })
-      .returning();
+  // Channels indexed from an @handle URL are stored under the handle
+  private async findOrCreateOwnerChannel(
+    owner: VideoOwner
+  ): Promise<YouTubeChannel> {
+    const existing =
+      (owner.handle &&
+        (await this.store.channels.findByChannelId(owner.handle))) ||
+      (await this.store.channels.findByChannelId(owner.channelId));
+    if (existing) {
+      return existing;
+    }
 
-    return newChannel;
+    return await this.store.channels.upsert({
+      channelId: owner.channelId,
+      channelName: owner.channelName,
+      channelUrl: `https://www.youtube.com/channel/${owner.channelId}`,
+    });
   }
 
-  private async createIndexStatusRecord(channelDbId: string): Promise<void> {
-    await db.insert(channelIndexStatus).values({
-      channelId: channelDbId,
-      status: "pending",
-      progress: 0,
-    });
+  // Returns the id of the run, which video jobs report their progress to
+  private async createIndexStatusRecord(
+    channelDbId: string,
+    jobId?: string
+  ): Promise<string> {
+    const run = await this.store.indexStatus.start(channelDbId, jobId);
+    this.runId = run.id;
+    return run.id;
   }
 
-  async fetchChannelVideosWithYtdlp(channelUrl: string): Promise<any[]> {
+  async fetchChannelVideosWithYtdlp(
+    channelUrl: string
+  ): Promise<VideoListing[]> {
     console.log("📺 Fetching videos using yt-dlp...");
 
-    const { exec } = await import("node:child_process");
-    const { promisify } = await import("node:util");
-    const execAsync = promisify(exec);
-
     try {
-      // Get channel videos using yt-dlp
-      const command = `yt-dlp --flat-playlist --print "%(id)s|%(title)s|%(duration)s|%(view_count)s|%(like_count)s|%(upload_date)s" "${channelUrl}"`;
-
+      // Get channel videos using yt-dlp. The title goes last so titles
+      // containing "|" survive the split
       console.log("📥 Running yt-dlp to get channel videos...");
-      const { stdout } = await execAsync(command);
-
-      console.log(
-        `📊 yt-dlp output (first 200 chars): ${stdout.substring(0, 200)}...`
+      const lines = await this.ytdlp.printLines(
+        channelUrl,
+        "%(id)s|%(duration)s|%(view_count)s|%(like_count)s|%(upload_date)s|%(title)s",
+        ["--flat-playlist"]
       );
 
-      const videos: any[] = [];
-      const lines = stdout.trim().split("\n");
-
+      const videos: VideoListing[] = [];
       for (const line of lines) {
-        if (!line.trim()) {
-          continue;
-        }
-
-        const [videoId, title, duration, viewCount, likeCount, uploadDate] =
+        const [videoId, duration, viewCount, likeCount, uploadDate, ...rest] =
           line.split("|");
+        const title = rest.join("|");
 
         if (!videoId || !title) {
           continue;
         }
 
+        // Missing counts stay NaN, which syncs read as "keep the stored value"
         videos.push({
           videoId,
-          title: title.replace(/\|/g, " "), // Clean up title
-          description: "",
+          title,
           publishedAt: uploadDate
             ? this.parseUploadDate(uploadDate)
             : new Date().toISOString(),
-          duration: duration ? Number.parseInt(duration, 10) : 0,
-          viewCount: viewCount ? Number.parseInt(viewCount, 10) : 0,
-          likeCount: likeCount ? Number.parseInt(likeCount, 10) : 0,
-          thumbnailUrl: `https://img.youtube.com/vi/${videoId}/hqdefault.jpg`,
-          videoUrl: `https://www.youtube.com/watch?v=${videoId}`,
+          duration: Number.parseInt(duration, 10) || 0,
+          viewCount: Number.parseInt(viewCount, 10),
+          likeCount: Number.parseInt(likeCount, 10),
         });
       }
 
       console.log(`✅ Found ${videos.length} videos using yt-dlp`);
       return videos;
     } catch (error) {
+      // Rethrow so callers retry instead of treating the channel as empty
       console.error("❌ Error fetching videos with yt-dlp:", error);
-      return [];
+      throw error;
     }
   }
 
+  // Lists a single video or a playlist's entries together with their uploaders
+  async fetchLinkedVideosWithYtdlp(
+    url: string,
+    kind: VideoLinkKind
+  ): Promise<LinkedVideo[]> {
+    console.log(`📺 Fetching ${kind} using yt-dlp...`);
+
+    // Playlist entries without uploader details fall back to the playlist owner.
+    // The title goes last so titles containing "|" survive the split
+    const lines = await this.ytdlp.printLines(
+      url,
+      "%(id)s|%(channel_id,playlist_channel_id)s|%(channel,playlist_channel)s|%(uploader_id)s|%(duration)s|%(view_count)s|%(like_count)s|%(upload_date)s|%(title)s",
+      kind === "video"
+        ? ["--flat-playlist", "--no-playlist"]
+        : ["--flat-playlist"]
+    );
+
+    const videos: LinkedVideo[] = [];
+    for (const line of lines) {
+      const [
+        videoId,
+        channelId,
+        channelName,
+        uploaderId,
+        duration,
+        viewCount,
+        likeCount,
+        uploadDate,
+        ...titleParts
+      ] = line.split("|");
+      const title = titleParts.join("|");
+
+      if (!videoId || !title) {
+        continue;
+      }
+      // yt-dlp prints NA for fields it could not extract
+      if (!channelId || channelId === "NA") {
+        console.warn(`⚠️ Skipping ${videoId}: uploader channel unknown`);
+        continue;
+      }
+
+      videos.push({
+        owner: {
+          channelId,
+          channelName:
+            channelName && channelName !== "NA" ? channelName : channelId,
+          handle: uploaderId?.startsWith("@")
+            ? uploaderId.replace(HANDLE_PREFIX_REGEX, "")
+            : null,
+        },
+        video: {
+          videoId,
+          title,
+          duration: Number.parseInt(duration, 10) || 0,
+          viewCount: Number.parseInt(viewCount, 10),
+          likeCount: Number.parseInt(likeCount, 10),
+          publishedAt: uploadDate
+            ? this.parseUploadDate(uploadDate)
+            : new Date().toISOString(),
+        },
+      });
+    }
+
+    console.log(`✅ Found ${videos.length} videos using yt-dlp`);
+    return videos;
+  }
+
   async fetchChannelVideos(channelUrl: string): Promise<any[]> {
     try {
       console.log("📺 Fetching videos from YouTube API...");
@@ -519,155 +792,92 @@ export class YouTubeChannelIndexer {
     return hours * 3600 + minutes * 60 + seconds;
   }
 
-  private parseVTTContent(vttContent: string): string {
-    // Remove VTT headers and timestamps
-    const lines = vttContent.split("\n");
-    const transcriptLines: string[] = [];
-
-    for (const line of lines) {
-      // Skip empty lines, timestamps, and VTT headers
-      if (
-        line.trim() === "" ||
-        line.includes("-->") ||
-        line.startsWith("WEBVTT") ||
-        VTT_NUMBER_REGEX.test(line.trim())
-      ) {
-        continue;
-      }
-
-      // Remove VTT tags
-      const cleanLine = line
-        .replace(/<[^>]*>/g, "") // Remove HTML tags
-        .replace(/&amp;/g, "&")
-        .replace(/&lt;/g, "<")
-        .replace(/&gt;/g, ">")
-        .replace(/&quot;/g, '"')
-        .replace(/&#39;/g, "'")
-        .trim();
-
-      if (cleanLine) {
-        transcriptLines.push(cleanLine);
-      }
-    }
-
-    return transcriptLines.join(" ").trim();
+  private parseVTTContent(vttContent: string): TranscriptSegment[] {
+    return parseVTTSegments(vttContent);
   }
 
   private async createTranscriptChunks(
     videoDbId: string,
-    transcript: string
+    segments: TranscriptSegment[]
   ): Promise<TranscriptChunk[]> {
-    const sentences = this.splitIntoSentences(transcript);
-    const chunks: TranscriptChunk[] = [];
-    let currentChunk = "";
-    let currentTokens = 0;
-    let chunkIndex = 0;
-    let startTime = 0;
-
-    for (const sentence of sentences) {
-      const sentenceTokens = this.estimateTokenCount(sentence);
-
-      if (currentTokens + sentenceTokens > CHUNK_SIZE && currentChunk) {
-        // Save current chunk
-        const [chunk] = await db
-          .insert(transcriptChunk)
-          .values({
-            videoId: videoDbId,
-            chunkIndex,
-            content: currentChunk.trim(),
-            startTime,
-            endTime: startTime + Math.floor((currentTokens / 4) * 60), // rough time estimate
-            tokenCount: currentTokens,
-          })
-          .returning();
-
-        chunks.push(chunk);
-
-        // Start new chunk with overlap
-        const overlapText = this.getOverlapText(currentChunk, CHUNK_OVERLAP);
-        currentChunk = `${overlapText} ${sentence}`;
-        currentTokens = this.estimateTokenCount(currentChunk);
-        startTime = chunk.endTime;
-        chunkIndex++;
-      } else {
-        currentChunk += (currentChunk ? " " : "") + sentence;
-        currentTokens += sentenceTokens;
-      }
-    }
-
-    // Save final chunk
-    if (currentChunk) {
-      const [chunk] = await db
-        .insert(transcriptChunk)
-        .values({
-          videoId: videoDbId,
-          chunkIndex,
-          content: currentChunk.trim(),
-          startTime,
-          endTime: startTime + Math.floor((currentTokens / 4) * 60),
-          tokenCount: currentTokens,
-        })
-        .returning();
-
-      chunks.push(chunk);
-    }
+    const drafts = chunkTranscriptSegments(segments, {
+      chunkSize: CHUNK_SIZE,
+      chunkOverlap: CHUNK_OVERLAP,
+    });
 
-    return chunks;
+    return await this.store.chunks.insertMany(
+      drafts.map((draft) => ({ videoId: videoDbId, ...draft }))
+    );
   }
 
-  private async processChunk(chunk: TranscriptChunk): Promise<void> {
+  private async processChunk(
+    chunk: TranscriptChunk
+  ): Promise<KeywordExtractionResult> {
     // Extract keywords from chunk
     const keywordResult = await extractKeywordsFromTranscript(chunk.content);
 
-    // Process keywords
-    const keywords = keywordResult.keywords
-      .slice(0, MAX_KEYWORDS_PER_CHUNK)
-      .map((k) => ({
-        videoId: chunk.videoId,
-        chunkId: chunk.id,
-        keyword: k.word,
-        entityType: k.entity,
-        confidence: Math.round(k.score * 100),
-        frequency: 1, // This would be calculated from actual frequency
-        relevance: Math.round(k.score * 100),
-      }));
-
-    // Insert keywords
-    if (keywords.length > 0) {
-      await db.insert(videoKeyword).values(keywords);
-    }
-
-    // Generate embedding for chunk
-    try {
-      const embedding = await this.generateEmbedding(chunk.content);
-      await db
-        .update(transcriptChunk)
-        .set({ embedding })
-        .where(eq(transcriptChunk.id, chunk.id));
-    } catch (error) {
-      console.error(
-        `Failed to generate embedding for chunk ${chunk.id}:`,
-        error
-      );
-    }
+    await this.store.keywords.insertMany(
+      keywordResult.keywords
+        .slice(0, MAX_KEYWORDS_PER_CHUNK)
+        .map((keyword) => toKeywordRow(keyword, chunk.videoId, chunk.id))
+    );
+    return keywordResult;
   }
 
-  private splitIntoSentences(text: string): string[] {
-    return text
-      .split(SENTENCE_SPLIT_REGEX)
-      .map((s) => s.trim())
-      .filter((s) => s.length > 0);
+  /**
+   * Stores the video's keywords as video-level rows (no chunk), counted over
+   * every chunk. Mentions in the overlap between two chunks count twice.
+   */
+  private async storeVideoKeywords(
+    videoDbId: string,
+    chunkKeywords: KeywordExtractionResult[]
+  ): Promise<void> {
+    const { keywords } = combineKeywords(chunkKeywords);
+    await this.store.keywords.insertMany(
+      keywords
+        .slice(0, MAX_KEYWORDS_PER_VIDEO)
+        .map((keyword) => toKeywordRow(keyword, videoDbId, null))
+    );
   }
 
-  private estimateTokenCount(text: string): number {
-    // Rough estimation: 1 token ≈ 4 characters
-    return Math.ceil(text.length / 4);
-  }
+  /**
+   * Stores the video's topics, scored by TF-IDF against the channel's other
+   * chunked transcripts, once for the video and once for each chunk they
+   * occur in. Videos indexed early in a channel see a small corpus, so their
+   * idf is rougher.
+   */
+  private async storeKeyphrases(
+    video: YouTubeVideo,
+    chunks: TranscriptChunk[],
+    transcript: string
+  ): Promise<void> {
+    const candidates = findCandidatePhrases(transcript).slice(
+      0,
+      MAX_KEYPHRASE_CANDIDATES
+    );
+    if (candidates.length === 0) {
+      return;
+    }
 
-  private getOverlapText(text: string, overlapTokens: number): string {
-    const words = text.split(" ");
-    const overlapWords = Math.floor(overlapTokens / 4);
-    return words.slice(-overlapWords).join(" ");
+    const { transcripts, mentions } =
+      await this.store.videos.countTranscriptMentions(
+        video.channelId,
+        candidates.map(({ phrase }) => phrase),
+        video.id
+      );
+    const keyphrases = scoreKeyphrases(candidates, {
+      documents: transcripts,
+      counts: new Map(mentions.map(({ phrase, count }) => [phrase, count])),
+    }).slice(0, MAX_KEYPHRASES_PER_VIDEO);
+
+    await this.store.keywords.insertMany([
+      ...keyphrases.map((keyphrase) => toKeywordRow(keyphrase, video.id, null)),
+      ...chunks.flatMap((chunk) =>
+        matchKeyphrases(keyphrases, chunk.content)
+          .slice(0, MAX_KEYPHRASES_PER_CHUNK)
+          .map((keyphrase) => toKeywordRow(keyphrase, video.id, chunk.id))
+      ),
+    ]);
   }
 
   private extractChannelIdFromUrl(url: string): string {
@@ -683,304 +893,335 @@ export class YouTubeChannelIndexer {
   }
 
   private async updateIndexStatus(update: IndexStatusUpdate): Promise<void> {
-    if (!this.channelDbId) {
-      throw new Error("Channel database ID not set. Call indexChannel first.");
+    if (!this.runId) {
+      throw new Error("No index run started. Call prepareChannel first.");
     }
 
-    const updateData = this.buildUpdateData(update);
+    await this.store.indexStatus.update(this.runId, update);
+  }
 
-    await db
-      .update(channelIndexStatus)
-      .set(updateData)
-      .where(eq(channelIndexStatus.channelId, this.channelDbId));
+  private async markChannelAsIndexed(channelDbId: string): Promise<void> {
+    await this.store.channels.markIndexed(channelDbId);
   }
 
-  private buildUpdateData(update: IndexStatusUpdate) {
-    const updateData: any = {
-      status: update.status,
-      progress: update.progress,
-      totalVideos: update.totalVideos,
-      processedVideos: update.processedVideos,
-    };
+  /**
+   * Runs every indexing stage the video has not completed yet. Each stage
+   * clears rows left by an interrupted attempt before writing its own, so
+   * re-runs and crash recovery continue from the last successful stage.
+   */
+  private async processVideoWithYtdlp(
+    channelDbId: string,
+    video: VideoListing
+  ): Promise<void> {
+    try {
+      let record = await this.store.videos.findByVideoId(video.videoId);
+      if (record && hasReachedStage(record, "embedded")) {
+        console.log(`⏭️ Already indexed: ${video.title}`);
+        return;
+      }
 
-    if (update.errorMessage) {
-      updateData.errorMessage = update.errorMessage;
-    }
+      // Stages: fetched, transcribed
+      let segments = record?.transcriptSegments ?? [];
+      if (!(record && hasReachedStage(record, "transcribed"))) {
+        const fetched = await this.fetchVideoWithYtdlp(video);
+        if (!fetched) {
+          return;
+        }
 
-    if (update.status === "completed") {
-      updateData.completedAt = new Date();
-    }
+        record = await this.store.videos.upsert({
+          channelId: channelDbId,
+          videoId: video.videoId,
+          title: fetched.title || video.title,
+          description: fetched.description || "",
+          publishedAt: fetched.uploadDate
+            ? new Date(fetched.uploadDate)
+            : new Date(),
+          duration: fetched.duration || 0,
+          viewCount: fetched.viewCount || 0,
+          likeCount: fetched.likeCount || 0,
+          thumbnailUrl: `https://img.youtube.com/vi/${video.videoId}/hqdefault.jpg`,
+          videoUrl: `https://www.youtube.com/watch?v=${video.videoId}`,
+          isTranscriptAvailable: false,
+          indexingStage: "fetched",
+        });
 
-    return updateData;
-  }
+        const transcript = segmentsToText(fetched.segments);
+        if (!transcript) {
+          console.log(`⚠️ No transcript available for: ${video.title}`);
+          return;
+        }
 
-  private async markChannelAsIndexed(channelDbId: string): Promise<void> {
-    await db
-      .update(youtubeChannel)
-      .set({
-        isIndexed: true,
-        lastIndexedAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(youtubeChannel.id, channelDbId));
-  }
+        segments = fetched.segments;
+        record = await this.store.videos.update(record.id, {
+          isTranscriptAvailable: true,
+          transcript,
+          transcriptLength: transcript.length,
+          transcriptSegments: segments,
+          indexingStage: "transcribed",
+        });
+      }
 
-  private async generateEmbedding(text: string): Promise<number[]> {
-    const openaiApiKey = process.env.OPENAI_API_KEY;
-    if (!openaiApiKey) {
-      throw new Error("OpenAI API key not found");
-    }
+      // Stage: chunked
+      let chunks: TranscriptChunk[];
+      if (hasReachedStage(record, "chunked")) {
+        chunks = await this.store.chunks.findByVideo(record.id);
+      } else {
+        await this.store.chunks.deleteByVideo(record.id);
+        chunks = await this.createTranscriptChunks(record.id, segments);
+        record = await this.store.videos.update(record.id, {
+          indexingStage: "chunked",
+        });
+      }
 
-    const response = await fetch("https://api.openai.com/v1/embeddings", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${openaiApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        input: text,
-        model: "text-embedding-ada-002",
-      }),
-    });
+      // Stage: keyworded - extract keywords from chunks in parallel
+      if (!hasReachedStage(record, "keyworded")) {
+        await this.store.keywords.deleteByVideo(record.id);
+        const CHUNK_BATCH_SIZE = 10;
+        const chunkKeywords: KeywordExtractionResult[] = [];
+        for (let i = 0; i < chunks.length; i += CHUNK_BATCH_SIZE) {
+          const chunkBatch = chunks.slice(i, i + CHUNK_BATCH_SIZE);
+          chunkKeywords.push(
+            ...(await Promise.all(
+              chunkBatch.map((chunk) => this.processChunk(chunk))
+            ))
+          );
+        }
+        await this.storeVideoKeywords(record.id, chunkKeywords);
+        await this.storeKeyphrases(
+          record,
+          chunks,
+          record.transcript ?? segmentsToText(segments)
+        );
+        record = await this.store.videos.update(record.id, {
+          indexingStage: "keyworded",
+        });
+      }
 
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.statusText}`);
-    }
+      // Stage: embedded - only chunks without a vector from the active model
+      const pending = chunks.filter(
+        (chunk) =>
+          chunk.embedding === null ||
+          chunk.embeddingModel !== this.embeddings.model
+      );
+      const embeddingResult = await this.embeddingPipeline.embedChunks(pending);
+      if (embeddingResult.failed.length > 0) {
+        // Stay at "keyworded" so the next run retries the failed chunks
+        console.warn(
+          `⚠️ ${embeddingResult.failed.length}/${chunks.length} chunks of "${video.title}" could not be embedded: ${embeddingResult.failed[0].reason}`
+        );
+        return;
+      }
+      await this.store.videos.update(record.id, { indexingStage: "embedded" });
 
-    const data = await response.json();
-    return data.data[0].embedding;
+      console.log(`✅ Processed: ${video.title} (${chunks.length} chunks)`);
+    } catch (error) {
+      console.error(`❌ Error processing ${video.title}:`, error);
+      throw error;
+    }
   }
 
-  // New optimized method that processes videos in parallel with yt-dlp
-  private async processVideoWithYtdlp(
-    channelDbId: string,
-    video: any
-  ): Promise<void> {
-    const { exec } = await import("node:child_process");
-    const { promisify } = await import("node:util");
+  // Downloads metadata and subtitles in one yt-dlp call; null when it fails
+  private async fetchVideoWithYtdlp(
+    video: VideoListing
+  ): Promise<FetchedVideo | null> {
     const { mkdir, readdir, readFile, rmdir, unlink } = await import(
       "node:fs/promises"
     );
     const { join } = await import("node:path");
 
-    const execAsync = promisify(exec);
     const videoUrl = `https://www.youtube.com/watch?v=${video.videoId}`;
 
-    try {
-      // Create temp directory
-      const tempDir = join(process.cwd(), "temp_transcripts", video.videoId);
-      await mkdir(tempDir, { recursive: true });
+    // Create temp directory
+    const tempDir = join(process.cwd(), "temp_transcripts", video.videoId);
+    await mkdir(tempDir, { recursive: true });
+
+    const metadataTemplate =
+      "%(title)s|%(description)s|%(duration)s|%(view_count)s|%(like_count)s|%(upload_date)s";
+    const outputTemplate = join(tempDir, "%(id)s.%(ext)s");
+
+    let segments: TranscriptSegment[] = [];
+    let title = video.title;
+    let description = "";
+    let duration = video.duration;
+    let viewCount = video.viewCount;
+    let likeCount = video.likeCount;
+    let uploadDate = video.publishedAt;
 
+    try {
       // Get video metadata and transcript in one yt-dlp call
       // Use more robust yt-dlp options to handle problematic videos
-      const command = `yt-dlp --write-auto-sub --write-subs --skip-download --sub-lang "en,en-US,en-GB" --sub-format "vtt/srt" --print "%(title)s|%(description)s|%(duration)s|%(view_count)s|%(like_count)s|%(upload_date)s" --ignore-errors --no-warnings --extractor-retries 3 --fragment-retries 3 --write-info-json "${videoUrl}" -o "${join(tempDir, "%(id)s.%(ext)s")}"`;
-
-      // Add timeout to prevent hanging
-      const timeoutPromise = new Promise(
-        (_, reject) =>
-          setTimeout(() => reject(new Error("yt-dlp timeout")), 30_000) // 30 second timeout
+      const { stdout } = await this.ytdlp.run(
+        videoUrl,
+        [
+          "--write-auto-sub",
+          "--write-subs",
+          "--skip-download",
+          "--sub-lang",
+          "en,en-US,en-GB",
+          "--sub-format",
+          "vtt/srt",
+          "--print",
+          metadataTemplate,
+          "--ignore-errors",
+          "--no-warnings",
+          "--extractor-retries",
+          "3",
+          "--fragment-retries",
+          "3",
+          "--write-info-json",
+          "-o",
+          outputTemplate,
+        ],
+        { timeoutMs: VIDEO_FETCH_TIMEOUT_MS }
       );
 
-      let transcript = "";
-      let title = video.title;
-      let description = "";
-      let duration = video.duration;
-      let viewCount = video.viewCount;
-      let likeCount = video.likeCount;
-      let uploadDate = video.publishedAt;
-
-      try {
-        const { stdout } = (await Promise.race([
-          execAsync(command),
-          timeoutPromise,
-        ])) as any;
-
-        // Parse metadata
-        const [
-          parsedTitle,
-          parsedDescription,
-          parsedDuration,
-          parsedViewCount,
-          parsedLikeCount,
-          parsedUploadDate,
-        ] = stdout.split("|");
-
-        title = parsedTitle || video.title;
-        description = parsedDescription || "";
-        duration = parsedDuration
-          ? Number.parseInt(parsedDuration, 10)
-          : video.duration;
-        viewCount = parsedViewCount
-          ? Number.parseInt(parsedViewCount, 10)
-          : video.viewCount;
-        likeCount = parsedLikeCount
-          ? Number.parseInt(parsedLikeCount, 10)
-          : video.likeCount;
-        uploadDate = parsedUploadDate
-          ? this.parseUploadDate(parsedUploadDate)
-          : video.publishedAt;
-
-        // Find and read transcript
-        const files = await readdir(tempDir);
+      // Parse metadata
+      const [
+        parsedTitle,
+        parsedDescription,
+        parsedDuration,
+        parsedViewCount,
+        parsedLikeCount,
+        parsedUploadDate,
+      ] = stdout.split("|");
+
+      title = parsedTitle || video.title;
+      description = parsedDescription || "";
+      duration = parsedDuration
+        ? Number.parseInt(parsedDuration, 10)
+        : video.duration;
+      viewCount = parsedViewCount
+        ? Number.parseInt(parsedViewCount, 10)
+        : video.viewCount;
+      likeCount = parsedLikeCount
+        ? Number.parseInt(parsedLikeCount, 10)
+        : video.likeCount;
+      uploadDate = parsedUploadDate
+        ? this.parseUploadDate(parsedUploadDate)
+        : video.publishedAt;
+
+      // Find and read transcript
+      const files = await readdir(tempDir);
+
+      const vttFile = files.find((file) => file.includes(".en.vtt"));
+      const srtFile = files.find((file) => file.includes(".en.srt"));
+      const autoVttFile = files.find(
+        (file) => file.endsWith(".vtt") && !file.includes(".en.vtt")
+      );
+      const autoSrtFile = files.find(
+        (file) => file.endsWith(".srt") && !file.includes(".en.srt")
+      );
 
-        const vttFile = files.find((file) => file.includes(".en.vtt"));
-        const srtFile = files.find((file) => file.includes(".en.srt"));
-        const autoVttFile = files.find(
-          (file) => file.endsWith(".vtt") && !file.includes(".en.vtt")
-        );
-        const autoSrtFile = files.find(
-          (file) => file.endsWith(".srt") && !file.includes(".en.srt")
+      if (vttFile) {
+        console.log(`📝 Found VTT file: ${vttFile}`);
+        const vttContent = await readFile(join(tempDir, vttFile), "utf-8");
+        segments = this.parseVTTContent(vttContent);
+      } else if (srtFile) {
+        console.log(`📝 Found SRT file: ${srtFile}`);
+        const srtContent = await readFile(join(tempDir, srtFile), "utf-8");
+        segments = this.parseSRTContent(srtContent);
+      } else if (autoVttFile) {
+        console.log(`📝 Found auto VTT file: ${autoVttFile}`);
+        const vttContent = await readFile(join(tempDir, autoVttFile), "utf-8");
+        segments = this.parseVTTContent(vttContent);
+      } else if (autoSrtFile) {
+        console.log(`📝 Found auto SRT file: ${autoSrtFile}`);
+        const srtContent = await readFile(join(tempDir, autoSrtFile), "utf-8");
+        segments = this.parseSRTContent(srtContent);
+      } else {
+        console.log(
+          `❌ No subtitle files found for ${video.title}, trying fallback...`
         );
 
-        if (vttFile) {
-          console.log(`📝 Found VTT file: ${vttFile}`);
-          const vttContent = await readFile(join(tempDir, vttFile), "utf-8");
-          transcript = this.parseVTTContent(vttContent);
-        } else if (srtFile) {
-          console.log(`📝 Found SRT file: ${srtFile}`);
-          const srtContent = await readFile(join(tempDir, srtFile), "utf-8");
-          transcript = this.parseSRTContent(srtContent);
-        } else if (autoVttFile) {
-          console.log(`📝 Found auto VTT file: ${autoVttFile}`);
-          const vttContent = await readFile(
-            join(tempDir, autoVttFile),
-            "utf-8"
-          );
-          transcript = this.parseVTTContent(vttContent);
-        } else if (autoSrtFile) {
-          console.log(`📝 Found auto SRT file: ${autoSrtFile}`);
-          const srtContent = await readFile(
-            join(tempDir, autoSrtFile),
-            "utf-8"
-          );
-          transcript = this.parseSRTContent(srtContent);
-        } else {
-          console.log(
-            `❌ No subtitle files found for ${video.title}, trying fallback...`
+        // Try fallback command without language restrictions
+        try {
+          await this.ytdlp.run(
+            videoUrl,
+            [
+              "--write-auto-sub",
+              "--write-subs",
+              "--skip-download",
+              "--sub-format",
+              "vtt/srt",
+              "--print",
+              metadataTemplate,
+              "--ignore-errors",
+              "--no-warnings",
+              "--extractor-retries",
+              "2",
+              "--fragment-retries",
+              "2",
+              "-o",
+              outputTemplate,
+            ],
+            { timeoutMs: VIDEO_FETCH_TIMEOUT_MS }
           );
 
-          // Try fallback command without language restrictions
-          try {
-            const fallbackCommand = `yt-dlp --write-auto-sub --write-subs --skip-download --sub-format "vtt/srt" --print "%(title)s|%(description)s|%(duration)s|%(view_count)s|%(like_count)s|%(upload_date)s" --ignore-errors --no-warnings --extractor-retries 2 --fragment-retries 2 "${videoUrl}" -o "${join(tempDir, "%(id)s.%(ext)s")}"`;
-
-            await Promise.race([execAsync(fallbackCommand), timeoutPromise]);
+          // Check for files again
+          const fallbackFiles = await readdir(tempDir);
 
-            // Check for files again
-            const fallbackFiles = await readdir(tempDir);
+          const anyVttFile = fallbackFiles.find((file) =>
+            file.includes(".vtt")
+          );
+          const anySrtFile = fallbackFiles.find((file) =>
+            file.includes(".srt")
+          );
 
-            const anyVttFile = fallbackFiles.find((file) =>
-              file.includes(".vtt")
+          if (anyVttFile) {
+            const vttContent = await readFile(
+              join(tempDir, anyVttFile),
+              "utf-8"
             );
-            const anySrtFile = fallbackFiles.find((file) =>
-              file.includes(".srt")
-            );
-
-            if (anyVttFile) {
-              const vttContent = await readFile(
-                join(tempDir, anyVttFile),
-                "utf-8"
-              );
-              transcript = this.parseVTTContent(vttContent);
-            } else if (anySrtFile) {
-              const srtContent = await readFile(
-                join(tempDir, anySrtFile),
-                "utf-8"
-              );
-              transcript = this.parseSRTContent(srtContent);
-            }
-          } catch (fallbackError) {
-            console.log(
-              `❌ Fallback also failed for ${video.title}:`,
-              fallbackError instanceof Error
-                ? fallbackError.message
-                : String(fallbackError)
+            segments = this.parseVTTContent(vttContent);
+          } else if (anySrtFile) {
+            const srtContent = await readFile(
+              join(tempDir, anySrtFile),
+              "utf-8"
             );
+            segments = this.parseSRTContent(srtContent);
           }
+        } catch (fallbackError) {
+          console.log(
+            `❌ Fallback also failed for ${video.title}:`,
+            fallbackError instanceof Error
+              ? fallbackError.message
+              : String(fallbackError)
+          );
         }
+      }
 
-        // Clean up temp directory
+      // Clean up temp directory
+      for (const file of files) {
+        await unlink(join(tempDir, file));
+      }
+      await rmdir(tempDir);
+    } catch (error) {
+      // Clean up temp directory on error
+      try {
+        const files = await readdir(tempDir);
         for (const file of files) {
           await unlink(join(tempDir, file));
         }
         await rmdir(tempDir);
-      } catch (error) {
-        // Clean up temp directory on error
-        try {
-          const files = await readdir(tempDir);
-          for (const file of files) {
-            await unlink(join(tempDir, file));
-          }
-          await rmdir(tempDir);
-        } catch {
-          // Ignore cleanup errors
-        }
-
-        console.log(
-          `⚠️ Failed to process ${video.title}: ${error instanceof Error ? error.message : String(error)}`
-        );
-        return;
-      }
-
-      if (!transcript) {
-        console.log(`⚠️ No transcript available for: ${video.title}`);
-        return;
+      } catch {
+        // Ignore cleanup errors
       }
 
-      // Create video record
-      const [videoRecord] = await db
-        .insert(youtubeVideo)
-        .values({
-          channelId: channelDbId,
-          videoId: video.videoId,
-          title: title || video.title,
-          description: description || "",
-          publishedAt: uploadDate ? new Date(uploadDate) : new Date(),
-          duration: duration || 0,
-          viewCount: viewCount || 0,
-          likeCount: likeCount || 0,
-          thumbnailUrl: `https://img.youtube.com/vi/${video.videoId}/hqdefault.jpg`,
-          videoUrl,
-          isTranscriptAvailable: true,
-          transcript,
-          transcriptLength: transcript.length,
-        })
-        .onConflictDoUpdate({
-          target: youtubeVideo.videoId,
-          set: {
-            title: title || video.title,
-            description: description || "",
-            publishedAt: uploadDate ? new Date(uploadDate) : new Date(),
-            duration: duration || 0,
-            viewCount: viewCount || 0,
-            likeCount: likeCount || 0,
-            thumbnailUrl: `https://img.youtube.com/vi/${video.videoId}/hqdefault.jpg`,
-            videoUrl,
-            isTranscriptAvailable: true,
-            transcript,
-            transcriptLength: transcript.length,
-            updatedAt: new Date(),
-          },
-        })
-        .returning();
-
-      // Process transcript into chunks
-      const chunks = await this.createTranscriptChunks(
-        videoRecord.id,
-        transcript
+      console.log(
+        `⚠️ Failed to process ${video.title}: ${error instanceof Error ? error.message : String(error)}`
       );
-
-      // Process chunks in parallel
-      const CHUNK_BATCH_SIZE = 10;
-      for (let i = 0; i < chunks.length; i += CHUNK_BATCH_SIZE) {
-        const chunkBatch = chunks.slice(i, i + CHUNK_BATCH_SIZE);
-        await Promise.all(chunkBatch.map((chunk) => this.processChunk(chunk)));
-      }
-
-      console.log(`✅ Processed: ${video.title} (${chunks.length} chunks)`);
-    } catch (error) {
-      console.error(`❌ Error processing ${video.title}:`, error);
-      throw error;
+      return null;
     }
+
+    return {
+      title,
+      description,
+      duration,
+      viewCount,
+      likeCount,
+      uploadDate,
+      segments,
+    };
   }
 
   private parseUploadDate(uploadDate: string): string {
@@ -1003,36 +1244,36 @@ export class YouTubeChannelIndexer {
     }
   }
 
-  private parseSRTContent(srtContent: string): string {
-    // Remove SRT headers and timestamps
-    const lines = srtContent.split("\n");
-    const transcriptLines: string[] = [];
-
-    for (const line of lines) {
-      // Skip empty lines, timestamps, and SRT headers
-      if (
-        line.trim() === "" ||
-        line.includes("-->") ||
-        VTT_NUMBER_REGEX.test(line.trim())
-      ) {
-        continue;
-      }
-
-      // Remove SRT tags
-      const cleanLine = line
-        .replace(/<[^>]*>/g, "") // Remove HTML tags
-        .replace(/&amp;/g, "&")
-        .replace(/&lt;/g, "<")
-        .replace(/&gt;/g, ">")
-        .replace(/&quot;/g, '"')
-        .replace(/&#39;/g, "'")
-        .trim();
-
-      if (cleanLine) {
-        transcriptLines.push(cleanLine);
-      }
-    }
+  private parseSRTContent(srtContent: string): TranscriptSegment[] {
+    return parseSRTSegments(srtContent);
+  }
+}
 
-    return transcriptLines.join(" ").trim();
+function hasReachedStage(
+  video: YouTubeVideo,
+  stage: VideoIndexingStage
+): boolean {
+  if (!video.indexingStage) {
+    return false;
   }
+  return (
+    videoIndexingStages.indexOf(video.indexingStage) >=
+    videoIndexingStages.indexOf(stage)
+  );
+}
+
+function toKeywordRow(
+  keyword: Keyword,
+  videoDbId: string,
+  chunkId: string | null
+): NewVideoKeyword {
+  return {
+    videoId: videoDbId,
+    chunkId,
+    keyword: keyword.word.slice(0, 200),
+    entityType: keyword.entity,
+    confidence: Math.round(keyword.score * 100),
+    frequency: keyword.count,
+    relevance: Math.round(keyword.relevance * 100),
+  };
 }
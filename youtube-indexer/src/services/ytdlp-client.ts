@@ -0,0 +1,273 @@
+import { spawn } from "node:child_process";
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+const DEFAULT_MAX_OUTPUT_BYTES = 16 * 1024 * 1024;
+const STDERR_TAIL_LENGTH = 2000;
+
+const YOUTUBE_HOSTS = new Set([
+  "youtube.com",
+  "www.youtube.com",
+  "m.youtube.com",
+  "youtu.be",
+]);
+const ID_REGEX = /^[a-zA-Z0-9_-]+$/;
+const SHORT_LINK_PATH_REGEX = /^\/[a-zA-Z0-9_-]+\/?$/;
+const CHANNEL_PATH_REGEX =
+  /^\/(?:@[a-zA-Z0-9._-]+|(?:c|channel|user)\/[a-zA-Z0-9_-]+)(?:\/(?:videos|shorts|streams|playlists))?\/?$/;
+const SHORTS_PATH_REGEX = /^\/shorts\/[a-zA-Z0-9_-]+\/?$/;
+const LINE_BREAK_REGEX = /\r?\n|\r/;
+
+export type YtDlpErrorCode =
+  | "invalid_url"
+  | "spawn_failed"
+  | "timeout"
+  | "output_limit"
+  | "exit";
+
+/**
+ * A yt-dlp run that did not finish cleanly. `stderr` holds the tail of what
+ * yt-dlp reported, `exitCode` is set when the process exited on its own.
+ */
+export class YtDlpError extends Error {
+  readonly code: YtDlpErrorCode;
+  readonly exitCode: number | null;
+  readonly stderr: string;
+
+  constructor(
+    message: string,
+    code: YtDlpErrorCode,
+    {
+      exitCode = null,
+      stderr = "",
+    }: { exitCode?: number | null; stderr?: string } = {}
+  ) {
+    super(message);
+    this.name = "YtDlpError";
+    this.code = code;
+    this.exitCode = exitCode;
+    this.stderr = stderr;
+  }
+}
+
+export type YtDlpProgressHandler = (
+  line: string,
+  stream: "stdout" | "stderr"
+) => void;
+
+export type YtDlpClientOptions = {
+  binaryPath?: string; // defaults to $YTDLP_PATH, then yt-dlp on the PATH
+  timeoutMs?: number;
+  maxOutputBytes?: number; // stdout and stderr combined
+  onProgress?: YtDlpProgressHandler;
+};
+
+export type YtDlpRunOptions = {
+  cwd?: string;
+  timeoutMs?: number;
+  onProgress?: YtDlpProgressHandler;
+};
+
+export type YtDlpResult = {
+  stdout: string;
+  stderr: string;
+};
+
+/**
+ * Returns the URL in normalised form when it is a YouTube channel, video,
+ * shorts or playlist link, otherwise null.
+ */
+export function parseYouTubeUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  if (
+    (parsed.protocol !== "https:" && parsed.protocol !== "http:") ||
+    parsed.username ||
+    parsed.password ||
+    parsed.port ||
+    !YOUTUBE_HOSTS.has(parsed.hostname)
+  ) {
+    return null;
+  }
+
+  const path = parsed.pathname;
+  const isValid =
+    parsed.hostname === "youtu.be"
+      ? SHORT_LINK_PATH_REGEX.test(path)
+      : CHANNEL_PATH_REGEX.test(path) ||
+        SHORTS_PATH_REGEX.test(path) ||
+        (path === "/watch" &&
+          ID_REGEX.test(parsed.searchParams.get("v") ?? "")) ||
+        (path === "/playlist" &&
+          ID_REGEX.test(parsed.searchParams.get("list") ?? ""));
+
+  return isValid ? parsed.toString() : null;
+}
+
+export function isYouTubeUrl(url: string): boolean {
+  return parseYouTubeUrl(url) !== null;
+}
+
+/**
+ * Runs yt-dlp without a shell. Arguments are passed as an argv array and the
+ * URL is validated and placed after `--`, so user input can neither run shell
+ * commands nor be read as a yt-dlp option. Runs are killed once they exceed
+ * the timeout or the output limit. Point `binaryPath` (or `$YTDLP_PATH`) at a
+ * fake script to run without the network.
+ */
+export class YtDlpClient {
+  private readonly binaryPath: string;
+  private readonly timeoutMs: number;
+  private readonly maxOutputBytes: number;
+  private readonly onProgress: YtDlpProgressHandler | undefined;
+
+  constructor({
+    binaryPath = process.env.YTDLP_PATH || "yt-dlp",
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxOutputBytes = DEFAULT_MAX_OUTPUT_BYTES,
+    onProgress,
+  }: YtDlpClientOptions = {}) {
+    this.binaryPath = binaryPath;
+    this.timeoutMs = timeoutMs;
+    this.maxOutputBytes = maxOutputBytes;
+    this.onProgress = onProgress;
+  }
+
+  // Runs `--print <template>` and resolves with the non-empty printed lines
+  async printLines(
+    url: string,
+    template: string,
+    args: string[] = [],
+    options: YtDlpRunOptions = {}
+  ): Promise<string[]> {
+    const { stdout } = await this.run(
+      url,
+      [...args, "--print", template],
+      options
+    );
+    return stdout.split(LINE_BREAK_REGEX).filter((line) => line.trim());
+  }
+
+  run(
+    url: string,
+    args: string[],
+    {
+      cwd,
+      timeoutMs = this.timeoutMs,
+      onProgress = this.onProgress,
+    }: YtDlpRunOptions = {}
+  ): Promise<YtDlpResult> {
+    const safeUrl = parseYouTubeUrl(url);
+    if (!safeUrl) {
+      return Promise.reject(
+        new YtDlpError(`Not a supported YouTube URL: ${url}`, "invalid_url")
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.binaryPath, [...args, "--", safeUrl], {
+        cwd,
+        stdio: ["ignore", "pipe", "pipe"],
+      });
+
+      const stdout: Buffer[] = [];
+      let stderr = "";
+      let outputBytes = 0;
+      let settled = false;
+      const pending = { stdout: "", stderr: "" };
+
+      const finish = (error: YtDlpError | null) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        if (error) {
+          child.kill("SIGKILL");
+          reject(error);
+        } else {
+          resolve({ stdout: Buffer.concat(stdout).toString("utf-8"), stderr });
+        }
+      };
+
+      const timer = setTimeout(() => {
+        finish(
+          new YtDlpError(`yt-dlp timed out after ${timeoutMs}ms`, "timeout", {
+            stderr,
+          })
+        );
+      }, timeoutMs);
+
+      const handleData = (stream: "stdout" | "stderr", chunk: Buffer) => {
+        outputBytes += chunk.length;
+        if (outputBytes > this.maxOutputBytes) {
+          finish(
+            new YtDlpError(
+              `yt-dlp output exceeded ${this.maxOutputBytes} bytes`,
+              "output_limit"
+            )
+          );
+          return;
+        }
+
+        if (stream === "stdout") {
+          stdout.push(chunk);
+        } else {
+          stderr = (stderr + chunk.toString("utf-8")).slice(
+            -STDERR_TAIL_LENGTH
+          );
+        }
+
+        if (onProgress) {
+          // Report whole lines only; keep the unfinished tail for the next chunk
+          const lines = (pending[stream] + chunk.toString("utf-8")).split(
+            LINE_BREAK_REGEX
+          );
+          pending[stream] = lines.pop() ?? "";
+          for (const line of lines) {
+            if (line.trim()) {
+              onProgress(line, stream);
+            }
+          }
+        }
+      };
+
+      child.stdout.on("data", (chunk: Buffer) => handleData("stdout", chunk));
+      child.stderr.on("data", (chunk: Buffer) => handleData("stderr", chunk));
+
+      child.on("error", (error) => {
+        finish(
+          new YtDlpError(
+            `Could not start ${this.binaryPath}: ${error.message}`,
+            "spawn_failed"
+          )
+        );
+      });
+
+      child.on("close", (exitCode) => {
+        if (onProgress && !settled) {
+          for (const stream of ["stdout", "stderr"] as const) {
+            if (pending[stream].trim()) {
+              onProgress(pending[stream], stream);
+            }
+          }
+        }
+        if (exitCode === 0) {
+          finish(null);
+          return;
+        }
+        finish(
+          new YtDlpError(
+            `yt-dlp exited with code ${exitCode}: ${stderr.trim().slice(-500)}`,
+            "exit",
+            { exitCode, stderr }
+          )
+        );
+      });
+    });
+  }
+}
@@ -1,20 +1,26 @@
-import { exec } from "node:child_process";
 import { mkdir, readdir, readFile, rmdir, unlink } from "node:fs/promises";
 import { join } from "node:path";
-import { promisify } from "node:util";
 import { tool } from "ai";
 import { YoutubeTranscript } from "youtube-transcript";
 import { z } from "zod";
-import { extractKeywordsFromTranscript } from "../extract-keywords";
-
-const execAsync = promisify(exec);
+import { extractKeyphrases } from "../extract-keyphrases";
+import {
+  extractKeywordsFromTranscript,
+  type KeywordExtractionResult,
+} from "../extract-keywords";
+import { YtDlpClient } from "../services/ytdlp-client";
+import {
+  parseJSON3Segments,
+  parseSRTSegments,
+  parseVTTSegments,
+  segmentsFromYouTubeTranscript,
+  segmentsToText,
+  type TranscriptSegment,
+} from "../utils/transcript-utils";
+
+const ytdlp = new YtDlpClient();
 
 // Regex patterns for subtitle parsing
-const SRT_NUMBER_REGEX = /^\d+$/;
-const VTT_TIMESTAMP_REGEX = /<[0-9]{2}:[0-9]{2}:[0-9]{2}\.[0-9]{3}><c>/g;
-const VTT_CLOSE_TAG_REGEX = /<\/c>/g;
-const HTML_TAG_REGEX = /<[^>]*>/g;
-const TIMESTAMP_REGEX = /[0-9]{2}:[0-9]{2}:[0-9]{2}\.[0-9]{3}/g;
 const VIDEO_ID_REGEX =
   /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([a-zA-Z0-9_-]{11})/;
 
@@ -63,7 +69,7 @@ export const fetchYouTubeTranscript = tool({
         console.log(
           "🔍 [KEYWORDS] Extracting keywords from cached transcript..."
         );
-        const keywordResult = await extractKeywordsFromTranscript(
+        const keywordResult = await extractTranscriptKeywords(
           cached.transcript
         );
         const keywordsDisplay = formatKeywordsForDisplay(keywordResult);
@@ -90,19 +96,16 @@ export const fetchYouTubeTranscript = tool({
       );
 
       // Try to extract transcript
-      let transcript = "";
+      let segments: TranscriptSegment[] = [];
 
       // Method 1: Try youtube-transcript library first (fastest)
       try {
         console.log("📡 [TRANSCRIPT] Trying youtube-transcript library...");
         const transcriptData = await YoutubeTranscript.fetchTranscript(videoId);
         if (transcriptData && transcriptData.length > 0) {
-          transcript = transcriptData
-            .map((item) => item.text)
-            .join(" ")
-            .trim();
+          segments = segmentsFromYouTubeTranscript(transcriptData);
           console.log(
-            `✅ [TRANSCRIPT] Success via youtube-transcript: ${transcript.length} chars`
+            `✅ [TRANSCRIPT] Success via youtube-transcript: ${segments.length} segments`
           );
         }
       } catch (error) {
@@ -110,11 +113,12 @@ export const fetchYouTubeTranscript = tool({
       }
 
       // Method 2: Try yt-dlp as fallback
-      if (!transcript) {
+      if (segments.length === 0) {
         console.log("📥 [TRANSCRIPT] Trying yt-dlp fallback...");
-        transcript = await extractTranscriptViaYtDlp(videoId);
+        segments = await extractTranscriptViaYtDlp(videoId);
       }
 
+      const transcript = segmentsToText(segments);
       if (!transcript) {
         return {
           success: false,
@@ -140,7 +144,7 @@ export const fetchYouTubeTranscript = tool({
 
       // Extract keywords from the transcript
       console.log("🔍 [KEYWORDS] Starting keyword extraction...");
-      const keywordResult = await extractKeywordsFromTranscript(transcript);
+      const keywordResult = await extractTranscriptKeywords(transcript);
       console.log("✅ [KEYWORDS] Keyword extraction complete:", {
         totalKeywords: keywordResult.totalCount,
         topCategories: Object.keys(keywordResult.groupedKeywords),
@@ -198,19 +202,27 @@ async function getVideoMetadata(videoId: string): Promise<VideoMetadata> {
   return { title: "Unknown", author_name: "Unknown" };
 }
 
-async function extractTranscriptViaYtDlp(videoId: string): Promise<string> {
+async function extractTranscriptViaYtDlp(
+  videoId: string
+): Promise<TranscriptSegment[]> {
   const tempDir = join(process.cwd(), "temp_transcripts");
 
   try {
     await mkdir(tempDir, { recursive: true });
 
-    const command = `yt-dlp --write-subs --write-auto-subs --sub-langs en,en-US,en-GB --skip-download --output "${tempDir}/%(title)s.%(ext)s" "https://www.youtube.com/watch?v=${videoId}"`;
-
     try {
-      await execAsync(command);
+      await ytdlp.run(`https://www.youtube.com/watch?v=${videoId}`, [
+        "--write-subs",
+        "--write-auto-subs",
+        "--sub-langs",
+        "en,en-US,en-GB",
+        "--skip-download",
+        "--output",
+        join(tempDir, "%(title)s.%(ext)s"),
+      ]);
     } catch (error) {
       console.log("⚠️ [TRANSCRIPT] yt-dlp command failed:", error);
-      return "";
+      return [];
     }
 
     const files = await readdir(tempDir);
@@ -220,11 +232,11 @@ async function extractTranscriptViaYtDlp(videoId: string): Promise<string> {
 
     for (const file of subtitleFiles) {
       const filePath = join(tempDir, file);
-      const transcript = await parseSubtitleFile(filePath, file);
+      const segments = await parseSubtitleFile(filePath, file);
 
-      if (transcript) {
+      if (segments.length > 0) {
         console.log(
-          `✅ [TRANSCRIPT] Success via yt-dlp: ${transcript.length} chars`
+          `✅ [TRANSCRIPT] Success via yt-dlp: ${segments.length} segments`
         );
         await unlink(filePath).catch(() => {
           // Ignore cleanup errors
@@ -232,94 +244,57 @@ async function extractTranscriptViaYtDlp(videoId: string): Promise<string> {
         await rmdir(tempDir).catch(() => {
           // Ignore cleanup errors
         });
-        return transcript;
+        return segments;
       }
     }
 
     await rmdir(tempDir).catch(() => {
       // Ignore cleanup errors
     });
-    return "";
+    return [];
   } catch (error) {
     console.error("❌ [TRANSCRIPT] yt-dlp method failed:", error);
-    return "";
-  }
-}
-
-function parseVTT(content: string): string {
-  return content
-    .split("\n")
-    .filter(
-      (line) =>
-        !line.startsWith("WEBVTT") &&
-        !line.includes("-->") &&
-        !line.match(SRT_NUMBER_REGEX) &&
-        line.trim()
-    )
-    .map((line) =>
-      line
-        .replace(VTT_TIMESTAMP_REGEX, "")
-        .replace(VTT_CLOSE_TAG_REGEX, "")
-        .replace(HTML_TAG_REGEX, "")
-        .replace(TIMESTAMP_REGEX, "")
-        .trim()
-    )
-    .filter(
-      (line) =>
-        !line.startsWith("Kind:") && !line.startsWith("Language:") && line
-    )
-    .join(" ")
-    .replace(/\s+/g, " ")
-    .trim();
-}
-
-function parseSRT(content: string): string {
-  return content
-    .split("\n")
-    .filter(
-      (line) =>
-        !line.match(SRT_NUMBER_REGEX) && !line.includes("-->") && line.trim()
-    )
-    .join(" ")
-    .replace(/\s+/g, " ")
-    .trim();
-}
-
-function parseJSON(content: string): string {
-  try {
-    const data = JSON.parse(content);
-    return (
-      data.events
-        ?.map((event: any) => event.segs?.map((seg: any) => seg.utf8).join(""))
-        .filter(Boolean)
-        .join(" ")
-        .replace(/\s+/g, " ")
-        .trim() || ""
-    );
-  } catch {
-    return "";
+    return [];
   }
 }
 
 async function parseSubtitleFile(
   filePath: string,
   fileName: string
-): Promise<string> {
+): Promise<TranscriptSegment[]> {
   const content = await readFile(filePath, "utf-8");
   if (content.length < 10) {
-    return "";
+    return [];
   }
 
-  let transcript = "";
+  let segments: TranscriptSegment[] = [];
   if (fileName.endsWith(".vtt")) {
-    transcript = parseVTT(content);
+    segments = parseVTTSegments(content);
   } else if (fileName.endsWith(".srt")) {
-    transcript = parseSRT(content);
+    segments = parseSRTSegments(content);
   } else if (fileName.endsWith(".json")) {
-    transcript = parseJSON(content);
+    segments = parseJSON3Segments(content);
   }
 
-  return transcript.length > 10 ? transcript : "";
+  return segmentsToText(segments).length > 10 ? segments : [];
+}
+
+// Named entities and topic keyphrases together, most relevant first
+async function extractTranscriptKeywords(
+  transcript: string
+): Promise<KeywordExtractionResult> {
+  const entities = await extractKeywordsFromTranscript(transcript);
+  const topics = extractKeyphrases(transcript);
+  return {
+    keywords: [...entities.keywords, ...topics.keywords].sort(
+      (a, b) => b.relevance - a.relevance
+    ),
+    groupedKeywords: {
+      ...entities.groupedKeywords,
+      ...topics.groupedKeywords,
+    },
+    totalCount: entities.totalCount + topics.totalCount,
+  };
 }
 
 // Helper function to format keywords for display
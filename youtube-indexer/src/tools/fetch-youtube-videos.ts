@@ -2,6 +2,16 @@ import { tool } from "ai";
 import { google } from "googleapis";
 import { z } from "zod";
 
+export type ChannelVideo = {
+  title: string;
+  publishedAt: string;
+  url: string;
+  viewCount: number;
+  description: string;
+  thumbnail: string;
+  channelTitle?: string;
+};
+
 export const fetchYouTubeVideos = tool({
   description:
     "Fetches the most recent videos from a YouTube channel and logs them to console with titles and release dates",
@@ -69,7 +79,10 @@ function extractChannelIdFromUrl(url: string): string | null {
   return null;
 }
 
-async function fetchRealYouTubeVideos(channelId: string, apiKey: string) {
+async function fetchRealYouTubeVideos(
+  channelId: string,
+  apiKey: string
+): Promise<ChannelVideo[]> {
   const youtube = google.youtube({
     version: "v3",
     auth: apiKey,
@@ -162,6 +175,7 @@ async function fetchRealYouTubeVideos(channelId: string, apiKey: string) {
         viewCount: Number.parseInt(video.statistics?.viewCount || "0", 10),
         description: video.snippet?.description || "",
         thumbnail: video.snippet?.thumbnails?.high?.url || "",
+        channelTitle: video.snippet?.channelTitle || undefined,
       }));
     }
 
@@ -208,6 +222,7 @@ async function fetchRealYouTubeVideos(channelId: string, apiKey: string) {
       viewCount: Number.parseInt(video.statistics?.viewCount || "0", 10),
       description: (video.snippet?.description || "").substring(0, 100), // Truncate description
       thumbnail: video.snippet?.thumbnails?.medium?.url || "", // Use medium instead of high
+      channelTitle: video.snippet?.channelTitle || undefined,
     }));
   } catch (error) {
     console.error("Error fetching real YouTube videos:", error);
@@ -216,7 +231,7 @@ async function fetchRealYouTubeVideos(channelId: string, apiKey: string) {
   }
 }
 
-function logVideosAndReturn(videos: any[], _channelUrl: string) {
+function logVideosAndReturn(videos: ChannelVideo[], _channelUrl: string) {
   if (videos.length === 0) {
     return {
       success: true,
@@ -244,7 +259,7 @@ function logVideosAndReturn(videos: any[], _channelUrl: string) {
   };
 }
 
-async function simulateYouTubeAPICall() {
+async function simulateYouTubeAPICall(): Promise<ChannelVideo[]> {
   // Simulate API delay
   await new Promise((resolve) => setTimeout(resolve, 1000));
 
@@ -0,0 +1,153 @@
+import { tool } from "ai";
+import { z } from "zod";
+import type { YouTubeStore } from "../db/store";
+import type { EmbeddingProvider } from "../embeddings/embedding-provider";
+import { enqueueLinkedVideoIndexing } from "../jobs/indexing-jobs";
+import { YouTubeChannelIndexer } from "../services/youtube-indexer";
+import { isYouTubeUrl } from "../services/ytdlp-client";
+import { extractYouTubeLinks } from "../utils/youtube-utils";
+
+type IndexYouTubeVideosProps = {
+  store: YouTubeStore;
+  embeddings: EmbeddingProvider;
+};
+
+// Playlists can be long; index this many videos unless asked for more
+const DEFAULT_MAX_PLAYLIST_VIDEOS = 10;
+
+export const indexYouTubeVideos = ({
+  store,
+  embeddings,
+}: IndexYouTubeVideosProps) =>
+  tool({
+    description:
+      "Index a single YouTube video or the videos in a YouTube playlist for semantic search. Extracts transcripts, generates keywords and creates vector embeddings, and attaches every video to the channel that uploaded it. Use this when the user provides a video or playlist link (youtube.com/watch, youtu.be, youtube.com/shorts or youtube.com/playlist) and wants it indexed.",
+    inputSchema: z.object({
+      url: z
+        .string()
+        .url()
+        .describe(
+          "YouTube video or playlist URL (e.g., https://youtube.com/watch?v=VIDEO_ID or https://youtube.com/playlist?list=PLAYLIST_ID)"
+        ),
+      maxVideos: z
+        .number()
+        .min(1)
+        .optional()
+        .describe(
+          `Maximum number of playlist videos to index (optional, defaults to ${DEFAULT_MAX_PLAYLIST_VIDEOS})`
+        ),
+      confirmIndexing: z
+        .boolean()
+        .optional()
+        .describe("User confirmation to proceed with indexing"),
+    }),
+    execute: async ({ url, maxVideos, confirmIndexing }) => {
+      try {
+        const [link] = isYouTubeUrl(url) ? extractYouTubeLinks(url) : [];
+        if (!link || link.type === "channel") {
+          return {
+            success: false,
+            message: link
+              ? "📺 **Channel Link**\n\nThis is a channel link. Use the channel indexing tool to index its videos."
+              : "❌ **Invalid Link**\n\nPlease provide a YouTube video or playlist URL, e.g. https://youtube.com/watch?v=VIDEO_ID or https://youtube.com/playlist?list=PLAYLIST_ID",
+            url,
+            status: "failed",
+          };
+        }
+
+        const kind = link.type === "playlist" ? "playlist" : "video";
+        const limit =
+          kind === "video" ? 1 : (maxVideos ?? DEFAULT_MAX_PLAYLIST_VIDEOS);
+
+        if (confirmIndexing === false) {
+          return {
+            success: false,
+            message: `❌ **Indexing Cancelled**\n\nThe ${kind} will not be indexed. You can try again anytime by providing the link.`,
+            url,
+            status: "cancelled",
+          };
+        }
+
+        const indexer = new YouTubeChannelIndexer(store, embeddings);
+        const label = kind === "video" ? "Video" : "Playlist";
+
+        // Once confirmed, queue the work for the indexing worker, which
+        // outlives this request. The job lists the videos itself, so nothing
+        // slow runs here and the live progress reports the counts
+        if (confirmIndexing) {
+          const job = await enqueueLinkedVideoIndexing(store, {
+            url,
+            kind,
+            maxVideos: limit,
+          });
+          const estimatedTime = formatEstimate(indexer, limit);
+
+          return {
+            success: true,
+            message: `🚀 **${label} Indexing Queued**\n\n**URL:** ${url}\n**Job:** ${job.id}\n**Estimated time:** up to ${estimatedTime}\n\nThe indexing worker lists ${kind === "video" ? "the video" : `up to ${limit} videos of the playlist`}, extracts transcripts, generates keywords and creates embeddings in the background. The content becomes searchable once indexing is complete.`,
+            jobId: job.id,
+            url,
+            kind,
+            status: "indexing",
+            maxVideos: limit,
+            estimatedTime,
+          };
+        }
+
+        // Otherwise show the plan and ask for confirmation
+        const listed = await indexer.fetchLinkedVideosWithYtdlp(url, kind);
+        if (listed.length === 0) {
+          return {
+            success: false,
+            message: `❌ **No Videos Found**\n\nCould not list any videos for this ${kind}. It may be private, removed or region locked.`,
+            url,
+            status: "failed",
+          };
+        }
+
+        const videos = listed.slice(0, limit);
+        const channels = [
+          ...new Set(videos.map(({ owner }) => owner.channelName)),
+        ];
+        const estimatedTime = formatEstimate(indexer, videos.length);
+        const summary =
+          kind === "video"
+            ? `**Video:** ${videos[0].video.title}\n**Channel:** ${channels[0]}`
+            : `**Videos in playlist:** ${listed.length}\n**Videos to index:** ${videos.length}${videos.length < listed.length ? ` (limited to ${limit})` : ""}\n**Channels:** ${channels.join(", ")}`;
+
+        return {
+          success: false,
+          message: `📺 **YouTube ${label} Found**\n\n${summary}\n**Estimated time:** ${estimatedTime}\n\nVideos are attached to the channel that uploaded them, so they become searchable with that channel's content.\n\n**Would you like me to proceed with indexing?**`,
+          url,
+          kind,
+          status: "awaiting_confirmation",
+          requiresConfirmation: true,
+          totalVideos: listed.length,
+          videosToIndex: videos.length,
+          channels,
+          estimatedTime,
+        };
+      } catch (error) {
+        console.error("❌ [VIDEO-INDEXER] Error:", error);
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return {
+          success: false,
+          message: `❌ **Indexing Failed**\n\n**Error:** ${errorMessage}`,
+          url,
+          status: "failed",
+        };
+      }
+    },
+  });
+
+function formatEstimate(
+  indexer: YouTubeChannelIndexer,
+  videoCount: number
+): string {
+  const { estimatedHours, estimatedMinutes } =
+    indexer.estimateIndexingTime(videoCount);
+  return estimatedHours > 0
+    ? `${estimatedHours} hours`
+    : `${Math.round(estimatedMinutes)} minutes`;
+}
@@ -0,0 +1,184 @@
+import { tool } from "ai";
+import { z } from "zod";
+import type { YouTubeStore } from "../db/store";
+import type { EmbeddingProvider } from "../embeddings/embedding-provider";
+import { YouTubeChannelIndexer } from "../services/youtube-indexer";
+import type { YouTubeChannel } from "../types/youtube-schema";
+
+// Move regex patterns to top level for performance
+const HANDLE_PREFIX_REGEX = /^@/;
+
+type ManageChannelCollectionProps = {
+  store: YouTubeStore;
+  embeddings: EmbeddingProvider;
+};
+
+export const manageChannelCollection = ({
+  store,
+  embeddings,
+}: ManageChannelCollectionProps) =>
+  tool({
+    description:
+      "Create, list, update or delete named channel collections, such as 'competitors' or 'cooking channels'. A collection can then be searched as a whole with the content search tool. Only channels that are already in the database can be added.",
+    inputSchema: z.object({
+      action: z
+        .enum(["list", "create", "add_channels", "remove_channels", "delete"])
+        .describe("What to do"),
+      name: z
+        .string()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("Collection name; required for every action except list"),
+      description: z
+        .string()
+        .max(500)
+        .optional()
+        .describe("Optional description when creating a collection"),
+      channels: z
+        .array(z.string())
+        .max(50)
+        .optional()
+        .describe(
+          "Channel URLs or channel IDs to add or remove (e.g., https://youtube.com/@channelname)"
+        ),
+    }),
+    execute: async ({ action, name, description, channels = [] }) => {
+      try {
+        if (action === "list") {
+          const collections = await store.collections.list();
+          return {
+            success: true,
+            message:
+              collections.length > 0
+                ? `📚 **Channel Collections**\n\n${collections
+                    .map(
+                      ({ collection, channels: members }) =>
+                        `**${collection.name}** (${members.length} channel${members.length === 1 ? "" : "s"})${collection.description ? ` - ${collection.description}` : ""}\n${members.map((channel) => `- ${channel.channelName}`).join("\n") || "- No channels yet"}`
+                    )
+                    .join("\n\n")}`
+                : "📚 **No Channel Collections**\n\nCreate one to search several channels together.",
+            collections: collections.map(
+              ({ collection, channels: members }) => ({
+                name: collection.name,
+                description: collection.description,
+                channels: members.map(summarizeChannel),
+              })
+            ),
+            status: "listed",
+          };
+        }
+
+        if (!name) {
+          return {
+            success: false,
+            message: "❌ **Missing Name**\n\nPlease name the collection.",
+            status: "failed",
+          };
+        }
+
+        const existing = await store.collections.findByName(name);
+        if (action === "delete") {
+          if (existing) {
+            await store.collections.delete(existing.id);
+          }
+          return {
+            success: Boolean(existing),
+            message: existing
+              ? `🗑️ **Collection Deleted**\n\n**${existing.name}** was deleted. Its channels stay indexed.`
+              : `❌ **Collection Not Found**\n\nThere is no collection named "${name}".`,
+            status: existing ? "deleted" : "not_found",
+          };
+        }
+
+        if (!existing && action !== "create") {
+          return {
+            success: false,
+            message: `❌ **Collection Not Found**\n\nThere is no collection named "${name}". Create it first.`,
+            status: "not_found",
+          };
+        }
+
+        const collection =
+          existing && action !== "create"
+            ? existing
+            : await store.collections.upsert(name, description);
+
+        const { found, missing } = await findChannels(
+          store,
+          embeddings,
+          channels
+        );
+        const channelDbIds = found.map(({ id }) => id);
+        if (action === "remove_channels") {
+          await store.collections.removeChannels(collection.id, channelDbIds);
+        } else {
+          await store.collections.addChannels(collection.id, channelDbIds);
+        }
+
+        const members = await store.collections.findChannels(collection.id);
+        const verb = action === "remove_channels" ? "Removed" : "Added";
+        const changed =
+          found.length > 0
+            ? `\n**${verb}:** ${found.map(({ channelName }) => channelName).join(", ")}`
+            : "";
+        const notFound =
+          missing.length > 0
+            ? `\n**Not found:** ${missing.join(", ")} (index these channels first)`
+            : "";
+
+        return {
+          success: missing.length === 0,
+          message: `📚 **Collection ${action === "create" ? (existing ? "Updated" : "Created") : "Updated"}: ${collection.name}**\n${changed}${notFound}\n**Channels (${members.length}):** ${members.map(({ channelName }) => channelName).join(", ") || "None yet"}`,
+          name: collection.name,
+          description: collection.description,
+          channels: members.map(summarizeChannel),
+          missingChannels: missing,
+          status: existing ? "updated" : "created",
+        };
+      } catch (error) {
+        console.error("❌ [COLLECTIONS] Error:", error);
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return {
+          success: false,
+          message: `❌ **Collection Update Failed**\n\n**Error:** ${errorMessage}`,
+          status: "failed",
+        };
+      }
+    },
+  });
+
+// Channels are given as URLs or as stored channel IDs (handle or UC id)
+async function findChannels(
+  store: YouTubeStore,
+  embeddings: EmbeddingProvider,
+  references: string[]
+): Promise<{ found: YouTubeChannel[]; missing: string[] }> {
+  const indexer = new YouTubeChannelIndexer(store, embeddings);
+  const found: YouTubeChannel[] = [];
+  const missing: string[] = [];
+
+  for (const reference of references) {
+    // Unparseable URLs are reported as not found
+    const channel = reference.includes("youtube.com")
+      ? await indexer.findChannelByUrl(reference).catch(() => null)
+      : await store.channels.findByChannelId(
+          reference.replace(HANDLE_PREFIX_REGEX, "")
+        );
+    if (channel) {
+      found.push(channel);
+    } else {
+      missing.push(reference);
+    }
+  }
+  return { found, missing };
+}
+
+function summarizeChannel(channel: YouTubeChannel) {
+  return {
+    channelId: channel.channelId,
+    channelName: channel.channelName,
+    channelUrl: channel.channelUrl,
+  };
+}
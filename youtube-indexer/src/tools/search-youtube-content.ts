@@ -1,145 +1,336 @@
 import { tool } from "ai";
 import { z } from "zod";
-import { SemanticSearchService } from "../services/semantic-search";
-
-export const searchYouTubeContent = tool({
-  description:
-    "Search through indexed YouTube channel content using semantic search. Find specific topics, moments, or discussions across all videos in a channel.",
-  inputSchema: z.object({
-    query: z
-      .string()
-      .min(1)
-      .describe(
-        "Search query (e.g., 'precision stitching', 'train to India', 'healthy relationships')"
-      ),
-    channelId: z
-      .string()
-      .optional()
-      .describe("Optional channel ID to limit search to specific channel"),
-    limit: z
-      .number()
-      .min(1)
-      .max(20)
-      .optional()
-      .default(10)
-      .describe("Number of results to return"),
-  }),
-  execute: async ({ query, channelId, limit = 10 }) => {
-    try {
-      console.log("🔍 [CONTENT-SEARCH] Searching for:", query);
-
-      // Initialize search service
-      const openaiApiKey = process.env.OPENAI_API_KEY;
-      if (!openaiApiKey) {
-        return {
-          success: false,
-          message:
-            "❌ **Search Unavailable**\n\nOpenAI API key not configured. Please contact support.",
-          results: [],
-          totalResults: 0,
-        };
-      }
+import type { YouTubeStore } from "../db/store";
+import type { EmbeddingProvider } from "../embeddings/embedding-provider";
+import type { Reranker } from "../rerankers/reranker";
+import {
+  type SearchFilters,
+  SemanticSearchService,
+} from "../services/semantic-search";
+import { keywordEntityTypes } from "../types/youtube-schema";
 
-      const searchService = new SemanticSearchService(openaiApiKey);
+type SearchYouTubeContentProps = {
+  store: YouTubeStore;
+  embeddings: EmbeddingProvider;
+  reranker?: Reranker | null;
+};
 
-      // Perform semantic search
-      const results = await searchService.search(query, {
-        channelId,
-        limit,
-        similarityThreshold: 0.5,
-        includeKeywords: true,
-      });
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-      if (results.length === 0) {
-        return {
-          success: true,
-          message: `🔍 **No Results Found**\n\n**Query:** "${query}"\n\nNo matching content found in the indexed channels. Try:\n- Using different keywords\n- Being more specific\n- Checking if the channel is fully indexed`,
-          results: [],
-          totalResults: 0,
-        };
-      }
+export const searchYouTubeContent = ({
+  store,
+  embeddings,
+  reranker,
+}: SearchYouTubeContentProps) =>
+  tool({
+    description:
+      "Search through indexed YouTube channel content using semantic search. Find specific topics, moments, or discussions across all videos in a channel, several channels, or a named channel collection. Results can be filtered by publish date, video length, view count, specific videos, or the kind of named entity a clip mentions.",
+    inputSchema: z.object({
+      query: z
+        .string()
+        .min(1)
+        .describe(
+          "Search query (e.g., 'precision stitching', 'train to India', 'healthy relationships')"
+        ),
+      channelId: z
+        .string()
+        .optional()
+        .describe("Optional channel ID to limit search to specific channel"),
+      channelIds: z
+        .array(z.string())
+        .max(20)
+        .optional()
+        .describe(
+          "Optional channel IDs to search together; results are balanced so every channel is represented"
+        ),
+      collection: z
+        .string()
+        .optional()
+        .describe(
+          "Optional channel collection name (e.g. 'competitors') to search every channel in it"
+        ),
+      limit: z
+        .number()
+        .min(1)
+        .max(20)
+        .optional()
+        .default(10)
+        .describe("Number of results to return"),
+      publishedFrom: z
+        .string()
+        .date()
+        .optional()
+        .describe(
+          "Only videos published on or after this date (YYYY-MM-DD), e.g. 2023-01-01 for 'in 2023'"
+        ),
+      publishedTo: z
+        .string()
+        .date()
+        .optional()
+        .describe(
+          "Only videos published on or before this date (YYYY-MM-DD), e.g. 2023-12-31 for 'in 2023'"
+        ),
+      minDurationMinutes: z
+        .number()
+        .min(0)
+        .optional()
+        .describe(
+          "Only videos at least this long, e.g. 20 for 'long-form videos'"
+        ),
+      maxDurationMinutes: z
+        .number()
+        .min(0)
+        .optional()
+        .describe("Only videos at most this long, e.g. 1 for shorts"),
+      minViews: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Only videos with at least this many views"),
+      videoIds: z
+        .array(z.string())
+        .max(50)
+        .optional()
+        .describe("Only search these YouTube video IDs"),
+      entityType: z
+        .enum(keywordEntityTypes)
+        .optional()
+        .describe(
+          "Only clips that mention a named entity of this type: PER (people), ORG (organisations), LOC (places) or MISC (other names such as products and events), or TOPIC for clips with an extracted topic phrase"
+        ),
+    }),
+    execute: async ({
+      query,
+      channelId,
+      channelIds,
+      collection,
+      limit = 10,
+      publishedFrom,
+      publishedTo,
+      minDurationMinutes,
+      maxDurationMinutes,
+      minViews,
+      videoIds,
+      entityType,
+    }) => {
+      try {
+        console.log("🔍 [CONTENT-SEARCH] Searching for:", query);
 
-      // Format results for display
-      const formattedResults = results.map((result, index) => {
-        const timeLink = `${result.video.videoUrl}&t=${result.chunk.startTime}s`;
+        if (collection && !(await store.collections.findByName(collection))) {
+          const names = (await store.collections.list()).map(
+            ({ collection: { name } }) => name
+          );
+          return {
+            success: false,
+            message: `❌ **Collection Not Found**\n\nThere is no channel collection named "${collection}".${names.length > 0 ? `\n\n**Available collections:** ${names.join(", ")}` : "\n\nNo collections exist yet. Create one with the channel collection tool."}`,
+            results: [],
+            totalResults: 0,
+          };
+        }
 
-        return {
-          rank: index + 1,
-          video: {
-            title: result.video.title,
-            url: timeLink,
-            publishedAt: new Date(
-              result.video.publishedAt
-            ).toLocaleDateString(),
-            duration: formatDuration(result.video.duration),
-            viewCount: result.video.viewCount?.toLocaleString(),
-          },
-          channel: result.channel.channelName,
-          content: result.chunk.content,
-          timeRange: `${formatTime(result.chunk.startTime)} - ${formatTime(result.chunk.endTime)}`,
-          relevanceScore: Math.round(result.relevanceScore * 100),
-          matchedKeywords: result.matchedKeywords.slice(0, 5),
+        const filters: SearchFilters = {
+          publishedAfter: publishedFrom ? new Date(publishedFrom) : undefined,
+          // Dates are inclusive, so stop at the start of the next day
+          publishedBefore: publishedTo
+            ? new Date(new Date(publishedTo).getTime() + DAY_MS)
+            : undefined,
+          minDuration:
+            minDurationMinutes === undefined
+              ? undefined
+              : minDurationMinutes * 60,
+          maxDuration:
+            maxDurationMinutes === undefined
+              ? undefined
+              : maxDurationMinutes * 60,
+          minViews,
+          videoIds,
+          entityType,
         };
-      });
-
-      // Group results by video for better organization
-      const resultsByVideo = new Map();
-      for (const result of formattedResults) {
-        const videoKey = result.video.title;
-        if (!resultsByVideo.has(videoKey)) {
-          resultsByVideo.set(videoKey, {
-            video: result.video,
-            channel: result.channel,
-            clips: [],
-          });
+        const filterSummary = describeFilters({
+          publishedFrom,
+          publishedTo,
+          minDurationMinutes,
+          maxDurationMinutes,
+          minViews,
+          videoIds,
+          entityType,
+        });
+        const filterLine = filterSummary
+          ? `**Filters:** ${filterSummary}\n`
+          : "";
+
+        // Initialize search service
+        const searchService = new SemanticSearchService(store, embeddings, {
+          reranker,
+        });
+
+        // Perform semantic search
+        const results = await searchService.search(query, {
+          channelId,
+          channelIds,
+          collection,
+          limit,
+          similarityThreshold: 0.5,
+          includeKeywords: true,
+          filters,
+        });
+
+        if (results.length === 0) {
+          return {
+            success: true,
+            message: `🔍 **No Results Found**\n\n**Query:** "${query}"\n${filterLine}\nNo matching content found in the indexed channels. Try:\n- Using different keywords\n- Being more specific\n${filterSummary ? "- Loosening or removing the filters\n" : ""}- Checking if the channel is fully indexed`,
+            results: [],
+            totalResults: 0,
+            filters: filterSummary || null,
+          };
         }
-        resultsByVideo.get(videoKey).clips.push({
-          content: result.content,
-          timeRange: result.timeRange,
-          relevanceScore: result.relevanceScore,
-          matchedKeywords: result.matchedKeywords,
+
+        // Format results for display
+        const formattedResults = results.map((result, index) => {
+          const timeLink = `${result.video.videoUrl}&t=${result.startTime}s`;
+
+          return {
+            rank: index + 1,
+            // Chunks the clip spans; answers cite them as [cite:CHUNK_ID]
+            chunkIds: result.chunks.map(({ id }) => id),
+            video: {
+              videoId: result.video.videoId,
+              title: result.video.title,
+              url: timeLink,
+              publishedAt: new Date(
+                result.video.publishedAt
+              ).toLocaleDateString(),
+              duration: formatDuration(result.video.duration),
+              viewCount: result.video.viewCount?.toLocaleString(),
+              thumbnailUrl: result.video.thumbnailUrl,
+            },
+            channel: result.channel.channelName,
+            content: result.content,
+            startTime: result.startTime,
+            endTime: result.endTime,
+            timeRange: `${formatTime(result.startTime)} - ${formatTime(result.endTime)}`,
+            relevanceScore: Math.round(result.relevanceScore * 100),
+            matchedKeywords: result.matchedKeywords.slice(0, 5),
+          };
         });
-      }
 
-      // Create response message
-      let message = `🎯 **Search Results for "${query}"**\n\n`;
-      message += `**Found ${results.length} relevant clips across ${resultsByVideo.size} videos**\n\n`;
+        // Group results by video for better organization
+        const resultsByVideo = new Map();
+        for (const result of formattedResults) {
+          const videoKey = result.video.title;
+          if (!resultsByVideo.has(videoKey)) {
+            resultsByVideo.set(videoKey, {
+              video: result.video,
+              channel: result.channel,
+              clips: [],
+            });
+          }
+          resultsByVideo.get(videoKey).clips.push({
+            content: result.content,
+            timeRange: result.timeRange,
+            relevanceScore: result.relevanceScore,
+            matchedKeywords: result.matchedKeywords,
+          });
+        }
+
+        // Create response message
+        let message = `🎯 **Search Results for "${query}"**\n\n${filterLine}`;
+        message += `**Found ${results.length} relevant clips across ${resultsByVideo.size} videos**\n`;
+
+        // Multi-channel searches say how the clips are spread
+        const clipsByChannel = new Map<string, number>();
+        for (const result of formattedResults) {
+          clipsByChannel.set(
+            result.channel,
+            (clipsByChannel.get(result.channel) ?? 0) + 1
+          );
+        }
+        if (clipsByChannel.size > 1) {
+          message += `**Channels:** ${[...clipsByChannel].map(([name, clips]) => `${name} (${clips})`).join(", ")}\n`;
+        }
+        message += "\n";
 
-      // Display results grouped by video
-      for (const [videoTitle, videoData] of resultsByVideo) {
-        message += `**📺 ${videoTitle}**\n`;
-        message += `*Channel: ${videoData.channel} | Published: ${videoData.video.publishedAt}*\n`;
-        message += `*Duration: ${videoData.video.duration} | Views: ${videoData.video.viewCount}*\n\n`;
+        // Display results grouped by video
+        for (const [videoTitle, videoData] of resultsByVideo) {
+          message += `**📺 ${videoTitle}**\n`;
+          message += `*Channel: ${videoData.channel} | Published: ${videoData.video.publishedAt}*\n`;
+          message += `*Duration: ${videoData.video.duration} | Views: ${videoData.video.viewCount}*\n\n`;
 
-        for (const clip of videoData.clips) {
-          message += `**⏰ ${clip.timeRange}** (${clip.relevanceScore}% match)\n`;
-          message += `*Keywords: ${clip.matchedKeywords.join(", ")}*\n`;
-          message += `"${clip.content.length > 200 ? `${clip.content.substring(0, 200)}...` : clip.content}"\n\n`;
+          for (const clip of videoData.clips) {
+            message += `**⏰ ${clip.timeRange}** (${clip.relevanceScore}% match)\n`;
+            message += `*Keywords: ${clip.matchedKeywords.join(", ")}*\n`;
+            message += `"${clip.content.length > 200 ? `${clip.content.substring(0, 200)}...` : clip.content}"\n\n`;
+          }
+          message += `[Watch Video](${videoData.video.url})\n\n---\n\n`;
         }
-        message += `[Watch Video](${videoData.video.url})\n\n---\n\n`;
+
+        return {
+          success: true,
+          message,
+          results: formattedResults,
+          totalResults: results.length,
+          videosFound: resultsByVideo.size,
+          query,
+          filters: filterSummary || null,
+        };
+      } catch (error) {
+        console.error("❌ [CONTENT-SEARCH] Error:", error);
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return {
+          success: false,
+          message: `❌ **Search Failed**\n\nAn error occurred while searching:\n\n**Error:** ${errorMessage}\n\nPlease try again with a different query.`,
+          results: [],
+          totalResults: 0,
+        };
       }
+    },
+  });
 
-      return {
-        success: true,
-        message,
-        results: formattedResults,
-        totalResults: results.length,
-        videosFound: resultsByVideo.size,
-        query,
-      };
-    } catch (error) {
-      console.error("❌ [CONTENT-SEARCH] Error:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      return {
-        success: false,
-        message: `❌ **Search Failed**\n\nAn error occurred while searching:\n\n**Error:** ${errorMessage}\n\nPlease try again with a different query.`,
-        results: [],
-        totalResults: 0,
-      };
-    }
-  },
-});
+type FilterInput = {
+  publishedFrom?: string;
+  publishedTo?: string;
+  minDurationMinutes?: number;
+  maxDurationMinutes?: number;
+  minViews?: number;
+  videoIds?: string[];
+  entityType?: string;
+};
+
+// Human-readable summary of the active filters, empty when there are none
+function describeFilters({
+  publishedFrom,
+  publishedTo,
+  minDurationMinutes,
+  maxDurationMinutes,
+  minViews,
+  videoIds,
+  entityType,
+}: FilterInput): string {
+  const parts: string[] = [];
+  if (publishedFrom || publishedTo) {
+    parts.push(
+      `published ${publishedFrom ?? "any time"} to ${publishedTo ?? "now"}`
+    );
+  }
+  if (minDurationMinutes !== undefined) {
+    parts.push(`at least ${minDurationMinutes} min`);
+  }
+  if (maxDurationMinutes !== undefined) {
+    parts.push(`at most ${maxDurationMinutes} min`);
+  }
+  if (minViews !== undefined) {
+    parts.push(`${minViews.toLocaleString()}+ views`);
+  }
+  if (videoIds?.length) {
+    parts.push(`videos ${videoIds.join(", ")}`);
+  }
+  if (entityType) {
+    parts.push(`mentions ${entityType}`);
+  }
+  return parts.join(" · ");
+}
 
 function formatTime(seconds: number): string {
   const minutes = Math.floor(seconds / 60);
@@ -0,0 +1,103 @@
+import { tool } from "ai";
+import { z } from "zod";
+import type { YouTubeStore } from "../db/store";
+import type { EmbeddingProvider } from "../embeddings/embedding-provider";
+import { enqueueChannelSync } from "../jobs/indexing-jobs";
+import { YouTubeChannelIndexer } from "../services/youtube-indexer";
+
+type SyncYouTubeChannelProps = {
+  store: YouTubeStore;
+  embeddings: EmbeddingProvider;
+};
+
+export const syncYouTubeChannel = ({
+  store,
+  embeddings,
+}: SyncYouTubeChannelProps) =>
+  tool({
+    description:
+      "Sync an already indexed YouTube channel: index only videos uploaded since it was indexed and refresh view and like counts. Can also schedule automatic syncs for the channel. Use this when the user wants to update a channel or pick up new uploads.",
+    inputSchema: z.object({
+      channelUrl: z
+        .string()
+        .url()
+        .describe(
+          "YouTube channel URL to sync (e.g., https://youtube.com/@channelname)"
+        ),
+      syncEveryHours: z
+        .number()
+        .min(0)
+        .max(24 * 30)
+        .optional()
+        .describe(
+          "Optional schedule: sync the channel automatically every N hours. Use 0 to stop scheduled syncs."
+        ),
+      syncNow: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Queue a sync right away"),
+    }),
+    execute: async ({ channelUrl, syncEveryHours, syncNow = true }) => {
+      try {
+        const indexer = new YouTubeChannelIndexer(store, embeddings);
+        const channel = await indexer.findChannelByUrl(channelUrl);
+
+        if (!channel?.isIndexed) {
+          return {
+            success: false,
+            message:
+              "❌ **Channel Not Indexed**\n\nThis channel has not been indexed yet, so there is nothing to sync. Index it first with the channel indexing tool.",
+            channelUrl,
+            status: "not_indexed",
+          };
+        }
+
+        let schedule = channel.syncIntervalMinutes;
+        if (syncEveryHours !== undefined) {
+          schedule =
+            syncEveryHours > 0 ? Math.round(syncEveryHours * 60) : null;
+          await store.channels.setSyncInterval(channel.id, schedule);
+        }
+
+        const job = syncNow
+          ? await enqueueChannelSync(store, { channelDbId: channel.id })
+          : null;
+
+        const scheduleText = schedule
+          ? `every ${formatInterval(schedule)}`
+          : "not scheduled";
+        const lastSynced = channel.lastSyncedAt ?? channel.lastIndexedAt;
+
+        return {
+          success: true,
+          message: `🔄 **Channel Sync ${job ? "Queued" : "Updated"}**\n\n**Channel:** ${channel.channelName}\n**Last synced:** ${lastSynced ? new Date(lastSynced).toLocaleString() : "Never"}\n**Automatic sync:** ${scheduleText}${job ? `\n**Job:** ${job.id}` : ""}\n\n${job ? "The indexing worker will index new uploads and refresh view and like counts. Check the database status for the sync report." : "No sync was queued."}`,
+          channelId: channel.channelId,
+          channelName: channel.channelName,
+          jobId: job?.id ?? null,
+          syncIntervalMinutes: schedule,
+          status: job ? "queued" : "scheduled",
+        };
+      } catch (error) {
+        console.error("❌ [CHANNEL-SYNC] Error:", error);
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return {
+          success: false,
+          message: `❌ **Sync Failed**\n\n**Error:** ${errorMessage}`,
+          channelUrl,
+          status: "failed",
+        };
+      }
+    },
+  });
+
+function formatInterval(minutes: number): string {
+  if (minutes % (24 * 60) === 0) {
+    return `${minutes / (24 * 60)} days`;
+  }
+  if (minutes % 60 === 0) {
+    return `${minutes / 60} hours`;
+  }
+  return `${minutes} minutes`;
+}
@@ -2,13 +2,12 @@ import { tool } from "ai";
 import { z } from "zod";
 import {
   generateYouTubeLinkResponse,
-  getFirstChannelLink,
-  isYouTubeChannelLink,
+  getFirstIndexableLink,
 } from "../utils/youtube-utils";
 
 export const validateYouTubeLink = tool({
   description:
-    "Use this tool whenever you see ANY YouTube URL in the user's message. It will validate if it's a proper YouTube channel link that can be indexed for semantic search.",
+    "Use this tool whenever you see ANY YouTube URL in the user's message. It will validate if it's a YouTube channel, video or playlist link that can be indexed for semantic search, and which indexing tool to use for it.",
   inputSchema: z.object({
     message: z
       .string()
@@ -16,21 +15,9 @@ export const validateYouTubeLink = tool({
   }),
   execute: ({ message }: { message: string }) => {
     try {
-      // Check if the message contains any YouTube links
-      const hasChannelLink = isYouTubeChannelLink(message);
+      const link = getFirstIndexableLink(message);
 
-      if (!hasChannelLink) {
-        return {
-          success: false,
-          message: generateYouTubeLinkResponse(null),
-          linkInfo: null,
-        };
-      }
-
-      // Get the first valid channel link
-      const channelLink = getFirstChannelLink(message);
-
-      if (!channelLink) {
+      if (!link) {
         return {
           success: false,
           message: generateYouTubeLinkResponse(null),
@@ -40,8 +27,12 @@ export const validateYouTubeLink = tool({
 
       return {
         success: true,
-        message: generateYouTubeLinkResponse(channelLink),
-        linkInfo: channelLink,
+        message: generateYouTubeLinkResponse(link),
+        linkInfo: link,
+        indexingTool:
+          link.type === "channel"
+            ? "indexYouTubeChannel"
+            : "indexYouTubeVideos",
       };
     } catch (error) {
       console.error("Error validating YouTube link:", error);
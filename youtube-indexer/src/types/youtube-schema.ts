@@ -1,85 +1,174 @@
-import type { InferSelectModel } from "drizzle-orm";
+import { type InferInsertModel, type InferSelectModel, sql } from "drizzle-orm";
 import {
   boolean,
+  index,
   integer,
+  jsonb,
   pgTable,
+  primaryKey,
   text,
   timestamp,
+  uniqueIndex,
   uuid,
   varchar,
   vector,
 } from "drizzle-orm/pg-core";
+import type { TranscriptSegment } from "../utils/transcript-utils";
+
+// Per-video indexing stages, in the order they complete
+export const videoIndexingStages = [
+  "fetched",
+  "transcribed",
+  "chunked",
+  "keyworded",
+  "embedded",
+] as const;
+
+// Labels of the keyword NER model, plus TOPIC for extracted keyphrases; rows
+// extracted before entity spans were aggregated keep the B-/I- prefix
+export const keywordEntityTypes = [
+  "PER",
+  "ORG",
+  "LOC",
+  "MISC",
+  "TOPIC",
+] as const;
+
+export function entityTypeLabels(type: KeywordEntityType): string[] {
+  return [type, `B-${type}`, `I-${type}`];
+}
 
 // YouTube Channel table
-export const youtubeChannel = pgTable("YouTubeChannel", {
-  id: uuid("id").primaryKey().notNull().defaultRandom(),
-  channelId: varchar("channelId", { length: 100 }).notNull().unique(),
-  channelName: varchar("channelName", { length: 200 }).notNull(),
-  channelUrl: text("channelUrl").notNull(),
-  description: text("description"),
-  subscriberCount: integer("subscriberCount"),
-  videoCount: integer("videoCount"),
-  thumbnailUrl: text("thumbnailUrl"),
-  createdAt: timestamp("createdAt").notNull().defaultNow(),
-  updatedAt: timestamp("updatedAt").notNull().defaultNow(),
-  isIndexed: boolean("isIndexed").notNull().default(false),
-  lastIndexedAt: timestamp("lastIndexedAt"),
-});
+export const youtubeChannel = pgTable(
+  "YouTubeChannel",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    channelId: varchar("channelId", { length: 100 }).notNull().unique(),
+    channelName: varchar("channelName", { length: 200 }).notNull(),
+    channelUrl: text("channelUrl").notNull(),
+    description: text("description"),
+    subscriberCount: integer("subscriberCount"),
+    videoCount: integer("videoCount"),
+    thumbnailUrl: text("thumbnailUrl"),
+    createdAt: timestamp("createdAt").notNull().defaultNow(),
+    updatedAt: timestamp("updatedAt").notNull().defaultNow(),
+    isIndexed: boolean("isIndexed").notNull().default(false),
+    lastIndexedAt: timestamp("lastIndexedAt"),
+    syncIntervalMinutes: integer("syncIntervalMinutes"), // null when new uploads are not synced on a schedule
+    lastSyncedAt: timestamp("lastSyncedAt"),
+    maxVideos: integer("maxVideos"), // newest uploads to index, null for all
+  },
+  (table) => ({
+    // channelId is covered by its unique constraint
+    isIndexedIdx: index("idx_youtube_channel_is_indexed").on(table.isIndexed),
+  })
+);
 
 // YouTube Video table
-export const youtubeVideo = pgTable("YouTubeVideo", {
-  id: uuid("id").primaryKey().notNull().defaultRandom(),
-  videoId: varchar("videoId", { length: 20 }).notNull().unique(),
-  channelId: uuid("channelId")
-    .notNull()
-    .references(() => youtubeChannel.id),
-  title: varchar("title", { length: 500 }).notNull(),
-  description: text("description"),
-  publishedAt: timestamp("publishedAt").notNull(),
-  duration: integer("duration"), // in seconds
-  viewCount: integer("viewCount"),
-  likeCount: integer("likeCount"),
-  thumbnailUrl: text("thumbnailUrl"),
-  videoUrl: text("videoUrl").notNull(),
-  transcript: text("transcript"),
-  transcriptLength: integer("transcriptLength"),
-  isTranscriptAvailable: boolean("isTranscriptAvailable")
-    .notNull()
-    .default(false),
-  createdAt: timestamp("createdAt").notNull().defaultNow(),
-  updatedAt: timestamp("updatedAt").notNull().defaultNow(),
-});
+export const youtubeVideo = pgTable(
+  "YouTubeVideo",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    videoId: varchar("videoId", { length: 20 }).notNull().unique(),
+    channelId: uuid("channelId")
+      .notNull()
+      .references(() => youtubeChannel.id),
+    title: varchar("title", { length: 500 }).notNull(),
+    description: text("description"),
+    publishedAt: timestamp("publishedAt").notNull(),
+    duration: integer("duration"), // in seconds
+    viewCount: integer("viewCount"),
+    likeCount: integer("likeCount"),
+    thumbnailUrl: text("thumbnailUrl"),
+    videoUrl: text("videoUrl").notNull(),
+    transcript: text("transcript"),
+    transcriptLength: integer("transcriptLength"),
+    isTranscriptAvailable: boolean("isTranscriptAvailable")
+      .notNull()
+      .default(false),
+    transcriptSegments:
+      jsonb("transcriptSegments").$type<TranscriptSegment[]>(), // timed cues, kept so chunking can resume
+    indexingStage: varchar("indexingStage", { enum: videoIndexingStages }), // last completed stage
+    createdAt: timestamp("createdAt").notNull().defaultNow(),
+    updatedAt: timestamp("updatedAt").notNull().defaultNow(),
+  },
+  (table) => ({
+    // videoId is covered by its unique constraint
+    channelIdIdx: index("idx_youtube_video_channel_id").on(table.channelId),
+    publishedAtIdx: index("idx_youtube_video_published_at").on(
+      table.publishedAt
+    ),
+    transcriptAvailableIdx: index("idx_youtube_video_transcript_available").on(
+      table.isTranscriptAvailable
+    ),
+  })
+);
 
 // Transcript Chunks table - segmented transcript pieces with timestamps
-export const transcriptChunk = pgTable("TranscriptChunk", {
-  id: uuid("id").primaryKey().notNull().defaultRandom(),
-  videoId: uuid("videoId")
-    .notNull()
-    .references(() => youtubeVideo.id),
-  chunkIndex: integer("chunkIndex").notNull(), // order within video
-  content: text("content").notNull(),
-  startTime: integer("startTime").notNull(), // in seconds
-  endTime: integer("endTime").notNull(), // in seconds
-  tokenCount: integer("tokenCount").notNull(),
-  embedding: vector("embedding", { dimensions: 1536 }), // OpenAI text-embedding-3-large
-  createdAt: timestamp("createdAt").notNull().defaultNow(),
-});
+export const transcriptChunk = pgTable(
+  "TranscriptChunk",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    videoId: uuid("videoId")
+      .notNull()
+      .references(() => youtubeVideo.id),
+    chunkIndex: integer("chunkIndex").notNull(), // order within video
+    content: text("content").notNull(),
+    startTime: integer("startTime").notNull(), // in seconds
+    endTime: integer("endTime").notNull(), // in seconds
+    tokenCount: integer("tokenCount").notNull(),
+    embedding: vector("embedding", { dimensions: 1536 }), // zero-padded when the model is narrower
+    embeddingModel: varchar("embeddingModel", { length: 100 }), // provider model that produced the embedding
+    embeddingError: text("embeddingError"), // reason the last embedding attempt failed
+    embeddingAttempts: integer("embeddingAttempts").notNull().default(0),
+    createdAt: timestamp("createdAt").notNull().defaultNow(),
+  },
+  (table) => ({
+    videoIdIdx: index("idx_transcript_chunk_video_id").on(table.videoId),
+    chunkIndexIdx: index("idx_transcript_chunk_chunk_index").on(
+      table.chunkIndex
+    ),
+    // Approximate nearest neighbour search; recall is tuned with hnsw.ef_search
+    embeddingIdx: index("idx_transcript_chunk_embedding_hnsw").using(
+      "hnsw",
+      table.embedding.op("vector_cosine_ops")
+    ),
+    // Full-text search must query the same expression to use this index
+    contentSearchIdx: index("TranscriptChunk_content_search_idx").using(
+      "gin",
+      sql`to_tsvector('english', ${table.content})`
+    ),
+  })
+);
 
 // Keywords table - extracted keywords with metadata
-export const videoKeyword = pgTable("VideoKeyword", {
-  id: uuid("id").primaryKey().notNull().defaultRandom(),
-  videoId: uuid("videoId")
-    .notNull()
-    .references(() => youtubeVideo.id),
-  chunkId: uuid("chunkId").references(() => transcriptChunk.id), // optional - keyword can be video-level or chunk-level
-  keyword: varchar("keyword", { length: 200 }).notNull(),
-  entityType: varchar("entityType", { length: 50 }), // PERSON, ORG, LOCATION, etc.
-  confidence: integer("confidence").notNull(), // 0-100
-  frequency: integer("frequency").notNull().default(1), // how many times it appears
-  relevance: integer("relevance").notNull(), // 0-100
-  embedding: vector("embedding", { dimensions: 1536 }), // optional keyword embedding
-  createdAt: timestamp("createdAt").notNull().defaultNow(),
-});
+export const videoKeyword = pgTable(
+  "VideoKeyword",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    videoId: uuid("videoId")
+      .notNull()
+      .references(() => youtubeVideo.id),
+    chunkId: uuid("chunkId").references(() => transcriptChunk.id), // optional - keyword can be video-level or chunk-level
+    keyword: varchar("keyword", { length: 200 }).notNull(),
+    entityType: varchar("entityType", { length: 50 }), // PERSON, ORG, LOCATION, etc.
+    confidence: integer("confidence").notNull(), // 0-100
+    frequency: integer("frequency").notNull().default(1), // how many times it appears
+    relevance: integer("relevance").notNull(), // 0-100
+    embedding: vector("embedding", { dimensions: 1536 }), // optional keyword embedding
+    createdAt: timestamp("createdAt").notNull().defaultNow(),
+  },
+  (table) => ({
+    videoIdIdx: index("idx_video_keyword_video_id").on(table.videoId),
+    chunkIdIdx: index("idx_video_keyword_chunk_id").on(table.chunkId),
+    keywordIdx: index("idx_video_keyword_keyword").on(table.keyword),
+    entityTypeIdx: index("idx_video_keyword_entity_type").on(table.entityType),
+    embeddingIdx: index("idx_video_keyword_embedding_hnsw").using(
+      "hnsw",
+      table.embedding.op("vector_cosine_ops")
+    ),
+  })
+);
 
 // Channel Index Status - track indexing progress
 export const channelIndexStatus = pgTable("ChannelIndexStatus", {
@@ -106,6 +195,7 @@ export const channelIndexStatus = pgTable("ChannelIndexStatus", {
   totalChunks: integer("totalChunks").notNull().default(0),
   processedChunks: integer("processedChunks").notNull().default(0),
   errorMessage: text("errorMessage"),
+  jobId: uuid("jobId"), // the job that started the run, if any
   startedAt: timestamp("startedAt").notNull().defaultNow(),
   completedAt: timestamp("completedAt"),
   createdAt: timestamp("createdAt").notNull().defaultNow(),
@@ -119,42 +209,105 @@ export const searchQuery = pgTable("SearchQuery", {
     .references(() => youtubeChannel.id),
   query: text("query").notNull(),
   queryEmbedding: vector("queryEmbedding", { dimensions: 1536 }),
+  embeddingModel: varchar("embeddingModel", { length: 100 }),
   resultsCount: integer("resultsCount").notNull().default(0),
   executionTime: integer("executionTime"), // in milliseconds
   createdAt: timestamp("createdAt").notNull().defaultNow(),
 });
 
+// Indexing Jobs - durable queue drained by the indexing worker
+export const indexingJob = pgTable(
+  "IndexingJob",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    type: varchar("type", {
+      enum: [
+        "index_channel",
+        "index_video",
+        "index_videos",
+        "sync_channel",
+        "regenerate_embeddings",
+      ],
+    }).notNull(),
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    dedupeKey: varchar("dedupeKey", { length: 200 }), // one active job per key
+    status: varchar("status", {
+      enum: ["queued", "running", "completed", "failed"],
+    })
+      .notNull()
+      .default("queued"),
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("maxAttempts").notNull().default(3),
+    runAt: timestamp("runAt").notNull().defaultNow(), // not claimed before this time
+    lockedBy: varchar("lockedBy", { length: 100 }), // worker that claimed the job
+    heartbeatAt: timestamp("heartbeatAt"),
+    lastError: text("lastError"),
+    result: jsonb("result").$type<Record<string, unknown>>(),
+    createdAt: timestamp("createdAt").notNull().defaultNow(),
+    updatedAt: timestamp("updatedAt").notNull().defaultNow(),
+    completedAt: timestamp("completedAt"),
+  },
+  (table) => ({
+    // The worker claims the oldest due job, so keep that lookup indexed
+    statusRunAtIdx: index("IndexingJob_status_runAt_idx").on(
+      table.status,
+      table.runAt
+    ),
+    dedupeKeyIdx: index("IndexingJob_dedupeKey_idx").on(table.dedupeKey),
+    // Enforces one queued or running job per key under concurrent enqueues
+    activeDedupeKeyIdx: uniqueIndex("IndexingJob_active_dedupeKey_idx")
+      .on(table.dedupeKey)
+      .where(sql`${table.status} in ('queued', 'running')`),
+    // Progress displays look up the video jobs of an index run
+    runIdIdx: index("IndexingJob_runId_idx").on(
+      sql`(${table.payload}->>'runId')`
+    ),
+  })
+);
+
+// Channel Collections - named groups of channels searched together
+export const channelCollection = pgTable("ChannelCollection", {
+  id: uuid("id").primaryKey().notNull().defaultRandom(),
+  name: varchar("name", { length: 100 }).notNull().unique(),
+  description: text("description"),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  updatedAt: timestamp("updatedAt").notNull().defaultNow(),
+});
+
+export const channelCollectionMember = pgTable(
+  "ChannelCollectionMember",
+  {
+    collectionId: uuid("collectionId")
+      .notNull()
+      .references(() => channelCollection.id, { onDelete: "cascade" }),
+    channelId: uuid("channelId")
+      .notNull()
+      .references(() => youtubeChannel.id, { onDelete: "cascade" }),
+    addedAt: timestamp("addedAt").notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.collectionId, table.channelId] }),
+    channelIdIdx: index("ChannelCollectionMember_channelId_idx").on(
+      table.channelId
+    ),
+  })
+);
+
 // Type exports
 export type YouTubeChannel = InferSelectModel<typeof youtubeChannel>;
 export type YouTubeVideo = InferSelectModel<typeof youtubeVideo>;
+export type VideoIndexingStage = (typeof videoIndexingStages)[number];
+export type KeywordEntityType = (typeof keywordEntityTypes)[number];
 export type TranscriptChunk = InferSelectModel<typeof transcriptChunk>;
 export type VideoKeyword = InferSelectModel<typeof videoKeyword>;
 export type ChannelIndexStatus = InferSelectModel<typeof channelIndexStatus>;
 export type SearchQuery = InferSelectModel<typeof searchQuery>;
+export type IndexingJob = InferSelectModel<typeof indexingJob>;
+export type ChannelCollection = InferSelectModel<typeof channelCollection>;
 
-// Indexes for performance
-export const youtubeChannelIndexes = {
-  channelId: youtubeChannel.channelId,
-  isIndexed: youtubeChannel.isIndexed,
-};
-
-export const youtubeVideoIndexes = {
-  videoId: youtubeVideo.videoId,
-  channelId: youtubeVideo.channelId,
-  publishedAt: youtubeVideo.publishedAt,
-  isTranscriptAvailable: youtubeVideo.isTranscriptAvailable,
-};
-
-export const transcriptChunkIndexes = {
-  videoId: transcriptChunk.videoId,
-  chunkIndex: transcriptChunk.chunkIndex,
-  // Vector similarity search will use the embedding column
-};
-
-export const videoKeywordIndexes = {
-  videoId: videoKeyword.videoId,
-  chunkId: videoKeyword.chunkId,
-  keyword: videoKeyword.keyword,
-  entityType: videoKeyword.entityType,
-  // Vector similarity search will use the embedding column
-};
+export type NewYouTubeChannel = InferInsertModel<typeof youtubeChannel>;
+export type NewYouTubeVideo = InferInsertModel<typeof youtubeVideo>;
+export type NewTranscriptChunk = InferInsertModel<typeof transcriptChunk>;
+export type NewVideoKeyword = InferInsertModel<typeof videoKeyword>;
+export type NewSearchQuery = InferInsertModel<typeof searchQuery>;
+export type NewIndexingJob = InferInsertModel<typeof indexingJob>;
@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import { DEFAULT_RRF_K, reciprocalRankFusion } from "./rank-fusion";
+
+const identity = (item: string) => item;
+
+describe("reciprocalRankFusion", () => {
+  test("ranks items found by both lists first", () => {
+    const fused = reciprocalRankFusion(
+      [
+        ["a", "b", "c"],
+        ["c", "d", "b"],
+      ],
+      identity
+    );
+
+    expect(fused.map(({ item }) => item)).toEqual(["c", "b", "a", "d"]);
+    expect(fused[0].ranks).toEqual([3, 1]);
+    expect(fused.find(({ item }) => item === "a")?.ranks).toEqual([1, null]);
+  });
+
+  test("sums 1 / (k + rank) and scales the best possible score to 1", () => {
+    const [top, second] = reciprocalRankFusion(
+      [["a", "b"], ["a"]],
+      identity,
+      DEFAULT_RRF_K
+    );
+    const best = 2 / (DEFAULT_RRF_K + 1);
+
+    expect(top.score).toBe(1);
+    expect(second.score).toBeCloseTo(1 / (DEFAULT_RRF_K + 2) / best);
+  });
+
+  test("scales scores by the lists that returned results", () => {
+    const [top, second] = reciprocalRankFusion([["a", "b"], []], identity);
+
+    expect(top.score).toBe(1);
+    expect(top.ranks).toEqual([1, null]);
+    expect(second.score).toBeCloseTo((DEFAULT_RRF_K + 1) / (DEFAULT_RRF_K + 2));
+  });
+
+  test("counts an item repeated within a list at its best rank", () => {
+    const [item] = reciprocalRankFusion([["a", "a"]], identity, 1);
+
+    expect(item.ranks).toEqual([1]);
+    expect(item.score).toBe(1);
+  });
+
+  test("merges items by key and keeps the first seen", () => {
+    const fused = reciprocalRankFusion(
+      [[{ id: "1", source: "text" }], [{ id: "1", source: "vector" }]],
+      ({ id }) => id
+    );
+
+    expect(fused).toHaveLength(1);
+    expect(fused[0].item.source).toBe("text");
+  });
+
+  test("a smaller k widens the gap between top ranks", () => {
+    const gap = (k: number) => {
+      const [first, second] = reciprocalRankFusion([["a", "b"]], identity, k);
+      return first.score - second.score;
+    };
+
+    expect(gap(1)).toBeGreaterThan(gap(DEFAULT_RRF_K));
+  });
+
+  test("returns nothing for empty lists", () => {
+    expect(reciprocalRankFusion([[], []], identity)).toEqual([]);
+  });
+});
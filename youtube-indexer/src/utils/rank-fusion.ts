@@ -0,0 +1,51 @@
+/**
+ * Reciprocal rank fusion for merging ranked result lists
+ */
+
+// Standard RRF constant; larger values flatten the gap between top ranks
+export const DEFAULT_RRF_K = 60;
+
+export type FusedItem<T> = {
+  item: T;
+  score: number; // 0-1, 1 when ranked first in every list with results
+  ranks: (number | null)[]; // 1-based rank in each input list, null if absent
+};
+
+/**
+ * Scores each item by the sum of 1 / (k + rank) over the lists it appears
+ * in. Only ranks matter, so lists with incomparable scores (cosine
+ * similarity, full-text rank) can be merged directly. Scores are scaled by
+ * the lists that returned anything, so an empty list does not halve the
+ * score of the top hit from the other.
+ */
+export function reciprocalRankFusion<T>(
+  lists: T[][],
+  keyOf: (item: T) => string,
+  k = DEFAULT_RRF_K
+): FusedItem<T>[] {
+  const fused = new Map<
+    string,
+    { item: T; raw: number; ranks: (number | null)[] }
+  >();
+
+  for (const [listIndex, list] of lists.entries()) {
+    for (const [position, item] of list.entries()) {
+      const key = keyOf(item);
+      let entry = fused.get(key);
+      if (!entry) {
+        entry = { item, raw: 0, ranks: lists.map(() => null) };
+        fused.set(key, entry);
+      }
+      // Keep the best rank when a list repeats an item
+      if (entry.ranks[listIndex] === null) {
+        entry.ranks[listIndex] = position + 1;
+        entry.raw += 1 / (k + position + 1);
+      }
+    }
+  }
+
+  const best = lists.filter((list) => list.length > 0).length / (k + 1);
+  return [...fused.values()]
+    .map(({ item, raw, ranks }) => ({ item, score: raw / best, ranks }))
+    .sort((a, b) => b.score - a.score);
+}
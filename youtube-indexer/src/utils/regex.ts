@@ -0,0 +1,7 @@
+// Move regex patterns to top level for performance
+const REGEX_SPECIAL_CHARS_REGEX = /[.*+?^${}()|[\]\\]/g;
+
+// Makes text match literally inside a JavaScript or Postgres regex
+export function escapeRegex(text: string): string {
+  return text.replace(REGEX_SPECIAL_CHARS_REGEX, "\\$&");
+}
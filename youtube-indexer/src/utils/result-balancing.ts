@@ -0,0 +1,36 @@
+/**
+ * Interleaving of ranked results so no single group dominates the top
+ */
+
+/**
+ * Takes results round by round: each round adds the next-best item of every
+ * group that still has one, in overall rank order. A group with many strong
+ * items therefore gets one slot per round instead of the whole list, while
+ * the best item overall stays first.
+ */
+export function balanceByGroup<T>(
+  ranked: T[],
+  groupOf: (item: T) => string,
+  limit: number
+): T[] {
+  const groups = new Map<string, { item: T; position: number }[]>();
+  for (const [position, item] of ranked.entries()) {
+    const key = groupOf(item);
+    const members = groups.get(key) ?? [];
+    members.push({ item, position });
+    groups.set(key, members);
+  }
+
+  const balanced: T[] = [];
+  for (let round = 0; balanced.length < limit; round++) {
+    const picks = [...groups.values()]
+      .filter((members) => round < members.length)
+      .map((members) => members[round])
+      .sort((a, b) => a.position - b.position);
+    if (picks.length === 0) {
+      break;
+    }
+    balanced.push(...picks.map(({ item }) => item));
+  }
+  return balanced.slice(0, limit);
+}
@@ -0,0 +1,50 @@
+/**
+ * Diversification of ranked results with maximal marginal relevance
+ */
+
+// Weight of relevance against novelty; 1 keeps the ranked order
+export const DEFAULT_MMR_LAMBDA = 0.7;
+
+/**
+ * Greedy MMR: each step picks the item with the best
+ * `lambda * relevance - (1 - lambda) * similarity`, where similarity is to
+ * the closest item already picked. Relevance comes from the position in
+ * `ranked`, falling from 1 for the first item towards 0 for the last, so
+ * lists ordered by incomparable scores (reranked heads, fused tails) can be
+ * diversified as they are.
+ */
+export function maximalMarginalRelevance<T>(
+  ranked: T[],
+  similarity: (a: T, b: T) => number,
+  limit: number,
+  lambda = DEFAULT_MMR_LAMBDA
+): T[] {
+  const remaining = ranked.map((item, position) => ({
+    item,
+    relevance: 1 - position / ranked.length,
+    redundancy: 0, // similarity to the closest picked item
+  }));
+
+  const picked: T[] = [];
+  while (picked.length < limit && remaining.length > 0) {
+    let best = 0;
+    let bestScore = Number.NEGATIVE_INFINITY;
+    for (const [index, { relevance, redundancy }] of remaining.entries()) {
+      const score = lambda * relevance - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    }
+
+    const [{ item }] = remaining.splice(best, 1);
+    picked.push(item);
+    for (const candidate of remaining) {
+      candidate.redundancy = Math.max(
+        candidate.redundancy,
+        similarity(candidate.item, item)
+      );
+    }
+  }
+  return picked;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+import {
+  decodeSearchCursor,
+  encodeSearchCursor,
+  SearchCursorError,
+  searchFingerprint,
+} from "./search-cursor";
+
+const fingerprint = searchFingerprint("sourdough", {
+  limit: 10,
+  filters: { channelIds: ["a"], entityType: "TOPIC" },
+});
+
+describe("searchFingerprint", () => {
+  test("ignores the order option keys were written in", () => {
+    expect(
+      searchFingerprint("sourdough", {
+        filters: { entityType: "TOPIC", channelIds: ["a"] },
+        limit: 10,
+      })
+    ).toBe(fingerprint);
+  });
+
+  test("changes with the query and options", () => {
+    expect(
+      searchFingerprint("pizza", {
+        limit: 10,
+        filters: { channelIds: ["a"], entityType: "TOPIC" },
+      })
+    ).not.toBe(fingerprint);
+    expect(
+      searchFingerprint("sourdough", {
+        limit: 10,
+        filters: { channelIds: ["b"], entityType: "TOPIC" },
+      })
+    ).not.toBe(fingerprint);
+  });
+});
+
+describe("search cursors", () => {
+  test("round-trip the offset", () => {
+    for (const offset of [0, 10, 490]) {
+      const cursor = encodeSearchCursor(offset, fingerprint);
+      expect(decodeSearchCursor(cursor, fingerprint)).toBe(offset);
+    }
+  });
+
+  test("are URL safe", () => {
+    expect(encodeSearchCursor(123_456, fingerprint)).toMatch(
+      /^[A-Za-z0-9_-]+$/
+    );
+  });
+
+  test("reject cursors issued for another search", () => {
+    const cursor = encodeSearchCursor(10, fingerprint);
+    const other = searchFingerprint("pizza", { limit: 10 });
+
+    expect(() => decodeSearchCursor(cursor, other)).toThrow(
+      "Search cursor was issued for a different query or options"
+    );
+  });
+
+  test.each([
+    ["garbage", "not a cursor"],
+    ["non-JSON", Buffer.from("{oops").toString("base64url")],
+    ["null", Buffer.from("null").toString("base64url")],
+    ["a negative offset", encodeSearchCursor(-1, fingerprint)],
+    ["a fractional offset", encodeSearchCursor(1.5, fingerprint)],
+  ])("reject %s", (_name, cursor) => {
+    expect(() => decodeSearchCursor(cursor, fingerprint)).toThrow(
+      SearchCursorError
+    );
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Opaque cursors for paging through ranked search results
+ */
+import { createHash } from "node:crypto";
+
+/**
+ * A cursor that is malformed or was issued for a different query. Callers
+ * should restart from the first page.
+ */
+export class SearchCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchCursorError";
+  }
+}
+
+type CursorPayload = {
+  o: number; // results already returned
+  f: string; // fingerprint of the query and options
+};
+
+/**
+ * Identifies a query and its options, whatever order the option keys were
+ * written in, so a cursor cannot be replayed against another search.
+ */
+export function searchFingerprint(query: string, options: object): string {
+  const canonical = JSON.stringify([query, options], (_key, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => a.localeCompare(b))
+        )
+      : value
+  );
+  return createHash("sha256")
+    .update(canonical)
+    .digest("base64url")
+    .slice(0, 16);
+}
+
+export function encodeSearchCursor(
+  offset: number,
+  fingerprint: string
+): string {
+  const payload: CursorPayload = { o: offset, f: fingerprint };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+// Returns the offset the cursor points at
+export function decodeSearchCursor(
+  cursor: string,
+  fingerprint: string
+): number {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+  } catch {
+    throw new SearchCursorError("Invalid search cursor");
+  }
+
+  const { o: offset, f } = (payload ?? {}) as Partial<CursorPayload>;
+  if (offset === undefined || !Number.isSafeInteger(offset) || offset < 0) {
+    throw new SearchCursorError("Invalid search cursor");
+  }
+  if (f !== fingerprint) {
+    throw new SearchCursorError(
+      "Search cursor was issued for a different query or options"
+    );
+  }
+  return offset;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import { SearchRankingCache } from "./search-ranking-cache";
+
+describe("SearchRankingCache", () => {
+  test("returns the ranking stored under a fingerprint", () => {
+    const cache = new SearchRankingCache<string>();
+    cache.set("sourdough", ["a", "b"]);
+
+    expect(cache.get("sourdough")).toEqual(["a", "b"]);
+    expect(cache.get("pizza")).toBeNull();
+  });
+
+  test("forgets rankings once they expire", async () => {
+    const cache = new SearchRankingCache<string>({ ttlMs: 1 });
+    cache.set("sourdough", ["a"]);
+    await Bun.sleep(5);
+
+    expect(cache.get("sourdough")).toBeNull();
+  });
+
+  test("drops the least recently stored ranking when full", () => {
+    const cache = new SearchRankingCache<string>({ maxEntries: 2 });
+    cache.set("sourdough", ["a"]);
+    cache.set("pizza", ["b"]);
+    cache.set("sourdough", ["c"]);
+    cache.set("bagels", ["d"]);
+
+    expect(cache.get("pizza")).toBeNull();
+    expect(cache.get("sourdough")).toEqual(["c"]);
+    expect(cache.get("bagels")).toEqual(["d"]);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Recent search rankings kept in memory for paging
+ */
+
+export type SearchRankingCacheOptions = {
+  maxEntries?: number; // oldest rankings are dropped beyond this
+  ttlMs?: number; // rankings older than this are searched again
+};
+
+const DEFAULT_MAX_ENTRIES = 50;
+const DEFAULT_TTL_MS = 10 * 60_000;
+
+/**
+ * Maps a search fingerprint to the ranking its first page was cut from, so
+ * later pages slice the stored ranking instead of searching again. Entries
+ * expire after `ttlMs`, which bounds how long pages lag behind the index.
+ */
+export class SearchRankingCache<T> {
+  private readonly maxEntries: number;
+  private readonly ttlMs: number;
+  private readonly entries = new Map<
+    string,
+    { ranking: T[]; expiresAt: number }
+  >();
+
+  constructor({
+    maxEntries = DEFAULT_MAX_ENTRIES,
+    ttlMs = DEFAULT_TTL_MS,
+  }: SearchRankingCacheOptions = {}) {
+    this.maxEntries = maxEntries;
+    this.ttlMs = ttlMs;
+  }
+
+  get(fingerprint: string): T[] | null {
+    const entry = this.entries.get(fingerprint);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(fingerprint);
+      return null;
+    }
+    return entry.ranking;
+  }
+
+  set(fingerprint: string, ranking: T[]): void {
+    // Reinserting moves the key to the end, so the first key is the oldest
+    this.entries.delete(fingerprint);
+    this.entries.set(fingerprint, {
+      ranking,
+      expiresAt: Date.now() + this.ttlMs,
+    });
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Similarity measures for embeddings and short texts
+ */
+
+// Move regex patterns to top level for performance
+const WORD_SPLIT_REGEX = /[^\p{L}\p{N}]+/u;
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// Share of distinct words the two texts have in common, 0-1
+export function wordOverlap(a: string, b: string): number {
+  const wordsOf = (text: string) =>
+    new Set(text.toLowerCase().split(WORD_SPLIT_REGEX).filter(Boolean));
+  const wordsA = wordsOf(a);
+  const wordsB = wordsOf(b);
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return 0;
+  }
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
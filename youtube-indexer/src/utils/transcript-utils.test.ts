@@ -0,0 +1,133 @@
+import { describe, expect, test } from "bun:test";
+import {
+  chunkTranscriptSegments,
+  parseSRTSegments,
+  parseVTTSegments,
+  removeChunkOverlaps,
+  type TranscriptSegment,
+} from "./transcript-utils";
+
+// Each cue is 8 characters, so 2 tokens
+const cues = (count: number): TranscriptSegment[] =>
+  Array.from({ length: count }, (_, index) => ({
+    start: index * 2.5,
+    end: index * 2.5 + 2.2,
+    text: `cue ${String(index).padStart(4, "0")}`,
+  }));
+
+describe("parseVTTSegments", () => {
+  test("keeps cue timings and strips markup", () => {
+    const vtt = [
+      "WEBVTT",
+      "",
+      "00:00:01.500 --> 00:00:04.000",
+      "<c>Hello</c> &amp; welcome",
+      "",
+      "01:02:03.250 --> 01:02:05.000",
+      "to the show",
+    ].join("\n");
+
+    expect(parseVTTSegments(vtt)).toEqual([
+      { start: 1.5, end: 4, text: "Hello & welcome" },
+      { start: 3723.25, end: 3725, text: "to the show" },
+    ]);
+  });
+
+  test("drops lines rolled over from the previous auto-generated cue", () => {
+    const vtt = [
+      "WEBVTT",
+      "",
+      "00:00:00.000 --> 00:00:02.000",
+      "so today<00:00:01.000> we",
+      "",
+      "00:00:02.000 --> 00:00:04.000",
+      "so today we",
+      "bake bread",
+    ].join("\n");
+
+    expect(parseVTTSegments(vtt).map((segment) => segment.text)).toEqual([
+      "so today we",
+      "bake bread",
+    ]);
+  });
+
+  test("keeps repeated lines in manual captions", () => {
+    const vtt = [
+      "WEBVTT",
+      "",
+      "00:00:00.000 --> 00:00:01.000",
+      "Yeah.",
+      "",
+      "00:00:01.000 --> 00:00:02.000",
+      "Yeah.",
+    ].join("\n");
+
+    expect(parseVTTSegments(vtt)).toHaveLength(2);
+  });
+});
+
+describe("parseSRTSegments", () => {
+  test("reads comma decimals and skips cue numbers", () => {
+    const srt = [
+      "1",
+      "00:00:05,100 --> 00:00:07,900",
+      "First line",
+      "",
+      "2",
+      "00:01:00,000 --> 00:01:02,000",
+      "Second line",
+    ].join("\r\n");
+
+    expect(parseSRTSegments(srt)).toEqual([
+      { start: 5.1, end: 7.9, text: "First line" },
+      { start: 60, end: 62, text: "Second line" },
+    ]);
+  });
+});
+
+describe("chunkTranscriptSegments", () => {
+  test("takes chunk times from the first and last cue", () => {
+    const chunks = chunkTranscriptSegments(cues(10), {
+      chunkSize: 8,
+      chunkOverlap: 0,
+    });
+
+    expect(
+      chunks.map(({ chunkIndex, startTime, endTime }) => [
+        chunkIndex,
+        startTime,
+        endTime,
+      ])
+    ).toEqual([
+      [0, 0, 10],
+      [1, 10, 20],
+      [2, 20, 25],
+    ]);
+    expect(chunks[1].content).toBe("cue 0004 cue 0005 cue 0006 cue 0007");
+  });
+
+  test("starts each chunk at its first overlapping cue", () => {
+    const chunks = chunkTranscriptSegments(cues(6), {
+      chunkSize: 8,
+      chunkOverlap: 2,
+    });
+
+    expect(
+      chunks.map(({ startTime, endTime }) => [startTime, endTime])
+    ).toEqual([
+      [0, 10],
+      [7, 15],
+    ]);
+    expect(chunks[1].content.startsWith("cue 0003")).toBe(true);
+    expect(removeChunkOverlaps(chunks.map((chunk) => chunk.content))).toEqual([
+      "cue 0000 cue 0001 cue 0002 cue 0003",
+      "cue 0004 cue 0005",
+    ]);
+  });
+
+  test("returns no chunks for no segments", () => {
+    expect(
+      chunkTranscriptSegments([], { chunkSize: 8, chunkOverlap: 2 })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Cue-aware transcript utilities shared by the indexer and transcript tools
+ */
+
+import type { TranscriptResponse } from "youtube-transcript";
+
+export type TranscriptSegment = {
+  start: number; // in seconds
+  end: number; // in seconds
+  text: string;
+};
+
+export type TranscriptChunkDraft = {
+  chunkIndex: number;
+  content: string;
+  startTime: number; // in seconds, taken from the first cue in the chunk
+  endTime: number; // in seconds, taken from the last cue in the chunk
+  tokenCount: number;
+};
+
+export type CueParsingOptions = {
+  // Rolling auto-generated captions repeat the previous cue's lines in the
+  // next cue; only then are repeated lines dropped
+  autoGenerated?: boolean;
+};
+
+export type ChunkingOptions = {
+  chunkSize: number; // tokens per chunk
+  chunkOverlap: number; // token overlap between chunks
+};
+
+// Move regex patterns to top level for performance
+const CUE_TIMING_REGEX =
+  /((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+const CUE_NUMBER_REGEX = /^\d+$/;
+const INLINE_TIMESTAMP_REGEX = /<\d{2}:\d{2}:\d{2}\.\d{3}>/g;
+// YouTube adds word timings only to its auto-generated captions
+const AUTO_CAPTION_TIMING_REGEX = /<\d{2}:\d{2}:\d{2}\.\d{3}>/;
+const HTML_TAG_REGEX = /<[^>]*>/g;
+const WHITESPACE_REGEX = /\s+/g;
+const LINE_BREAK_REGEX = /\r?\n/;
+
+// Chunk overlap is a few cues, far below this many words
+const MAX_OVERLAP_WORDS = 200;
+
+/**
+ * Parses WebVTT subtitles into timed segments.
+ * Rolling auto-generated captions repeat the previous line in every cue,
+ * so for them lines already emitted by the preceding cue are dropped. Unless
+ * the caller says otherwise, captions with inline word timings count as
+ * auto-generated.
+ */
+export function parseVTTSegments(
+  content: string,
+  {
+    autoGenerated = AUTO_CAPTION_TIMING_REGEX.test(content),
+  }: CueParsingOptions = {}
+): TranscriptSegment[] {
+  return parseCues(content, autoGenerated);
+}
+
+/**
+ * Parses SRT subtitles into timed segments. SRT carries no word timings, so
+ * repeated lines are only dropped when the caller flags the captions as
+ * auto-generated.
+ */
+export function parseSRTSegments(
+  content: string,
+  { autoGenerated = false }: CueParsingOptions = {}
+): TranscriptSegment[] {
+  return parseCues(content, autoGenerated);
+}
+
+/**
+ * Parses yt-dlp `json3` subtitles into timed segments
+ */
+export function parseJSON3Segments(content: string): TranscriptSegment[] {
+  try {
+    const data = JSON.parse(content) as {
+      events?: {
+        tStartMs?: number;
+        dDurationMs?: number;
+        segs?: { utf8?: string }[];
+      }[];
+    };
+
+    const segments: TranscriptSegment[] = [];
+    for (const event of data.events ?? []) {
+      const text = cleanCueText(
+        event.segs?.map((seg) => seg.utf8 ?? "").join("") ?? ""
+      );
+      if (!text || event.tStartMs === undefined) {
+        continue;
+      }
+      const start = event.tStartMs / 1000;
+      segments.push({
+        start,
+        end: start + (event.dDurationMs ?? 0) / 1000,
+        text,
+      });
+    }
+    return segments;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Converts `youtube-transcript` items (offset/duration in seconds) into segments
+ */
+export function segmentsFromYouTubeTranscript(
+  items: TranscriptResponse[]
+): TranscriptSegment[] {
+  return items
+    .map((item) => ({
+      start: item.offset,
+      end: item.offset + item.duration,
+      text: cleanCueText(item.text),
+    }))
+    .filter((segment) => segment.text.length > 0);
+}
+
+/**
+ * Joins segments into the plain-text transcript stored on the video
+ */
+export function segmentsToText(segments: TranscriptSegment[]): string {
+  return segments
+    .map((segment) => segment.text)
+    .join(" ")
+    .replace(WHITESPACE_REGEX, " ")
+    .trim();
+}
+
+/**
+ * Groups timed segments into overlapping chunks. Every chunk boundary is taken
+ * from the first and last cue it covers, so `startTime` links to the exact
+ * second the chunk's text is spoken.
+ */
+export function chunkTranscriptSegments(
+  segments: TranscriptSegment[],
+  { chunkSize, chunkOverlap }: ChunkingOptions
+): TranscriptChunkDraft[] {
+  const chunks: TranscriptChunkDraft[] = [];
+  let current: TranscriptSegment[] = [];
+  let currentTokens = 0;
+
+  const pushChunk = () => {
+    const first = current[0];
+    const last = current.at(-1);
+    if (!(first && last)) {
+      return;
+    }
+    chunks.push({
+      chunkIndex: chunks.length,
+      content: segmentsToText(current),
+      startTime: Math.floor(first.start),
+      endTime: Math.max(Math.ceil(last.end), Math.floor(first.start)),
+      tokenCount: currentTokens,
+    });
+  };
+
+  for (const segment of segments) {
+    const segmentTokens = estimateTokenCount(segment.text);
+
+    if (currentTokens + segmentTokens > chunkSize && current.length > 0) {
+      pushChunk();
+
+      // Start the next chunk with the trailing cues of this one as overlap
+      const overlap: TranscriptSegment[] = [];
+      let overlapTokens = 0;
+      for (let i = current.length - 1; i > 0; i--) {
+        const tokens = estimateTokenCount(current[i].text);
+        if (overlapTokens + tokens > chunkOverlap) {
+          break;
+        }
+        overlap.unshift(current[i]);
+        overlapTokens += tokens;
+      }
+
+      current = overlap;
+      currentTokens = overlapTokens;
+    }
+
+    current.push(segment);
+    currentTokens += segmentTokens;
+  }
+
+  pushChunk();
+
+  return chunks;
+}
+
+/**
+ * Joins the text of two consecutive chunks, dropping the overlap that
+ * chunking repeats at the start of the second one
+ */
+export function joinOverlappingText(first: string, second: string): string {
+  const head = first.split(" ");
+  const tail = second.split(" ");
+  for (
+    let length = Math.min(head.length, tail.length, MAX_OVERLAP_WORDS);
+    length > 0;
+    length--
+  ) {
+    if (head.slice(-length).every((word, index) => word === tail[index])) {
+      return [...head, ...tail.slice(length)].join(" ");
+    }
+  }
+  return `${first} ${second}`;
+}
+
+/**
+ * The text each chunk adds to the one before it, so consecutive chunks read
+ * as one transcript without the repeated overlap
+ */
+export function removeChunkOverlaps(texts: string[]): string[] {
+  return texts.map((text, index) => {
+    if (index === 0) {
+      return text;
+    }
+    const previous = texts[index - 1];
+    return joinOverlappingText(previous, text)
+      .slice(previous.length)
+      .trimStart();
+  });
+}
+
+export function estimateTokenCount(text: string): number {
+  // Rough estimation: 1 token ≈ 4 characters
+  return Math.ceil(text.length / 4);
+}
+
+function parseCues(
+  content: string,
+  autoGenerated: boolean
+): TranscriptSegment[] {
+  const lines = content.split(LINE_BREAK_REGEX);
+  const segments: TranscriptSegment[] = [];
+  let previousLines: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const timing = lines[i].match(CUE_TIMING_REGEX);
+    if (!timing) {
+      continue;
+    }
+
+    // Collect the cue payload up to the next blank line
+    const cueLines: string[] = [];
+    while (i + 1 < lines.length && lines[i + 1].trim() !== "") {
+      i++;
+      const line = cleanCueText(lines[i]);
+      if (line && !CUE_NUMBER_REGEX.test(line)) {
+        cueLines.push(line);
+      }
+    }
+
+    // A line repeated in manual captions is said again ("Yeah.", a chorus)
+    const newLines = autoGenerated
+      ? cueLines.filter((line) => !previousLines.includes(line))
+      : cueLines;
+    if (cueLines.length > 0) {
+      previousLines = cueLines;
+    }
+
+    const text = newLines.join(" ").trim();
+    if (!text) {
+      continue;
+    }
+
+    segments.push({
+      start: parseTimestamp(timing[1]),
+      end: parseTimestamp(timing[2]),
+      text,
+    });
+  }
+
+  return segments;
+}
+
+function parseTimestamp(timestamp: string): number {
+  const parts = timestamp.replace(",", ".").split(":").map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function cleanCueText(text: string): string {
+  return text
+    .replace(INLINE_TIMESTAMP_REGEX, "")
+    .replace(HTML_TAG_REGEX, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(WHITESPACE_REGEX, " ")
+    .trim();
+}
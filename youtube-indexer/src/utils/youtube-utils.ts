@@ -16,7 +16,7 @@ export type YouTubeLinkInfo = {
  */
 export function extractYouTubeLinks(text: string): YouTubeLinkInfo[] {
   const youtubeRegex =
-    /(?:https?:\/\/)?(?:www\.)?(?:youtube\.com\/(?:c\/|channel\/|@|user\/)|youtu\.be\/)([a-zA-Z0-9_-]+)/g;
+    /(?:https?:\/\/)?(?:www\.|m\.)?(?:youtube\.com\/(?:c\/|channel\/|@|user\/|watch\?v=|shorts\/|playlist\?list=)|youtu\.be\/)([a-zA-Z0-9_-]+)/g;
   const links: YouTubeLinkInfo[] = [];
 
   let match: RegExpExecArray | null;
@@ -42,7 +42,12 @@ function analyzeYouTubeLink(url: string, id: string): YouTubeLinkInfo {
   const normalizedUrl = url.startsWith("http") ? url : `https://${url}`;
 
   // Check for channel patterns
-  if (url.includes("/c/") || url.includes("/channel/") || url.includes("/@")) {
+  if (
+    url.includes("/c/") ||
+    url.includes("/channel/") ||
+    url.includes("/@") ||
+    url.includes("/user/")
+  ) {
     return {
       type: "channel",
       id,
@@ -52,7 +57,11 @@ function analyzeYouTubeLink(url: string, id: string): YouTubeLinkInfo {
   }
 
   // Check for video patterns
-  if (url.includes("youtu.be/") || url.includes("youtube.com/watch?v=")) {
+  if (
+    url.includes("youtu.be/") ||
+    url.includes("youtube.com/watch?v=") ||
+    url.includes("youtube.com/shorts/")
+  ) {
     return {
       type: "video",
       id,
@@ -95,6 +104,19 @@ export function getFirstChannelLink(text: string): YouTubeLinkInfo | null {
   return links.find((link) => link.type === "channel" && link.isValid) || null;
 }
 
+/**
+ * Gets the link to index from text: the first channel link, otherwise the
+ * first video or playlist link
+ */
+export function getFirstIndexableLink(text: string): YouTubeLinkInfo | null {
+  const links = extractYouTubeLinks(text);
+  return (
+    links.find((link) => link.type === "channel") ||
+    links.find((link) => link.isValid) ||
+    null
+  );
+}
+
 /**
  * Generates a response message for YouTube link validation
  */
@@ -102,7 +124,7 @@ export function generateYouTubeLinkResponse(
   linkInfo: YouTubeLinkInfo | null
 ): string {
   if (!linkInfo) {
-    return "❌ No valid YouTube channel link found. Please provide a YouTube channel URL (e.g., https://youtube.com/@channelname or https://youtube.com/c/channelname)";
+    return "❌ No valid YouTube link found. Please provide a YouTube channel, video or playlist URL (e.g., https://youtube.com/@channelname, https://youtube.com/watch?v=VIDEO_ID or https://youtube.com/playlist?list=PLAYLIST_ID)";
   }
 
   if (linkInfo.type === "channel") {
@@ -110,12 +132,12 @@ export function generateYouTubeLinkResponse(
   }
 
   if (linkInfo.type === "video") {
-    return "❌ This appears to be a video link, not a channel link. Please provide a YouTube channel URL instead.";
+    return `✅ Valid YouTube video link detected: ${linkInfo.url}\n\nI can index this video's transcript for semantic search. It will be attached to the channel that uploaded it. Would you like me to proceed?`;
   }
 
   if (linkInfo.type === "playlist") {
-    return "❌ This appears to be a playlist link, not a channel link. Please provide a YouTube channel URL instead.";
+    return `✅ Valid YouTube playlist link detected: ${linkInfo.url}\n\nI can index the videos in this playlist for semantic search. Each video will be attached to the channel that uploaded it. Would you like me to proceed?`;
   }
 
-  return "❌ Invalid YouTube link format. Please provide a valid YouTube channel URL.";
+  return "❌ Invalid YouTube link format. Please provide a valid YouTube channel, video or playlist URL.";
 }